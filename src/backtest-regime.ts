@@ -2,63 +2,129 @@
 import type { Candle } from "./types/candle.js";
 import {
   backtestSimpleBtcTrend,
+  type BacktestOptions,
+  type HigherTFRegimeSeries,
   type RegimeType,
 } from "./backtest/engine.js";
-import { ema } from "./indicators/ema.js";
-import { detectRegimeFromEma } from "./strategy/regime.js";
+import {
+  computeDailyRegimes,
+  createRegimeDetector,
+  type RegimeDetector,
+  type RegimeDetectorConfig,
+  type RegimeDetectorJson,
+} from "./strategy/regime-detector.js";
+import { DEFAULT_STRATEGY_NAME } from "./strategy/registry.js";
+import type { LookaheadMode } from "./backtest/lookahead-guard.js";
+import { toEmaSeed } from "./indicators/ema.js";
+import {
+  SIGNAL_CLOSE_FILL_MODEL,
+  type FillModel,
+} from "./backtest/fill-model.js";
+import {
+  LEGACY_COST_MODEL,
+  type CostModel,
+} from "./backtest/cost-model.js";
+import type { FundingRate } from "./types/funding.js";
+import type { MarginConfig } from "./backtest/margin.js";
+import type { IntrabarOptions } from "./backtest/intrabar.js";
+import type { VolumeFilterConfig } from "./filters/volume.js";
+import type { AtrFractalOptions } from "./filters/atr-fractal.js";
+import type { PerturbationSpec } from "./backtest/sensitivity.js";
 
 // 用 strategy.json 的结构做个接口，方便 TS 提示
 export interface StrategyConfig {
+  strategy?: string;              // 策略名，见 strategy/registry.ts（如 "trend-v3"）
+  emaFast?: number;
+  emaSlow?: number;
   useTrendFilter?: boolean;
-  useV2Signal?: boolean;
-  useV3Signal?: boolean;
   stopLossPct?: number;
   takeProfitPct?: number;
   minAtrPct?: number;
   maxRsiForEntry?: number;
   minRsiForEntry?: number;
   rsiPeriod?: number;             // ✅ 新增：RSI 周期
+  atrPeriod?: number;             // 波动率过滤用的 ATR 周期（默认 14）
   maxPremiumOverEma50?: number;   // ✅ 新增：不追高最大溢价
+  lookaheadGuard?: LookaheadMode; // 未来函数检查（默认 "throw"）
+  emaSeed?: string;               // EMA 种子："first"（默认，和以前一样）/ "sma"，见 toEmaSeed
+  fillModel?: FillModel;          // 成交假设（默认信号收盘价成交）
+  costModel?: CostModel;          // 手续费 + 滑点（默认双边 0.04%、无滑点）
+  funding?: FundingRate[];        // 永续资金费率序列（默认不算资金费）
+  margin?: MarginConfig;          // 杠杆 / 保证金 / 强平模拟（默认不模拟）
+  intrabar?: IntrabarOptions;     // SL / TP 同K线歧义：小周期K线 + fallback（默认止损先到）
+  allowedHigherTFRegimes?: RegimeType[];      // 允许开多的日线 regime，默认 ["BULL"]
+  allowedHigherTFRegimesShort?: RegimeType[]; // 允许开空的日线 regime（如 ["BEAR"]），默认不做空
+  volumeFilter?: Partial<VolumeFilterConfig>; // 成交量确认（volume vs MA50-volume），默认不过滤
+  atrFractal?: AtrFractalOptions; // ATR 分形过滤（4H vs 1H），要带 1H K线，默认不过滤
+  regimeDetector?: RegimeDetectorConfig | RegimeDetectorJson; // 日线 regime 怎么判断（默认 EMA50 / EMA200 + 斜率）
+  perturbations?: PerturbationSpec; // 参数扰动测试的步长覆盖（见 backtest-walkforward-robust.ts），回测本身不用
+  /**
+   * 按策略名覆盖的参数：跑哪个策略就把它那一块盖到顶层参数上（见 configForStrategy），
+   * 比如 "breakout-failure-short" 有自己的止盈 / 失败窗口 / 空单 regime
+   */
+  strategyOverrides?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * 取某个策略实际要用的配置：顶层参数 + strategyOverrides[name]，并把 strategy 设成 name。
+ * 不传 name 就用配置里的 strategy。
+ */
+export function configForStrategy<
+  T extends { strategy?: string; strategyOverrides?: Record<string, object> }
+>(cfg: T, name: string = cfg.strategy ?? DEFAULT_STRATEGY_NAME): T {
+  return {
+    ...cfg,
+    ...(cfg.strategyOverrides?.[name] ?? {}),
+    strategy: name,
+  };
+}
+
+/**
+ * 日线 Regime 序列（从判断器暖机完那根开始，EMA 默认是第 200 根），时间用日线 closeTime
+ */
+export function dailyRegimeSeries(
+  candles1d: Candle[],
+  detector: RegimeDetector = createRegimeDetector()
+): HigherTFRegimeSeries {
+  const points = computeDailyRegimes(candles1d, detector);
+  return {
+    times: points.map((p) => p.time),
+    regimes: points.map((p) => p.regime),
+  };
 }
 
+/**
+ * 跟策略参数无关、只跟这次怎么切数据有关的回测选项
+ */
+export type RunBacktestOptions = Pick<BacktestOptions, "warmupPrefixBars">;
+
 /**
  * 统一入口：
  * 给 4H / 1D K线 + 策略参数 → 跑一遍“带日线 Regime 过滤”的回测
+ * @param options.warmupPrefixBars - candles4h 前面多少根只算指标、不交易不统计（walk-forward 用）
  */
 export function runBacktestWithConfig(
   candles4h: Candle[],
   candles1d: Candle[],
-  cfg: StrategyConfig
+  cfg: StrategyConfig,
+  options: RunBacktestOptions = {}
 ) {
   if (candles4h.length < 200 || candles1d.length < 200) {
     return null;
   }
 
-  // === 日线 Regime 计算（和 index-backtest-regime 里的一样） ===
-  const dailyCloses = candles1d.map((c) => c.close);
-  const dEma50 = ema(dailyCloses, 50);
-  const dEma200 = ema(dailyCloses, 200);
-
-  const dailyTimes: number[] = [];
-  const dailyRegimes: RegimeType[] = [];
-
-  for (let i = 200; i < candles1d.length; i++) {
-    const price = dailyCloses[i]!;
-    const e50 = dEma50[i]!;
-    const e200 = dEma200[i]!;
-    const prevE200 = dEma200[i - 1]!;
-
-    const { regime } = detectRegimeFromEma(price, e50, e200, prevE200);
-
-    dailyTimes.push(candles1d[i]!.closeTime);
-    dailyRegimes.push(regime);
-  }
+  // === 日线 Regime 计算（判断器见 cfg.regimeDetector，默认 EMA50 / EMA200） ===
+  const { times: dailyTimes, regimes: dailyRegimes } = dailyRegimeSeries(
+    candles1d,
+    createRegimeDetector(cfg.regimeDetector)
+  );
 
-  // === 真正回测：带 higherTFRegime + 只允许 BULL ===
+  // === 真正回测：带 higherTFRegime + 默认只允许 BULL ===
   const result = backtestSimpleBtcTrend(candles4h, {
     useTrendFilter: cfg.useTrendFilter ?? true,
-    useV2Signal: cfg.useV2Signal ?? false,
-    useV3Signal: cfg.useV3Signal ?? false,
+    strategy: cfg.strategy ?? DEFAULT_STRATEGY_NAME,
+    // 策略自身参数（emaFast / emaSlow 等）按 paramSchema 从 cfg 里挑
+    strategyParams: { ...cfg },
 
     // 👉 默认值改成和你现在实盘/strategy.json 一致
     stopLossPct: cfg.stopLossPct ?? 0.008,
@@ -70,13 +136,27 @@ export function runBacktestWithConfig(
 
     // ✅ 补上传递 RSI 周期 & 不追高参数
     rsiPeriod: cfg.rsiPeriod ?? 14,
+    atrPeriod: cfg.atrPeriod ?? 14,
     maxPremiumOverEma50: cfg.maxPremiumOverEma50 ?? 0.05,
+    lookaheadGuard: cfg.lookaheadGuard ?? "throw",
+    ...(cfg.emaSeed ? { emaSeed: toEmaSeed(cfg.emaSeed) } : {}),
+    ...(options.warmupPrefixBars !== undefined
+      ? { warmupPrefixBars: options.warmupPrefixBars }
+      : {}),
+    fillModel: cfg.fillModel ?? SIGNAL_CLOSE_FILL_MODEL,
+    costModel: cfg.costModel ?? LEGACY_COST_MODEL,
+    funding: cfg.funding ?? [],
+    ...(cfg.margin ? { margin: cfg.margin } : {}),
+    ...(cfg.intrabar ? { intrabar: cfg.intrabar } : {}),
+    ...(cfg.volumeFilter ? { volumeFilter: cfg.volumeFilter } : {}),
+    ...(cfg.atrFractal ? { atrFractal: cfg.atrFractal } : {}),
 
     higherTFRegime: {
       times: dailyTimes,
       regimes: dailyRegimes,
     },
-    allowedHigherTFRegimes: ["BULL"],
+    allowedHigherTFRegimes: cfg.allowedHigherTFRegimes ?? ["BULL"],
+    allowedHigherTFRegimesShort: cfg.allowedHigherTFRegimesShort ?? [],
   });
 
   return {
@@ -0,0 +1,148 @@
+// src/backtest-walkforward-robust.ts
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  fetchBtc4hCandles,
+  fetchBtc1dCandles,
+} from "./exchange/binance.js";
+
+import {
+  configForStrategy,
+  type StrategyConfig,
+} from "./backtest-regime.js";
+import {
+  MIN_WALK_FORWARD_WINDOWS,
+  runWalkForward,
+  walkForwardHistoryBars,
+  walkForwardSettingsFromEnv,
+} from "./backtest/walk-forward.js";
+import {
+  classifySensitivity,
+  parsePerturbationOverrides,
+  perturbationTargets,
+  perturbedValues,
+  printSensitivityReport,
+  sensitivityCsv,
+  sensitivityRow,
+  type ParamSensitivity,
+  type PerturbationSpec,
+  type SensitivityRow,
+} from "./backtest/sensitivity.js";
+import { getStrategy } from "./strategy/registry.js";
+import { createRegimeDetector } from "./strategy/regime-detector.js";
+
+import strategy from "./config/strategy.json" with { type: "json" };
+
+const STRATEGY_CFG: StrategyConfig = configForStrategy(strategy as StrategyConfig);
+
+const CSV_FILE = "./logs/walkforward-robust.csv";
+
+// 扰动哪些参数：strategy.json（按当前策略合并 strategyOverrides 后）的所有数值字段 + 策略 paramSchema 的数值参数，
+// 每个参数取基准值 ± step × 1..count。没列在下面的按 defaultPerturbationStep 自动定步长；
+// 覆盖顺序：这里 < strategy.json 的 "perturbations" < 环境变量 PERTURBATIONS="emaFast=10:1,stopLossPct=0.002"
+const STEP_OVERRIDES: PerturbationSpec = {
+  stopLossPct: { step: 0.001, count: 2 },          // ±0.1% / ±0.2%
+  takeProfitPct: { step: 0.01, count: 2 },         // ±1% / ±2%
+  minAtrPct: { step: 0.00125, count: 2 },          // ±0.125% / ±0.25%
+  maxRsiForEntry: { step: 5, count: 1 },
+  minRsiForEntry: { step: 5, count: 1 },
+  maxPremiumOverEma50: { step: 0.01, count: 2 },   // ±1% / ±2%
+};
+
+const PERTURBATIONS = perturbationTargets(
+  STRATEGY_CFG as Record<string, unknown>,
+  getStrategy(STRATEGY_CFG.strategy).paramSchema,
+  {
+    ...STEP_OVERRIDES,
+    ...STRATEGY_CFG.perturbations,
+    ...parsePerturbationOverrides(process.env.PERTURBATIONS ?? ""),
+  }
+);
+
+// 挪几步以内就转负算"锋利"
+const SHARP_STEPS = 1;
+
+// 和 backtest-walkforward 一样的窗口和环境变量（WALKFORWARD_TRAIN_DAYS / ... / WALKFORWARD_MODE）；
+// 参数固定，不在训练段扫参；有效窗口少于 2 个直接报错
+const SETTINGS = walkForwardSettingsFromEnv();
+const WALK_FORWARD = {
+  trainDays: SETTINGS.trainDays,
+  testDays: SETTINGS.testDays,
+  mode: SETTINGS.mode,
+  warmupBars: SETTINGS.warmupBars,
+  minWindows: MIN_WALK_FORWARD_WINDOWS,
+};
+
+/**
+ * 参数扰动测试：strategy.json / 策略 paramSchema 的每个数值参数单独往两边挪几步，
+ * 每个取值跑一遍完整 walk-forward（固定参数），看样本外收益怎么变，
+ * 一挪就转负的参数标成"锋利"。表格打印出来，明细写到 logs/walkforward-robust.csv
+ */
+async function main() {
+  // 和 backtest-walkforward 一样按窗口数拉历史（binance 分页拉）
+  const history = walkForwardHistoryBars(
+    SETTINGS,
+    createRegimeDetector(STRATEGY_CFG.regimeDetector).warmupBars
+  );
+
+  console.log(`正在从 binance 获取BTCUSDT 4小时K线（${history.bars4h} 根）...`);
+  const candles4h = await fetchBtc4hCandles(history.bars4h);
+  console.log("4H 获取到 K 线数量:", candles4h.length);
+
+  console.log(`正在从 binance 获取BTCUSDT 1天K线（${history.bars1d} 根）...`);
+  const candles1d = await fetchBtc1dCandles(history.bars1d);
+  console.log("1D 获取到 K 线数量:", candles1d.length);
+
+  console.log(
+    `\n窗口: ${WALK_FORWARD.mode}，训练 ${WALK_FORWARD.trainDays} 天 / 测试 ${WALK_FORWARD.testDays} 天，` +
+      `暖机 ${WALK_FORWARD.warmupBars} 根 4H；转负判定: ±${SHARP_STEPS} 步以内`
+  );
+
+  const baseline = runWalkForward(candles4h, candles1d, STRATEGY_CFG, WALK_FORWARD);
+  console.log(
+    `基准（strategy.json）: 样本外收益 ${baseline.oosMetrics.compoundReturnPct.toFixed(2)}%，` +
+      `${baseline.windows.length} 个窗口，${baseline.oosTrades.length} 笔`
+  );
+
+  const report: ParamSensitivity[] = [];
+
+  console.log(`扰动参数: ${PERTURBATIONS.map((t) => t.param).join(", ")}`);
+
+  for (const target of PERTURBATIONS) {
+    const { param, base, step } = target;
+    console.log(`\n扰动 ${param}（基准 ${base}，步长 ${step.step} × ${step.count}）...`);
+    const rows: SensitivityRow[] = [];
+    for (const { offset, value } of perturbedValues(base, step, target)) {
+      const wf =
+        offset === 0
+          ? baseline
+          : runWalkForward(
+              candles4h,
+              candles1d,
+              { ...STRATEGY_CFG, [param]: value },
+              WALK_FORWARD
+            );
+      const row = sensitivityRow(param, offset, value, wf);
+      rows.push(row);
+      console.log(
+        `  ${param}=${value}: 样本外 ${row.oosReturnPct.toFixed(2)}% / ` +
+          `平均 Test ${row.avgTestReturnPct.toFixed(2)}% / 笔数 ${row.trades}`
+      );
+    }
+
+    report.push(classifySensitivity(param, base, rows, SHARP_STEPS));
+  }
+
+  printSensitivityReport(report);
+
+  fs.mkdirSync(path.dirname(path.resolve(CSV_FILE)), { recursive: true });
+  fs.writeFileSync(path.resolve(CSV_FILE), sensitivityCsv(report), "utf8");
+  console.log(`\n扰动明细已写入 ${CSV_FILE}`);
+}
+
+main().catch((err) => {
+  console.error("运行出错:", err);
+  process.exit(1);
+});
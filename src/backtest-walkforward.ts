@@ -1,192 +1,153 @@
 // src/backtest-walkforward.ts
 import "dotenv/config";
-import type { Candle } from "./types/candle.js";
 
 import {
   fetchBtc4hCandles,
   fetchBtc1dCandles,
 } from "./exchange/binance.js";
 
-import { runBacktestWithConfig } from "./backtest-regime.js";
+import {
+  configForStrategy,
+  type StrategyConfig,
+} from "./backtest-regime.js";
+import { printMetrics, type ScoreTarget } from "./backtest/metrics.js";
+import {
+  expandGrid,
+  V3_SWEEP_SPACE,
+  type ParamCombo,
+} from "./backtest/search-space.js";
+import {
+  MIN_WALK_FORWARD_WINDOWS,
+  parameterDrift,
+  runWalkForward,
+  walkForwardHistoryBars,
+  walkForwardSettingsFromEnv,
+  type WalkForwardWindowResult,
+} from "./backtest/walk-forward.js";
+import { createRegimeDetector } from "./strategy/regime-detector.js";
 
 import strategy from "./config/strategy.json" with { type: "json" };
 
-const STRATEGY_CFG = strategy;
-
-// 可调
-const TRAIN_DAYS = 365;
-const TEST_DAYS = 90;
-
-type BacktestResult = {
-  totalReturnPct: number;
-  maxDrawdownPct: number;
-  trades: number;
-  annualizedReturnPct?: number;
-};
-
-type WindowResult = {
-  index: number;
-  trainStart: Date;
-  trainEnd: Date;
-  testStart: Date;
-  testEnd: Date;
-  train: BacktestResult;
-  test: BacktestResult;
-};
-
-function sliceByTime(
-  candles: Candle[],
-  startMs: number,
-  endMs: number
-): Candle[] {
-  return candles.filter(
-    (c) => c.openTime >= startMs && c.closeTime <= endMs
-  );
+const STRATEGY_CFG: StrategyConfig = configForStrategy(strategy as StrategyConfig);
+
+// 窗口用环境变量调（默认训练 365 天 / 测试 90 天 / 600 根 4H 暖机 / 8 个窗口，见 backtest/walk-forward.ts）：
+// WALKFORWARD_TRAIN_DAYS / WALKFORWARD_TEST_DAYS / WALKFORWARD_WARMUP_BARS / WALKFORWARD_WINDOWS；
+// WALKFORWARD_MODE=anchored：训练起点固定、训练集越滚越长；默认 rolling（固定长度滑动）
+const SETTINGS = walkForwardSettingsFromEnv();
+const {
+  trainDays: TRAIN_DAYS,
+  testDays: TEST_DAYS,
+  warmupBars: WARMUP_BARS,
+  mode: MODE,
+} = SETTINGS;
+
+// WALKFORWARD_FIXED=true：不在训练段扫参，train / test 都用 strategy.json（以前的稳定性检查）
+const REOPTIMIZE = process.env.WALKFORWARD_FIXED !== "true";
+
+// 训练段扫参：和 sweep-v3 同一套网格 / 打分 / 最少笔数
+const SCORE_TARGET: ScoreTarget = (m) =>
+  m.annualizedReturnPct - m.maxDrawdownPct; // 年化 - 最大回撤
+const MIN_TRAIN_TRADES = 8;
+
+function toIso(ms: number): string {
+  return new Date(ms).toISOString();
 }
 
-function toDate(ms: number): Date {
-  return new Date(ms);
+function formatParams(params: ParamCombo): string {
+  const entries = Object.entries(params);
+  if (entries.length === 0) return "(strategy.json)";
+  return entries.map(([k, v]) => `${k}=${v}`).join(", ");
+}
+
+function logWindow(r: WalkForwardWindowResult) {
+  const w = r.window;
+  console.log(`\n=== 窗口 #${w.index} ===`);
+  console.log(`Train: ${toIso(w.trainStart)} ~ ${toIso(w.trainEnd)}`);
+  console.log(`Test : ${toIso(w.testStart)} ~ ${toIso(w.testEnd)}`);
+  console.log(
+    `Train 4H 根数: ${r.trainBars}（+暖机 ${r.trainPrefixBars}）, ` +
+      `Test 4H 根数: ${r.testBars}（+暖机 ${r.testPrefixBars}）`
+  );
+
+  if (REOPTIMIZE) {
+    console.log(
+      r.pick
+        ? `Train 最优参数 (Score=${r.pick.score.toFixed(2)}): ${formatParams(r.pick.params)}`
+        : `Train 没有笔数 >= ${MIN_TRAIN_TRADES} 的组合，本窗口沿用 strategy.json`
+    );
+  }
+
+  console.log(
+    `Train 结果: 收益 ${r.train.totalReturnPct.toFixed(
+      2
+    )}% / DD ${r.train.maxDrawdownPct.toFixed(2)}% / 笔数 ${
+      r.train.totalTrades
+    }`
+  );
+  console.log(
+    `Test  结果: 收益 ${r.test.totalReturnPct.toFixed(
+      2
+    )}% / DD ${r.test.maxDrawdownPct.toFixed(2)}% / 笔数 ${
+      r.test.totalTrades
+    }`
+  );
 }
 
 async function main() {
-  console.log("正在从 binance 获取BTCUSDT 4小时K线...");
-  const candles4h = await fetchBtc4hCandles(3000);
+  // 按要跑的窗口数拉历史（binance 分页拉，不受单次 1000 根限制）
+  const history = walkForwardHistoryBars(
+    SETTINGS,
+    createRegimeDetector(STRATEGY_CFG.regimeDetector).warmupBars
+  );
+
+  console.log(`正在从 binance 获取BTCUSDT 4小时K线（${history.bars4h} 根）...`);
+  const candles4h = await fetchBtc4hCandles(history.bars4h);
   console.log("4H 获取到 K 线数量:", candles4h.length);
 
-  console.log("正在从 binance 获取BTCUSDT 1天K线...");
-  const candles1d = await fetchBtc1dCandles(500);
+  console.log(`正在从 binance 获取BTCUSDT 1天K线（${history.bars1d} 根）...`);
+  const candles1d = await fetchBtc1dCandles(history.bars1d);
   console.log("1D 获取到 K 线数量:", candles1d.length);
 
-  if (candles4h.length < 500 || candles1d.length < 200) {
-    console.log("历史数据太少，无法进行 Walk-Forward。");
-    return;
+  if (candles4h.length === 0 || candles1d.length === 0) {
+    throw new Error("没拉到 K 线，无法进行 Walk-Forward");
   }
 
   const firstTime = candles4h[0]!.openTime;
   const lastTime = candles4h[candles4h.length - 1]!.closeTime;
 
-  const dayMs = 24 * 60 * 60 * 1000;
-  const trainMs = TRAIN_DAYS * dayMs;
-  const testMs = TEST_DAYS * dayMs;
-
-  const windowResults: WindowResult[] = [];
-
-  let windowIndex = 0;
-  let cursor = firstTime;
-
   console.log("\n=== Walk-Forward 参数 ===");
-  console.log(`训练窗口: ${TRAIN_DAYS} 天`);
+  console.log(`窗口模式: ${MODE}`);
+  console.log(`训练窗口: ${TRAIN_DAYS} 天${MODE === "anchored" ? "（起，之后逐窗加长）" : ""}`);
   console.log(`测试窗口: ${TEST_DAYS} 天`);
+  console.log(`暖机前缀: ${WARMUP_BARS} 根 4H`);
+  console.log(`窗口数: 按 ${SETTINGS.windows} 个拉历史，少于 ${MIN_WALK_FORWARD_WINDOWS} 个直接报错`);
   console.log(
-    `时间范围: ${new Date(firstTime).toISOString()} ~ ${new Date(
-      lastTime
-    ).toISOString()}`
+    REOPTIMIZE
+      ? `训练段扫参: ${expandGrid(V3_SWEEP_SPACE).length} 组（sweep-v3 网格），最少 ${MIN_TRAIN_TRADES} 笔`
+      : "训练段不扫参：train / test 都用 strategy.json"
   );
-
-  while (true) {
-    const trainStart = cursor;
-    const trainEnd = trainStart + trainMs;
-    const testStart = trainEnd;
-    const testEnd = testStart + testMs;
-
-    if (testEnd > lastTime) {
-      break;
-    }
-
-    // 4H 按窗口切
-    const train4h = sliceByTime(candles4h, trainStart, trainEnd);
-    const test4h = sliceByTime(candles4h, testStart, testEnd);
-
-    if (train4h.length < 200 || test4h.length < 50) {
-      cursor += testMs;
-      continue;
-    }
-
-    windowIndex += 1;
-
-    console.log(`\n=== 窗口 #${windowIndex} ===`);
-    console.log(
-      `Train: ${toDate(trainStart).toISOString()} ~ ${toDate(
-        trainEnd
-      ).toISOString()}`
-    );
-    console.log(
-      `Test : ${toDate(testStart).toISOString()} ~ ${toDate(
-        testEnd
-      ).toISOString()}`
-    );
-    console.log(
-      `Train 4H 根数: ${train4h.length}, Test 4H 根数: ${test4h.length}`
-    );
-
-    // ⭐ 日线不按窗口切，直接用完整 1D 历史
-    const trainBacktest = runBacktestWithConfig(
-      train4h,
-      candles1d,
-      STRATEGY_CFG
-    );
-
-    const testBacktest = runBacktestWithConfig(
-      test4h,
-      candles1d,
-      STRATEGY_CFG
-    );
-
-    if (!trainBacktest?.result || !testBacktest?.result) {
-      console.log("  跳过：Train 或 Test 回测失败（K线不足或参数问题）");
-      cursor += testMs;
-      continue;
-    }
-
-    const trainRes: BacktestResult = {
-      totalReturnPct: trainBacktest.result.totalReturnPct,
-      maxDrawdownPct: trainBacktest.result.maxDrawdownPct,
-      trades: trainBacktest.result.totalTrades,
-      annualizedReturnPct: trainBacktest.result.annualizedReturnPct,
-    };
-
-    const testRes: BacktestResult = {
-      totalReturnPct: testBacktest.result.totalReturnPct,
-      maxDrawdownPct: testBacktest.result.maxDrawdownPct,
-      trades: testBacktest.result.totalTrades,
-      annualizedReturnPct: testBacktest.result.annualizedReturnPct,
-    };
-
-    console.log(
-      `Train 结果: 收益 ${trainRes.totalReturnPct.toFixed(
-        2
-      )}% / DD ${trainRes.maxDrawdownPct.toFixed(2)}% / 笔数 ${
-        trainRes.trades
-      }`
-    );
-    console.log(
-      `Test  结果: 收益 ${testRes.totalReturnPct.toFixed(
-        2
-      )}% / DD ${testRes.maxDrawdownPct.toFixed(2)}% / 笔数 ${
-        testRes.trades
-      }`
-    );
-
-    windowResults.push({
-      index: windowIndex,
-      trainStart: toDate(trainStart),
-      trainEnd: toDate(trainEnd),
-      testStart: toDate(testStart),
-      testEnd: toDate(testEnd),
-      train: trainRes,
-      test: testRes,
-    });
-
-    cursor += testMs;
-  }
-
-  if (windowResults.length === 0) {
-    console.log("\n没有有效的 Walk-Forward 窗口（可能历史太短）。");
-    return;
-  }
-
-  const testReturns = windowResults.map((w) => w.test.totalReturnPct);
-  const testDDs = windowResults.map((w) => w.test.maxDrawdownPct);
+  console.log(`时间范围: ${toIso(firstTime)} ~ ${toIso(lastTime)}`);
+
+  const { windows, oosMetrics } = runWalkForward(candles4h, candles1d, STRATEGY_CFG, {
+    trainDays: TRAIN_DAYS,
+    testDays: TEST_DAYS,
+    mode: MODE,
+    warmupBars: WARMUP_BARS,
+    minWindows: MIN_WALK_FORWARD_WINDOWS,
+    ...(REOPTIMIZE
+      ? {
+          search: {
+            space: V3_SWEEP_SPACE,
+            scoreTarget: SCORE_TARGET,
+            minTrades: MIN_TRAIN_TRADES,
+          },
+        }
+      : {}),
+    onWindow: logWindow,
+  });
+
+  const testReturns = windows.map((w) => w.test.totalReturnPct);
+  const testDDs = windows.map((w) => w.test.maxDrawdownPct);
 
   const avgTestRet =
     testReturns.reduce((a, b) => a + b, 0) / testReturns.length;
@@ -194,20 +155,42 @@ async function main() {
   const worstTestDD = Math.max(...testDDs);
 
   console.log("\n=== Walk-Forward 总结（按 Test 段） ===");
-  console.log(`窗口数量: ${windowResults.length}`);
+  console.log(`窗口数量: ${windows.length}`);
   console.log(`平均 Test 收益: ${avgTestRet.toFixed(2)}%`);
   console.log(`最差单个 Test 收益: ${worstTestRet.toFixed(2)}%`);
   console.log(
     `所有窗口里最坏 Test 最大回撤: ${worstTestDD.toFixed(2)}%`
   );
 
+  // ⭐ 所有 Test 段首尾接起来 = 一条完整的样本外权益曲线
+  console.log("\n=== 样本外（所有 Test 段拼接）绩效 ===");
+  printMetrics(oosMetrics);
+
+  if (REOPTIMIZE) {
+    console.log("\n=== 参数漂移（各窗口 Train 选出的参数） ===");
+    for (const w of windows) {
+      console.log(`#${w.window.index}: ${formatParams(w.pick?.params ?? {})}`);
+    }
+    const picks = windows.flatMap((w) => (w.pick ? [w.pick.params] : []));
+    for (const d of parameterDrift(picks)) {
+      const range =
+        d.min !== null && d.max !== null ? `，范围 [${d.min}, ${d.max}]` : "";
+      console.log(
+        `${d.param}: ${d.distinct} 种取值，相邻窗口换了 ${d.changes} 次${range}`
+      );
+    }
+  }
+
   console.log(
-    "\n提示：如果大部分窗口的 Test 收益为正，且最坏回撤在你能接受的范围内，" +
-      "说明你现在这套 strategy.json 参数在不同周期下表现还算稳定。"
+    REOPTIMIZE
+      ? "\n提示：拼接后的样本外曲线才是\"按这套流程定期重新扫参\"的真实表现；" +
+          "参数在窗口之间来回跳，说明训练段选出来的更多是噪音。"
+      : "\n提示：如果大部分窗口的 Test 收益为正，且最坏回撤在你能接受的范围内，" +
+          "说明你现在这套 strategy.json 参数在不同周期下表现还算稳定。"
   );
 }
 
 main().catch((err) => {
   console.error("运行出错:", err);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,204 @@
+// src/backtest/cost-model.ts
+import type { Candle, TradeSide } from "../types/candle.js";
+
+/**
+ * 交易场所
+ * - htx-swap     : HTX USDT 本位永续（实盘在用）
+ * - binance-spot : Binance 现货（回测数据源）
+ */
+export type Venue = "htx-swap" | "binance-spot";
+
+export type Liquidity = "maker" | "taker";
+
+/** 单边费率（0.0004 = 0.04%） */
+export interface FeeRates {
+  maker: number;
+  taker: number;
+}
+
+/**
+ * 各场所 VIP 费率表（单边）。
+ * 数值是写代码时官网公示的大致水平，实际以账户页面为准，变了就改这里。
+ */
+export const FEE_SCHEDULES: Record<Venue, Record<string, FeeRates>> = {
+  "htx-swap": {
+    VIP0: { maker: 0.0002, taker: 0.0005 },
+    VIP1: { maker: 0.00018, taker: 0.00045 },
+    VIP2: { maker: 0.00016, taker: 0.0004 },
+    VIP3: { maker: 0.00014, taker: 0.00035 },
+  },
+  "binance-spot": {
+    VIP0: { maker: 0.001, taker: 0.001 },
+    VIP1: { maker: 0.0009, taker: 0.001 },
+    VIP2: { maker: 0.0008, taker: 0.001 },
+    VIP3: { maker: 0.0004, taker: 0.0006 },
+  },
+};
+
+/**
+ * 滑点模型（单边，返回的是相对成交价的比例）：
+ * - none                 : 不算滑点
+ * - fixed-bps            : 固定 bps
+ * - atr                  : ATR/price 的一定比例（波动越大滑得越多）
+ * - volume-participation : 按下单名义价值占K线成交额的比例，平方根冲击模型
+ */
+export type SlippageModel =
+  | { type: "none" }
+  | { type: "fixed-bps"; bps: number }
+  | { type: "atr"; atrFraction: number }
+  | {
+      type: "volume-participation";
+      orderNotionalUSDT: number;
+      impactBps: number;          // 参与率 100% 时的冲击（bps）
+      volumeUnit: "base" | "quote"; // Binance volume 是 BTC 数量，HTX vol 是 USDT 成交额
+      maxBps?: number;            // 上限，防止极端小量K线炸出离谱滑点
+    };
+
+export interface CostModel {
+  fees: FeeRates;
+  entryLiquidity: Liquidity;
+  exitLiquidity: Liquidity;
+  slippage: SlippageModel;
+}
+
+/**
+ * 旧行为：双边 0.04%，不算滑点（和原来各引擎里的 feeRate 常量一致）
+ */
+export const LEGACY_COST_MODEL: CostModel = {
+  fees: { maker: 0.0004, taker: 0.0004 },
+  entryLiquidity: "taker",
+  exitLiquidity: "taker",
+  slippage: { type: "none" },
+};
+
+/**
+ * 按场所 + VIP 等级查费率，找不到直接报错
+ */
+export function feeRatesFor(venue: Venue, vipTier = "VIP0"): FeeRates {
+  const rates = FEE_SCHEDULES[venue][vipTier];
+  if (!rates) {
+    throw new Error(
+      `未知费率等级: ${venue} ${vipTier}，可选: ${Object.keys(
+        FEE_SCHEDULES[venue]
+      ).join(", ")}`
+    );
+  }
+  return rates;
+}
+
+/**
+ * 组一个成本模型：默认市价进出（taker），和实盘对手价下单一致
+ */
+export function buildCostModel(options: {
+  venue: Venue;
+  vipTier?: string;
+  entryLiquidity?: Liquidity;
+  exitLiquidity?: Liquidity;
+  slippage?: SlippageModel;
+}): CostModel {
+  return {
+    fees: feeRatesFor(options.venue, options.vipTier),
+    entryLiquidity: options.entryLiquidity ?? "taker",
+    exitLiquidity: options.exitLiquidity ?? "taker",
+    slippage: options.slippage ?? { type: "none" },
+  };
+}
+
+/**
+ * 单边滑点比例（0.0005 = 5 bps）
+ * @param bar      成交所在的K线
+ * @param atrValue 该K线的 ATR（atr 模型需要；拿不到就当 0）
+ */
+export function slippageFraction(
+  model: SlippageModel,
+  bar: Candle,
+  atrValue: number | undefined
+): number {
+  switch (model.type) {
+    case "none":
+      return 0;
+    case "fixed-bps":
+      return model.bps / 10000;
+    case "atr": {
+      if (atrValue === undefined || !Number.isFinite(atrValue) || bar.close <= 0) {
+        return 0;
+      }
+      return model.atrFraction * (atrValue / bar.close);
+    }
+    case "volume-participation": {
+      const quoteVolume =
+        model.volumeUnit === "base" ? bar.volume * bar.close : bar.volume;
+      const maxBps = model.maxBps ?? Infinity;
+      if (!(quoteVolume > 0)) {
+        // 没有成交量数据：按上限算（没有上限就不算）
+        return Number.isFinite(maxBps) ? maxBps / 10000 : 0;
+      }
+      const participation = model.orderNotionalUSDT / quoteVolume;
+      const bps = Math.min(model.impactBps * Math.sqrt(participation), maxBps);
+      return bps / 10000;
+    }
+  }
+}
+
+/**
+ * 一笔交易的收益拆分（都是相对入场名义价值的百分比，和 pnlPct 同口径）
+ */
+export interface TradeCosts {
+  grossPnlPct: number;
+  feePct: number;
+  slippagePct: number;
+  fundingPct: number; // 资金费（收到为正，支付为负）
+  pnlPct: number; // 净收益 = 毛收益 - 手续费 - 滑点 + 资金费
+}
+
+/**
+ * 收益拆分：和原来一样按「双边成本直接相减」的简单口径（空单毛收益方向相反）
+ * @param fundingPct 持仓期间累计资金费（%，见 funding.ts），现货 / 不算资金费时传 0
+ */
+export function tradeCosts(
+  model: CostModel,
+  side: TradeSide,
+  entryPrice: number,
+  exitPrice: number,
+  entrySlippage: number,
+  exitSlippage: number,
+  fundingPct = 0
+): TradeCosts {
+  const direction = side === "long" ? 1 : -1;
+  const grossPnlPct = (direction * (exitPrice - entryPrice) / entryPrice) * 100;
+  const feePct =
+    (model.fees[model.entryLiquidity] + model.fees[model.exitLiquidity]) * 100;
+  const slippagePct = (entrySlippage + exitSlippage) * 100;
+
+  return {
+    grossPnlPct,
+    feePct,
+    slippagePct,
+    fundingPct,
+    pnlPct: grossPnlPct - feePct - slippagePct + fundingPct,
+  };
+}
+
+/**
+ * 回测结果里的成本汇总（逐笔简单相加，和 totalReturnPct 同口径）
+ */
+export interface CostBreakdown {
+  grossReturnPct: number;
+  feesPct: number;
+  slippagePct: number;
+  fundingPct: number;
+}
+
+export function summarizeCosts(trades: Partial<TradeCosts>[]): CostBreakdown {
+  let grossReturnPct = 0;
+  let feesPct = 0;
+  let slippagePct = 0;
+  let fundingPct = 0;
+  for (const t of trades) {
+    grossReturnPct += t.grossPnlPct ?? 0;
+    feesPct += t.feePct ?? 0;
+    slippagePct += t.slippagePct ?? 0;
+    fundingPct += t.fundingPct ?? 0;
+  }
+  return { grossReturnPct, feesPct, slippagePct, fundingPct };
+}
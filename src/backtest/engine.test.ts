@@ -0,0 +1,204 @@
+// src/backtest/engine.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Candle } from "../types/candle.js";
+import type { Signal } from "../strategy/types.js";
+import { registerStrategy } from "../strategy/registry.js";
+import {
+  backtestSimpleBtcTrend,
+  type BacktestOptions,
+  type HigherTFRegimeSeries,
+  type RegimeType,
+} from "./engine.js";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 按脚本出信号的测试策略：第 i 根给 script.get(i)，其余 HOLD；
+ * "test-scripted-exit" 同一份脚本，但开了 exitOnSignal
+ */
+let script = new Map<number, Signal>();
+for (const exitOnSignal of [false, true]) {
+  registerStrategy({
+    name: exitOnSignal ? "test-scripted-exit" : "test-scripted",
+    description: "测试用：按脚本在指定K线给信号",
+    exitOnSignal,
+    paramSchema: {},
+    warmupBars: () => 0,
+    computeIndicators: () => ({}),
+    decide: ({ i }) => script.get(i) ?? "HOLD",
+  });
+}
+
+/**
+ * 单边行情：每根收盘走 step，高低点在开收盘外 1；spikes 改写指定K线的高 / 低点
+ */
+function trendCandles(
+  start: number,
+  step: number,
+  bars: number,
+  spikes: Record<number, Partial<Pick<Candle, "high" | "low">>> = {}
+): Candle[] {
+  const candles: Candle[] = [];
+  for (let i = 0; i < bars; i++) {
+    const close = start + step * i;
+    const open = i > 0 ? start + step * (i - 1) : close;
+    candles.push({
+      openTime: i * 4 * HOUR,
+      closeTime: (i + 1) * 4 * HOUR - 1,
+      open,
+      high: Math.max(open, close) + 1,
+      low: Math.min(open, close) - 1,
+      close,
+      volume: 100,
+      ...spikes[i],
+    });
+  }
+  return candles;
+}
+
+/**
+ * 日线 regime 在第 flipBar 根 4H 收盘时从 from 变成 to
+ */
+function flippingRegime(
+  candles: Candle[],
+  flipBar: number,
+  from: RegimeType,
+  to: RegimeType
+): HigherTFRegimeSeries {
+  return {
+    times: [0, candles[flipBar]!.closeTime],
+    regimes: [from, to],
+  };
+}
+
+const BASE_OPTIONS: BacktestOptions = {
+  strategy: "test-scripted",
+  stopLossPct: 0.01,
+  takeProfitPct: 0.5,
+  minAtrPct: 0,
+  maxRsiForEntry: 100,
+  minRsiForEntry: 0,
+  maxPremiumOverEma50: 1,
+};
+
+describe("持仓时每根K线都检查出场", () => {
+  test("多单：开仓后入场过滤不通过，止损照样在第一次碰到的K线出场", () => {
+    // 第 250 根收盘 750 开多，止损 742.5；第 256 根最低 740
+    const candles = trendCandles(500, 1, 300, { 256: { low: 740 } });
+    script = new Map([[250, "LONG"]]);
+
+    const result = backtestSimpleBtcTrend(candles, {
+      ...BASE_OPTIONS,
+      higherTFRegime: flippingRegime(candles, 252, "BULL", "BEAR"),
+      allowedHigherTFRegimes: ["BULL"],
+    });
+
+    assert.ok(result);
+    assert.equal(result.trades.length, 1);
+    const trade = result.trades[0]!;
+    assert.equal(trade.exitReason, "SL");
+    assert.equal(trade.exitTime, candles[256]!.closeTime);
+    assert.ok(Math.abs(trade.exitPrice - 742.5) < 1e-9);
+  });
+
+  test("空单：开仓后日线 regime 不在空单白名单，止损照样在第一次碰到的K线出场", () => {
+    // 第 250 根收盘 750 开空，止损 757.5；第 256 根最高 760
+    const candles = trendCandles(1000, -1, 300, { 256: { high: 760 } });
+    script = new Map([[250, "SHORT"]]);
+
+    const result = backtestSimpleBtcTrend(candles, {
+      ...BASE_OPTIONS,
+      higherTFRegime: flippingRegime(candles, 252, "BEAR", "BULL"),
+      allowedHigherTFRegimes: ["BULL"],
+      allowedHigherTFRegimesShort: ["BEAR"],
+    });
+
+    assert.ok(result);
+    assert.equal(result.trades.length, 1);
+    const trade = result.trades[0]!;
+    assert.equal(trade.side, "short");
+    assert.equal(trade.exitReason, "SL");
+    assert.equal(trade.exitTime, candles[256]!.closeTime);
+    assert.ok(Math.abs(trade.exitPrice - 757.5) < 1e-9);
+  });
+
+  test("空单：止盈同样不受入场过滤影响", () => {
+    // 止盈 5%：750 × 0.95 = 712.5，第 260 根最低 710
+    const candles = trendCandles(1000, -1, 300, { 260: { low: 710 } });
+    script = new Map([[250, "SHORT"]]);
+
+    const result = backtestSimpleBtcTrend(candles, {
+      ...BASE_OPTIONS,
+      takeProfitPct: 0.05,
+      higherTFRegime: flippingRegime(candles, 252, "BEAR", "BULL"),
+      allowedHigherTFRegimes: ["BULL"],
+      allowedHigherTFRegimesShort: ["BEAR"],
+    });
+
+    assert.ok(result);
+    const trade = result.trades[0]!;
+    assert.equal(trade.exitReason, "TP");
+    assert.equal(trade.exitTime, candles[260]!.closeTime);
+  });
+});
+
+describe("持仓时按策略的平仓信号出场", () => {
+  test("CLOSE_LONG 在止损止盈都没碰到时按收盘价平，出场原因 SIGNAL", () => {
+    const candles = trendCandles(500, 1, 300);
+    script = new Map<number, Signal>([
+      [250, "LONG"],
+      [255, "CLOSE_LONG"],
+    ]);
+
+    const result = backtestSimpleBtcTrend(candles, {
+      ...BASE_OPTIONS,
+      strategy: "test-scripted-exit",
+    });
+
+    assert.ok(result);
+    assert.equal(result.trades.length, 1);
+    const trade = result.trades[0]!;
+    assert.equal(trade.exitReason, "SIGNAL");
+    assert.equal(trade.exitTime, candles[255]!.closeTime);
+    assert.equal(trade.exitPrice, candles[255]!.close);
+  });
+
+  test("方向不对的平仓信号不理会（空单不看 CLOSE_LONG）", () => {
+    const candles = trendCandles(1000, -1, 300);
+    script = new Map<number, Signal>([
+      [250, "SHORT"],
+      [255, "CLOSE_LONG"],
+      [258, "CLOSE_SHORT"],
+    ]);
+
+    const result = backtestSimpleBtcTrend(candles, {
+      ...BASE_OPTIONS,
+      strategy: "test-scripted-exit",
+      allowedHigherTFRegimesShort: ["BEAR"],
+      higherTFRegime: flippingRegime(candles, 0, "BEAR", "BEAR"),
+    });
+
+    assert.ok(result);
+    const trade = result.trades[0]!;
+    assert.equal(trade.exitReason, "SIGNAL");
+    assert.equal(trade.exitTime, candles[258]!.closeTime);
+  });
+
+  test("策略没开 exitOnSignal 时不理会平仓信号，只按止损止盈出场", () => {
+    // 第 256 根最低 740 碰止损；第 255 根的 CLOSE_LONG 不理会
+    const candles = trendCandles(500, 1, 300, { 256: { low: 740 } });
+    script = new Map<number, Signal>([
+      [250, "LONG"],
+      [255, "CLOSE_LONG"],
+    ]);
+
+    const result = backtestSimpleBtcTrend(candles, BASE_OPTIONS);
+
+    assert.ok(result);
+    assert.equal(result.trades.length, 1);
+    const trade = result.trades[0]!;
+    assert.equal(trade.exitReason, "SL");
+    assert.equal(trade.exitTime, candles[256]!.closeTime);
+  });
+});
@@ -1,11 +1,74 @@
-import type { Candle, Trade } from "../types/candle.js";
-import { ema } from "../indicators/ema.js";
-import { detectSignal } from "../strategy/simple-trend.js";
-import { detectSignalV2 } from "../strategy/simple-trend-v2.js";
-import { detectSignalV3 } from "../strategy/simple-trend-v3.js";
+import type { Candle, Trade, TradeSide } from "../types/candle.js";
+import { ema, emaWarmupBars, type EmaSeed } from "../indicators/ema.js";
+import { getStrategy, resolveParams } from "../strategy/registry.js";
+import type {
+  Signal,
+  StrategyContext,
+  StrategyIndicators,
+} from "../strategy/types.js";
+import {
+  createLookaheadGuard,
+  type LookaheadMode,
+} from "./lookahead-guard.js";
+import {
+  SIGNAL_CLOSE_FILL_MODEL,
+  entryFill,
+  isDeferredEntry,
+  stopFill,
+  takeProfitFill,
+  type FillModel,
+} from "./fill-model.js";
+import {
+  LEGACY_COST_MODEL,
+  tradeCosts,
+  slippageFraction,
+  summarizeCosts,
+  type CostBreakdown,
+  type CostModel,
+} from "./cost-model.js";
+import { fundingPct } from "./funding.js";
+import { annotateExcursions } from "./excursion.js";
+import {
+  resolveIntrabar,
+  type IntrabarOptions,
+} from "./intrabar.js";
+import {
+  hitsLiquidationFirst,
+  liquidationPnlUSDT,
+  openLeveragedPosition,
+  type LeveragedPosition,
+  type MarginConfig,
+  type MarginMode,
+} from "./margin.js";
+import {
+  compoundTrades,
+  computeMetrics,
+  drawdownStats,
+  markToMarketEquity,
+  printDrawdownStats,
+  printMetrics,
+  summarizeTrades,
+  type BarEquityPoint,
+  type DrawdownStats,
+  type EquityPoint,
+} from "./metrics.js";
+import { pickLeverageByRegime } from "../risk/position-sizing.js";
+import type { FundingRate } from "../types/funding.js";
 import { detectRegimeFromEma } from "../strategy/regime.js";
-import { atr } from "../indicators/atr.js";
-import { rsi } from "../indicators/rsi.js";
+import { atr, atrWarmupBars } from "../indicators/atr.js";
+import { rsi, rsiWarmupBars } from "../indicators/rsi.js";
+import {
+  relativeVolumeSeries,
+  resolveVolumeFilter,
+  volumeFilterAt,
+  type VolumeFilterConfig,
+} from "../filters/volume.js";
+import {
+  atrFractalAt,
+  atrFractalSeries,
+  resolveAtrFractal,
+  type AtrFractalOptions,
+} from "../filters/atr-fractal.js";
 
 /**
  * Regime 类型
@@ -32,9 +95,38 @@ export interface BacktestResult {
   avgReturnPct: number;
   winRate: number;
   trades: Trade[];
-  equityCurve: { time: number; equity: number }[]; // 权益曲线（以 1 为初始）
-  maxDrawdownPct: number;        // 最大回撤（%）
+  equityCurve: EquityPoint[];    // 按笔权益曲线（以 1 为初始，每笔平仓一个点）
+  barEquity: BarEquityPoint[];   // 逐K线盯市权益（含持仓浮盈浮亏）
+  maxDrawdownPct: number;        // 最大回撤（%，逐K线收盘盯市）
+  drawdown: DrawdownStats;       // 回撤持续时间 / 水下时间 / 恢复时间等
   annualizedReturnPct: number;   // 粗略年化收益率（%）
+  lookaheadViolations?: number;  // 策略读取未来 K 线的次数（lookaheadGuard = "flag" 时统计）
+  costs?: CostBreakdown;         // 毛收益 / 手续费 / 滑点拆分（简单相加，%）
+  margin?: MarginSummary;        // 杠杆 / 保证金模拟结果（传了 margin 参数才有）
+  intrabar?: IntrabarSummary;    // 同一根K线里 SL / TP 都碰到的歧义出场统计
+}
+
+/**
+ * 歧义出场统计：一根K线里止损止盈都碰到的交易有多少，各自怎么判的
+ */
+export interface IntrabarSummary {
+  ambiguousTrades: number;
+  resolvedByLowerTF: number;  // 小周期K线判出来的
+  resolvedByFallback: number; // 没有小周期数据 / 小周期也歧义，按 fallback 假设
+}
+
+/**
+ * 杠杆模拟的账户结果（USDT 口径）
+ */
+export interface MarginSummary {
+  mode: MarginMode;
+  initialEquityUSDT: number;
+  finalEquityUSDT: number;
+  returnPct: number;             // 账户总收益（%）
+  maxDrawdownPct: number;        // 按平仓后权益算的最大回撤（%）
+  liquidations: number;          // 被强平次数
+  blownUp: boolean;              // 账户是否归零
+  equityCurve: { time: number; equity: number }[]; // 每笔平仓后的 USDT 权益
 }
 
 /**
@@ -44,18 +136,37 @@ export interface BacktestOptions {
   useTrendFilter?: boolean;   // 是否使用 4h 200EMA 多头过滤 + 强度过滤
   stopLossPct?: number;       // 止损百分比（比如 0.02 = 2%）
   takeProfitPct?: number;     // 止盈百分比
-  useV2Signal?: boolean;      // 是否使用 V2 信号
-  useV3Signal?: boolean;      // 是否使用 V3 信号
+  strategy?: string;          // 入场信号策略名（见 strategy/registry.ts），默认 "trend-v1"
+  strategyParams?: Record<string, unknown>; // 策略自身参数（按 paramSchema 挑选，缺省用默认值）
+  lookaheadGuard?: LookaheadMode; // 未来函数检查，默认 "throw"（策略只能看到第 i 根及以前）
+  fillModel?: FillModel;          // 成交假设，默认信号收盘价成交（见 fill-model.ts）
+  costModel?: CostModel;          // 手续费 + 滑点，默认双边 0.04%、无滑点（见 cost-model.ts）
+  funding?: FundingRate[];        // 永续资金费率序列（升序），不传则不算资金费
+  margin?: MarginConfig;          // 杠杆 / 保证金 / 强平模拟（见 margin.ts），不传则按无杠杆复利
+  intrabar?: IntrabarOptions;     // SL / TP 同K线歧义处理（见 intrabar.ts），默认止损先到
   minAtrPct?: number;         // 最小 ATR 波动率阈值（ATR / price）
+  emaSeed?: EmaSeed;          // EMA 种子（引擎和策略的 EMA 都用），默认 "first"（见 indicators/ema.ts）
+  /**
+   * 前面多少根只用来算指标、不开仓也不计入统计（walk-forward 给测试窗口带上前面的历史用）。
+   * 实际开始交易的位置 = max(指标暖机, 策略暖机, warmupPrefixBars)
+   */
+  warmupPrefixBars?: number;
 
   // RSI 过滤参数
   maxRsiForEntry?: number;    // 开多时 RSI 不得高于多少，默认 70
   minRsiForEntry?: number;    // 开多时 RSI 不得低于多少，默认 30（防止刀口接飞刀）
   rsiPeriod?: number;         // RSI 计算周期，默认 14
+  atrPeriod?: number;         // 波动率过滤 / 滑点用的 ATR 周期，默认 14
 
   // 不追高过滤：价格相对 EMA50 的最大溢价
   maxPremiumOverEma50?: number; // 默认 5% 以内
 
+  // 成交量确认（见 filters/volume.ts），不传则不过滤；只写部分字段时其余用默认值
+  volumeFilter?: Partial<VolumeFilterConfig>;
+
+  // ATR 分形过滤：ATR(4H) >= k × ATR(1H) 才开仓（见 filters/atr-fractal.ts），不传则不过滤
+  atrFractal?: AtrFractalOptions;
+
   // ✅ 新增：高周期（日线）Regime 过滤
   /**
    * 可选：高周期（日线）Regime 序列。
@@ -69,10 +180,24 @@ export interface BacktestOptions {
    * 默认为 ["BULL"]。
    */
   allowedHigherTFRegimes?: RegimeType[];
+
+  /**
+   * 可选：允许开空的高周期 regime 列表（比如 ["BEAR"]）。
+   * 策略给出 SHORT 信号、且日线 regime 在这里面时才开空。
+   * 默认为 []，即不做空（保持原来只做多的行为）。
+   */
+  allowedHigherTFRegimesShort?: RegimeType[];
 }
 
-// 交易手续费（单边）
-const feeRate = 0.0004; // 0.04%
+/**
+ * 空单按镜像 regime 选杠杆：日线 BEAR 对空单来说相当于 BULL
+ */
+function regimeForSide(regime: RegimeType, side: TradeSide): RegimeType {
+  if (side === "long") return regime;
+  if (regime === "BEAR") return "BULL";
+  if (regime === "BULL") return "BEAR";
+  return regime;
+}
 
 /**
  * 简单 BTC 趋势策略回测（带手续费版本）
@@ -85,34 +210,83 @@ export function backtestSimpleBtcTrend(
     useTrendFilter = true,
     stopLossPct = 0.02,
     takeProfitPct = 0.04,
-    useV2Signal = false,
-    useV3Signal = false,
+    strategy: strategyName,
+    strategyParams = {},
+    lookaheadGuard = "throw",
+    fillModel = SIGNAL_CLOSE_FILL_MODEL,
+    costModel = LEGACY_COST_MODEL,
+    funding = [],
+    margin,
+    intrabar = {},
     minAtrPct = 0.005,   // 默认：ATR 至少 0.5% 波动
+    emaSeed = "first",
+    warmupPrefixBars = 0,
     maxRsiForEntry = 70, // RSI 太高不追
     minRsiForEntry = 30, // RSI 太低不抄底
     rsiPeriod = 14,
+    atrPeriod = 14,
     maxPremiumOverEma50 = 0.05,
+    volumeFilter,
+    atrFractal,
 
     // ✅ 新增：高周期（日线）regime 过滤相关
     higherTFRegime,
     allowedHigherTFRegimes = ["BULL"],
+    allowedHigherTFRegimesShort = [],
   } = options;
 
-  if (candles.length < 200) {
-    console.log("K线太少，至少需要200根以上。");
+  // 引擎自己的 4H 过滤指标（EMA50 / EMA200、ATR、RSI）要的暖机
+  const indicatorWarmup = Math.max(
+    emaWarmupBars(200),
+    atrWarmupBars(atrPeriod),
+    rsiWarmupBars(rsiPeriod)
+  );
+
+  if (candles.length < indicatorWarmup) {
+    console.log(`K线太少，至少需要${indicatorWarmup}根以上。`);
     return null;
   }
 
   const closes = candles.map((c) => c.close);
-  const ema50 = ema(closes, 50);
-  const ema200 = ema(closes, 200);
-  const atr14 = atr(candles, 14);
+  const ema50 = ema(closes, 50, emaSeed);
+  const ema200 = ema(closes, 200, emaSeed);
+  const atrSeries = atr(candles, atrPeriod);
   const rsiSeries = rsi(closes, rsiPeriod); // 新增 RSI 指标
+  const volumeCfg = volumeFilter ? resolveVolumeFilter(volumeFilter) : undefined;
+  const relVolume = volumeCfg ? relativeVolumeSeries(candles, volumeCfg) : [];
+  if (atrFractal && !atrFractal.lowerTFCandles) {
+    throw new Error("ATR 分形过滤需要传 1H K线（atrFractal.lowerTFCandles）");
+  }
+  const fractalCfg = atrFractal ? resolveAtrFractal(atrFractal) : undefined;
+  const fractalRatios =
+    atrFractal?.lowerTFCandles && fractalCfg
+      ? atrFractalSeries(candles, atrFractal.lowerTFCandles, fractalCfg)
+      : [];
+
+  // 入场信号交给 registry 里的策略
+  const strategy = getStrategy(strategyName);
+  const params = resolveParams(strategy, strategyParams);
+  const indicators = strategy.computeIndicators(candles, params, { emaSeed });
+  const startIndex = Math.max(
+    indicatorWarmup,
+    strategy.warmupBars(params),
+    warmupPrefixBars
+  );
+
+  // 策略只拿到「截止当前 K 线」的只读视图，偷看未来会报错 / 被记录
+  const guard = createLookaheadGuard(lookaheadGuard, strategy.name);
+  const guardedCandles = guard.view(candles, "candles");
+  const guardedIndicators: StrategyIndicators = {};
+  for (const [key, values] of Object.entries(indicators)) {
+    guardedIndicators[key] = guard.view(values, key);
+  }
 
   // ✅ 为高周期 regime 做一个「指针」
   let htTimes: number[] = [];
   let htRegimes: RegimeType[] = [];
   let htIndex = 0;
+  // 截止当前已收盘的日线 regime（只往后追加、每根K线复用同一个数组，不再逐根 slice）
+  const closedHtRegimes: RegimeType[] = [];
 
   if (higherTFRegime && higherTFRegime.times.length > 0) {
     htTimes = higherTFRegime.times;
@@ -121,22 +295,238 @@ export function backtestSimpleBtcTrend(
   }
 
   let inPosition = false;
+  let side: TradeSide = "long"; // 当前 / 待成交仓位的方向
+  let pendingEntry = false; // 信号已出，等下一根K线成交
   let entryPrice = 0;
   let entryTime = 0;
+  let entrySlippage = 0; // 入场那一边的滑点（比例）
+  let strategyStop: number | undefined; // 策略自己定的止损价（Strategy.stopPrice），没有就按 stopLossPct
+  let pendingRegime: RegimeType | undefined; // 延迟成交时，信号K线的 regime
+
+  // 杠杆模拟状态（margin 不传时不用）
+  let equityUSDT = margin?.accountSizeUSDT ?? 0;
+  let position = null as LeveragedPosition | null; // 在 openPosition / closePosition 里改
+  let liquidations = 0;
+  let blownUp = false;
+  const equityCurveUSDT: { time: number; equity: number }[] = [];
+
+  const intrabarSummary: IntrabarSummary = {
+    ambiguousTrades: 0,
+    resolvedByLowerTF: 0,
+    resolvedByFallback: 0,
+  };
 
   const trades: Trade[] = [];
 
-  // 从第200根开始（保证EMA/RSI/ATR都暖机）
-  for (let i = 200; i < candles.length; i++) {
+  /**
+   * 当前仓位的止损价：策略给了就用策略的，否则按 stopLossPct
+   */
+  const currentStopPrice = (): number => {
+    if (strategyStop !== undefined) return strategyStop;
+    return side === "long"
+      ? entryPrice * (1 - stopLossPct)
+      : entryPrice * (1 + stopLossPct);
+  };
+
+  /**
+   * 开仓（方向看 side）：记录成交价 / 滑点；杠杆模式下按 regime 选杠杆并算强平价。
+   * 返回 false 表示这次不开（比如 regime 对应杠杆为 0）。
+   */
+  const openPosition = (
+    bar: Candle,
+    i: number,
+    entryRegime: RegimeType | undefined
+  ): boolean => {
+    const fill = entryFill(bar, fillModel);
+
+    if (margin) {
+      const leverage = margin.leverageLevels
+        ? pickLeverageByRegime(
+            regimeForSide(entryRegime ?? "BULL", side),
+            margin.leverageLevels
+          )
+        : margin.leverage;
+      if (leverage <= 0) return false;
+      position = openLeveragedPosition(
+        margin,
+        side,
+        equityUSDT,
+        fill.price,
+        leverage
+      );
+    }
+
+    inPosition = true;
+    entryPrice = fill.price;
+    entryTime = fill.time;
+    entrySlippage = slippageFraction(costModel.slippage, bar, atrSeries[i]);
+    return true;
+  };
+
+  /**
+   * 平仓：算成本拆分，杠杆模式下同步更新 USDT 权益
+   */
+  const closePosition = (
+    bar: Candle,
+    i: number,
+    exitPrice: number,
+    exitReason: NonNullable<Trade["exitReason"]>
+  ) => {
+    const exitTime = bar.closeTime;
+
+    const costs = tradeCosts(
+      costModel,
+      side,
+      entryPrice,
+      exitPrice,
+      entrySlippage,
+      slippageFraction(costModel.slippage, bar, atrSeries[i]),
+      fundingPct(funding, side, entryTime, exitTime)
+    );
+
+    const trade: Trade = {
+      side,
+      entryTime,
+      exitTime,
+      entryPrice,
+      exitPrice,
+      ...costs,
+      riskPct:
+        strategyStop === undefined
+          ? stopLossPct * 100
+          : (Math.abs(entryPrice - strategyStop) / entryPrice) * 100,
+      exitReason,
+    };
+
+    if (margin && position) {
+      const pnlUSDT =
+        exitReason === "LIQ"
+          ? liquidationPnlUSDT(position, entryPrice, margin.maintenanceMarginRate)
+          : (position.notionalUSDT * costs.pnlPct) / 100;
+
+      equityUSDT = Math.max(0, equityUSDT + pnlUSDT);
+      equityCurveUSDT.push({ time: exitTime, equity: equityUSDT });
+
+      trade.leverage = position.leverage;
+      trade.liquidationPrice = position.liquidationPrice;
+      trade.pnlUSDT = pnlUSDT;
+
+      if (exitReason === "LIQ") liquidations++;
+      if (equityUSDT <= 0) blownUp = true;
+      position = null;
+    }
+
+    trades.push(trade);
+    inPosition = false;
+  };
+
+  // 从指标 / 策略都暖机完（以及 warmupPrefixBars 之后）开始
+  for (let i = startIndex; i < candles.length; i++) {
     const price = closes[i]!;
-    const prevPrice = closes[i - 1]!;
     const e50 = ema50[i]!;
-    const prevE50 = ema50[i - 1]!;
     const e200 = ema200[i]!;
     const currentCandle = candles[i]!;
     const { high, low, closeTime } = currentCandle;
 
-    const atrValue = atr14[i];
+    // 账户归零，后面不再交易
+    if (blownUp) break;
+
+    // 上一根K线给出的信号，在这根K线成交（next-open / next-vwap）
+    if (pendingEntry) {
+      pendingEntry = false;
+      openPosition(currentCandle, i, pendingRegime);
+    }
+
+    // 用「指针」在日线 times 数组里前进到这根K线收盘时已收盘的那根
+    while (
+      htIndex + 1 < htTimes.length &&
+      htTimes[htIndex + 1]! <= closeTime
+    ) {
+      htIndex++;
+    }
+
+    const htClosed =
+      htTimes.length > 0 && htTimes[htIndex]! <= closeTime ? htIndex + 1 : 0;
+    while (closedHtRegimes.length < htClosed) {
+      closedHtRegimes.push(htRegimes[closedHtRegimes.length]!);
+    }
+
+    guard.setCursor(i);
+    const ctx: StrategyContext = {
+      candles: guardedCandles,
+      i,
+      inPosition,
+      indicators: guardedIndicators,
+      params,
+      // 已收盘的日线 regime（给按 regime 切换的策略用）
+      ...(htTimes.length > 0 ? { higherTFRegimes: closedHtRegimes } : {}),
+    };
+
+    // 持仓：每根K线都检查 SL / TP / 强平（不看入场过滤 —— 过滤不通过的K线照样会止损 / 被强平，
+    // 资金费也因此按真实的出场时间算）
+    if (inPosition) {
+      const isLong = side === "long";
+      const stopPrice = currentStopPrice();
+      const tpPrice = isLong
+        ? entryPrice * (1 + takeProfitPct)
+        : entryPrice * (1 - takeProfitPct);
+
+      let shouldExit = false;
+      let exitPrice = price;
+      let exitReason: NonNullable<Trade["exitReason"]> = "EMA";
+
+      // 同一根K线止损止盈都碰到：用小周期K线 / fallback 判断谁先到
+      let hitSL = isLong ? low <= stopPrice : high >= stopPrice;
+      const hitTP = isLong ? high >= tpPrice : low <= tpPrice;
+      if (hitSL && hitTP) {
+        const resolution = resolveIntrabar(
+          side,
+          currentCandle,
+          stopPrice,
+          tpPrice,
+          intrabar
+        );
+        intrabarSummary.ambiguousTrades++;
+        if (resolution.resolvedBy === "lower-tf") {
+          intrabarSummary.resolvedByLowerTF++;
+        } else {
+          intrabarSummary.resolvedByFallback++;
+        }
+        hitSL = resolution.first === "SL";
+      }
+
+      // 杠杆模式：强平价比止损先到（或开盘直接跳空穿过强平价）
+      if (position && hitsLiquidationFirst(position, currentCandle, stopPrice)) {
+        shouldExit = true;
+        exitPrice = isLong
+          ? Math.min(currentCandle.open, position.liquidationPrice)
+          : Math.max(currentCandle.open, position.liquidationPrice);
+        exitReason = "LIQ";
+      } else if (hitSL) {
+        shouldExit = true;
+        exitPrice = stopFill(side, currentCandle, stopPrice, fillModel);
+        exitReason = "SL";
+      } else if (hitTP) {
+        shouldExit = true;
+        exitPrice = takeProfitFill(side, currentCandle, tpPrice, fillModel);
+        exitReason = "TP";
+      } else if (
+        strategy.exitOnSignal &&
+        strategy.decide(ctx) === (isLong ? "CLOSE_LONG" : "CLOSE_SHORT")
+      ) {
+        // 止损 / 止盈都没碰到、策略开了 exitOnSignal：按策略自己的平仓规则（回到均值等）收盘价平
+        shouldExit = true;
+        exitPrice = price;
+        exitReason = "SIGNAL";
+      }
+
+      if (shouldExit) {
+        closePosition(currentCandle, i, exitPrice, exitReason);
+      }
+      continue;
+    }
+
+    const atrValue = atrSeries[i];
     const r = rsiSeries[i];
 
     // 没有 ATR 或 RSI 的点直接跳过
@@ -160,175 +550,131 @@ export function backtestSimpleBtcTrend(
 
     // === ✅ 高周期（日线）Regime 过滤 ===
     let higherRegimeOk = true;
+    let higherRegimeShortOk = allowedHigherTFRegimesShort.length > 0;
     if (htTimes.length > 0) {
-      // 用「指针」在日线 times 数组里前进：
-      // 用「指针」在日线 times 数组里前进，注意 htTimes 和 htRegimes 都应存在
-      while (
-        htTimes &&
-        htRegimes &&
-        htIndex + 1 < htTimes.length &&
-        htTimes[htIndex + 1] !== undefined &&
-        htTimes[htIndex + 1]! <= closeTime
-      ) {
-        htIndex++;
-      }
-
       const htRegime = htRegimes[htIndex];
       if (htRegime && allowedHigherTFRegimes.length > 0) {
         higherRegimeOk = allowedHigherTFRegimes.includes(htRegime);
       }
+      higherRegimeShortOk =
+        htRegime !== undefined && allowedHigherTFRegimesShort.includes(htRegime);
     }
 
     // 总体趋势过滤：
     // - 原来：必须 4h 是多头结构 + 波动率够
     // - 现在：在此基础上再叠加「高周期 regime 必须允许」
+    // - 空单镜像：4h 空头结构 + 波动率够 + 高周期 regime 在空单白名单里
     const trendOk = useTrendFilter
       ? regime === "BULL" && enoughVol && higherRegimeOk
       : higherRegimeOk;
+    const shortTrendOk = useTrendFilter
+      ? regime === "BEAR" && enoughVol && higherRegimeShortOk
+      : higherRegimeShortOk;
 
-    // 不满足 Regime / 波动率 / 高周期过滤，直接跳过，不开仓
-    if (!trendOk) {
+    // 不满足 Regime / 波动率 / 高周期过滤，不开仓
+    if (!trendOk && !shortTrendOk) {
       continue;
     }
 
-    // === RSI 过滤（避免追高 + 避免太超跌） ===
+    // === RSI 过滤（避免追高 + 避免太超跌）；空单按 100 - RSI 镜像 ===
     const rsiOk = r <= maxRsiForEntry && r >= minRsiForEntry;
     const notTooHigh = premiumOverEma50 <= maxPremiumOverEma50;
-
-    if (!inPosition) {
-      let signal: "LONG" | "CLOSE_LONG" | "HOLD";
-
-      if (useV3Signal) {
-        signal = detectSignalV3(candles, i, ema50, ema200, inPosition);
-      } else if (useV2Signal) {
-        // v2: 回踩确认再突破
-        signal = detectSignalV2(candles, i, ema50, ema200, inPosition);
+    const shortRsiOk = 100 - r <= maxRsiForEntry && 100 - r >= minRsiForEntry;
+    const notTooLow = -premiumOverEma50 <= maxPremiumOverEma50;
+    const volumeOk = volumeCfg ? volumeFilterAt(relVolume, i, volumeCfg).ok : true;
+    const fractalOk = fractalCfg
+      ? atrFractalAt(fractalRatios, i, fractalCfg).ok
+      : true;
+
+    const signal: Signal = strategy.decide(ctx);
+
+    // 只有在：趋势（4h）ok + 高周期 ok + 波动 ok + RSI ok + 不追高 ok + 成交量 ok + 分形 ok 时才开多（空单镜像）
+    const filtersOk = volumeOk && fractalOk;
+    const longOk =
+      signal === "LONG" && trendOk && rsiOk && notTooHigh && filtersOk;
+    const shortOk =
+      signal === "SHORT" && shortTrendOk && shortRsiOk && notTooLow && filtersOk;
+
+    if (longOk || shortOk) {
+      side = longOk ? "long" : "short";
+      strategyStop = strategy.stopPrice?.(ctx);
+      const entryRegime = htRegimes[htIndex] ?? regime;
+      if (isDeferredEntry(fillModel)) {
+        pendingEntry = true;
+        pendingRegime = entryRegime;
       } else {
-        // v1: 简单突破
-        signal = detectSignal(price, prevPrice, e50, prevE50, inPosition);
-      }
-
-      // 只有在：趋势（4h）ok + 高周期 ok + 波动 ok + RSI ok + 不追高 ok 时才开多
-      if (signal === "LONG" && trendOk && rsiOk && notTooHigh) {
-        inPosition = true;
-        entryPrice = price;
-        entryTime = currentCandle.closeTime;
-      }
-    } else {
-      // 持仓状态 — 只看 SL/TP，不看 EMA / RSI
-      const stopPrice = entryPrice * (1 - stopLossPct);
-      const tpPrice = entryPrice * (1 + takeProfitPct);
-
-      let shouldExit = false;
-      let exitPrice = price;
-      let exitReason: "SL" | "TP" | "EMA" = "EMA";
-
-      if (low <= stopPrice) {
-        shouldExit = true;
-        exitPrice = stopPrice;
-        exitReason = "SL";
-      } else if (high >= tpPrice) {
-        shouldExit = true;
-        exitPrice = tpPrice;
-        exitReason = "TP";
-      }
-
-      if (shouldExit) {
-        const exitTime = currentCandle.closeTime;
-
-        const grossPnlPct = ((exitPrice - entryPrice) / entryPrice) * 100;
-        const feePct = feeRate * 2 * 100;
-        const pnlPct = grossPnlPct - feePct;
-
-        trades.push({
-          entryTime,
-          exitTime,
-          entryPrice,
-          exitPrice,
-          pnlPct,
-          exitReason,
-        });
-
-        inPosition = false;
+        openPosition(currentCandle, i, entryRegime);
       }
     }
   }
 
   // 最后一笔强制平仓
   if (inPosition) {
-    const last = candles[candles.length - 1]!;
-    const exitPrice = last.close;
-    const exitTime = last.closeTime;
-
-    const grossPnlPct = ((exitPrice - entryPrice) / entryPrice) * 100;
-    const feePct = feeRate * 2 * 100;
-    const pnlPct = grossPnlPct - feePct;
-
-    trades.push({
-      entryTime,
-      exitTime,
-      entryPrice,
-      exitPrice,
-      pnlPct,
-      exitReason: "EMA",
-    });
+    const lastIndex = candles.length - 1;
+    const last = candles[lastIndex]!;
+    closePosition(last, lastIndex, last.close, "EMA");
   }
 
-  const totalTrades = trades.length;
-  const totalReturnPctSimple = trades.reduce((sum, t) => sum + t.pnlPct, 0);
-  const avgReturnPct = totalTrades > 0 ? totalReturnPctSimple / totalTrades : 0;
-  const wins = trades.filter((t) => t.pnlPct > 0);
-  const winRate = totalTrades > 0 ? (wins.length / totalTrades) * 100 : 0;
-
-  // ====== 权益曲线 & 最大回撤 & 年化收益 ======
-  const equityCurve: { time: number; equity: number }[] = [];
-  let equity = 1;
-  let peakEquity = 1;
-  let maxDrawdownPct = 0;
+  annotateExcursions(candles, trades);
 
-  for (const t of trades) {
-    equity *= 1 + t.pnlPct / 100;
-    equityCurve.push({ time: t.exitTime, equity });
+  // ====== 权益曲线 & 回撤 & 年化收益（统一走 metrics.ts） ======
+  const summary = summarizeTrades(trades);
+  const { equityCurve, annualizedReturnPct } = compoundTrades(trades);
+  const barEquity = markToMarketEquity(candles.slice(startIndex), trades);
+  const drawdown = drawdownStats(barEquity);
 
-    if (equity > peakEquity) {
-      peakEquity = equity;
-    }
-    const dd = ((peakEquity - equity) / peakEquity) * 100;
-    if (dd > maxDrawdownPct) {
-      maxDrawdownPct = dd;
-    }
+  const lookaheadViolations = guard.violations();
+  if (lookaheadViolations > 0) {
+    console.warn(
+      `⚠️ 检测到未来函数：${lookaheadViolations} 次越界读取（首次：${guard.firstViolation()}），本次回测结果不可信。`
+    );
   }
 
-  let annualizedReturnPct = 0;
-  if (trades.length > 0 && equityCurve.length > 0) {
-    const firstTrade = trades[0]!;
-    const lastTrade = trades[trades.length - 1]!;
-    const msDiff = lastTrade.exitTime - firstTrade.entryTime;
-    if (msDiff > 0) {
-      const years = msDiff / (1000 * 60 * 60 * 24 * 365);
-      const finalEquity = equity;
-      annualizedReturnPct = (Math.pow(finalEquity, 1 / years) - 1) * 100;
-    }
+  // ====== 杠杆模拟：USDT 权益回撤 ======
+  let marginSummary: MarginSummary | undefined;
+  if (margin) {
+    const { maxDrawdownPct: maxDd } = drawdownStats(
+      [{ time: 0, equity: margin.accountSizeUSDT }, ...equityCurveUSDT].map(
+        (p) => ({ ...p, equityLow: p.equity })
+      )
+    );
+
+    marginSummary = {
+      mode: margin.mode,
+      initialEquityUSDT: margin.accountSizeUSDT,
+      finalEquityUSDT: equityUSDT,
+      returnPct:
+        ((equityUSDT - margin.accountSizeUSDT) / margin.accountSizeUSDT) * 100,
+      maxDrawdownPct: maxDd,
+      liquidations,
+      blownUp,
+      equityCurve: equityCurveUSDT,
+    };
   }
 
   return {
-    totalTrades,
-    totalReturnPct: totalReturnPctSimple,
-    avgReturnPct,
-    winRate,
+    ...summary,
     trades,
     equityCurve,
-    maxDrawdownPct,
+    barEquity,
+    maxDrawdownPct: drawdown.maxDrawdownPct,
+    drawdown,
     annualizedReturnPct,
+    lookaheadViolations,
+    costs: summarizeCosts(trades),
+    ...(marginSummary ? { margin: marginSummary } : {}),
+    intrabar: intrabarSummary,
   };
 }
 
 /**
  * 打印结果
+ * @param candles 可选：传回测用的K线，扩展指标里会带上买入持有基准
  */
 export function printBacktestResult(
   result: BacktestResult,
-  candleCount: number
+  candleCount: number,
+  candles?: Candle[]
 ): void {
   console.log("=== 简单BTC趋势策略回测（含手续费） ===");
   console.log("K线数量:", candleCount);
@@ -345,15 +691,59 @@ export function printBacktestResult(
 
   console.log("最大回撤:", result.maxDrawdownPct.toFixed(2), "%");
   console.log("年化收益（粗略）:", result.annualizedReturnPct.toFixed(2), "%");
+  printDrawdownStats(result.drawdown);
+  printMetrics(computeMetrics(result, candles));
+
+  if (result.costs) {
+    console.log("成本拆分（简单相加）:", {
+      毛收益: result.costs.grossReturnPct.toFixed(2) + "%",
+      手续费: result.costs.feesPct.toFixed(2) + "%",
+      滑点: result.costs.slippagePct.toFixed(2) + "%",
+      资金费: result.costs.fundingPct.toFixed(2) + "%",
+    });
+  }
+
+  if (result.lookaheadViolations) {
+    console.log(
+      "⚠️ 未来函数越界读取次数:",
+      result.lookaheadViolations,
+      "（结果偏乐观，实盘无法复现）"
+    );
+  }
+
+  if (result.margin) {
+    const m = result.margin;
+    console.log("杠杆模拟（USDT）:", {
+      模式: m.mode,
+      初始权益: m.initialEquityUSDT.toFixed(2),
+      最终权益: m.finalEquityUSDT.toFixed(2),
+      账户收益: m.returnPct.toFixed(2) + "%",
+      最大回撤: m.maxDrawdownPct.toFixed(2) + "%",
+      强平次数: m.liquidations,
+      爆仓: m.blownUp,
+    });
+  }
+
+  if (result.intrabar && result.intrabar.ambiguousTrades > 0) {
+    console.log("同K线 SL/TP 歧义出场:", {
+      笔数: result.intrabar.ambiguousTrades,
+      小周期判定: result.intrabar.resolvedByLowerTF,
+      按假设判定: result.intrabar.resolvedByFallback,
+    });
+  }
 
   const slCount = result.trades.filter((t) => t.exitReason === "SL").length;
   const tpCount = result.trades.filter((t) => t.exitReason === "TP").length;
   const emaCount = result.trades.filter((t) => t.exitReason === "EMA").length;
+  const liqCount = result.trades.filter((t) => t.exitReason === "LIQ").length;
+  const signalCount = result.trades.filter((t) => t.exitReason === "SIGNAL").length;
 
   console.log("退出方式统计:", {
     SL: slCount,
     TP: tpCount,
     EMA: emaCount,
+    LIQ: liqCount,
+    SIGNAL: signalCount,
   });
 
   console.log("前几笔交易示例:");
@@ -0,0 +1,220 @@
+// src/backtest/excursion.ts
+import type { Candle, Trade } from "../types/candle.js";
+
+/**
+ * 给每笔交易补上持仓期间的最大不利 / 最大有利波动（MAE / MFE）：
+ * - 持仓K线 = closeTime 在 (entryTime, exitTime] 里的K线
+ * - 多单不利看最低价、有利看最高价；空单反过来
+ * - 出场那根：止损 / 强平出场时不利极值按出场价截断，止盈出场时有利极值按出场价截断
+ *   （仓位已经平了，后面的波动不算）
+ * 要求 trades、candles 都按时间升序，直接在 trade 对象上写字段。
+ */
+export function annotateExcursions(candles: Candle[], trades: Trade[]): void {
+  let start = 0;
+
+  for (const t of trades) {
+    // 找到第一根持仓K线（trades 有序，指针只往前走）
+    while (start < candles.length && candles[start]!.closeTime <= t.entryTime) {
+      start++;
+    }
+
+    let mae = 0;
+    let mfe = 0;
+    let barsHeld = 0;
+    let barsToMfe = 0;
+
+    const short = t.side === "short";
+    // 按「对仓位有利为正」换算的涨跌幅（%）
+    const move = (price: number) =>
+      ((short ? t.entryPrice - price : price - t.entryPrice) / t.entryPrice) *
+      100;
+
+    for (let i = start; i < candles.length; i++) {
+      const c = candles[i]!;
+      if (c.closeTime > t.exitTime) break;
+
+      let adverse = move(short ? c.high : c.low);
+      let favorable = move(short ? c.low : c.high);
+      if (c.closeTime === t.exitTime) {
+        if (t.exitReason === "SL" || t.exitReason === "LIQ") {
+          adverse = Math.max(adverse, move(t.exitPrice));
+        } else if (t.exitReason === "TP") {
+          favorable = Math.min(favorable, move(t.exitPrice));
+        }
+      }
+
+      barsHeld++;
+      mae = Math.max(mae, -adverse);
+
+      if (favorable > mfe) {
+        mfe = favorable;
+        barsToMfe = barsHeld;
+      }
+    }
+
+    t.maePct = mae;
+    t.mfePct = mfe;
+    t.barsHeld = barsHeld;
+    t.barsToMfe = barsToMfe;
+  }
+}
+
+/**
+ * MAE 分桶 vs 结果：看「浮亏到多少之后基本就回不来了」
+ */
+export interface MaeBucketRow {
+  bucket: string;      // 比如 "0.40-0.60%"
+  trades: number;
+  winners: number;
+  losers: number;
+  winRate: number;     // %
+  avgPnlPct: number;
+}
+
+/**
+ * MFE 分布：看「浮盈能走到多远」，cumulativePct = MFE 至少达到该桶下沿的交易占比
+ */
+export interface MfeBucketRow {
+  bucket: string;
+  trades: number;
+  pct: number;           // 落在这个桶里的占比（%）
+  cumulativePct: number; // MFE >= 桶下沿的占比（%），可以直接当止盈命中率估计
+}
+
+function bucketLabel(lo: number, hi: number | undefined): string {
+  return hi === undefined
+    ? `>=${lo.toFixed(2)}%`
+    : `${lo.toFixed(2)}-${hi.toFixed(2)}%`;
+}
+
+/**
+ * 按分界点切桶：edges = [0, 0.2, 0.4] -> [0,0.2) [0.2,0.4) [0.4,+∞)
+ */
+function bucketIndex(value: number, edges: number[]): number {
+  let idx = 0;
+  for (let i = 0; i < edges.length; i++) {
+    if (value >= edges[i]!) idx = i;
+  }
+  return idx;
+}
+
+export function maeOutcomeTable(
+  trades: Trade[],
+  edgesPct: number[] = [0, 0.2, 0.4, 0.6, 0.8, 1.0, 1.5, 2.0]
+): MaeBucketRow[] {
+  const rows: MaeBucketRow[] = edgesPct.map((lo, i) => ({
+    bucket: bucketLabel(lo, edgesPct[i + 1]),
+    trades: 0,
+    winners: 0,
+    losers: 0,
+    winRate: 0,
+    avgPnlPct: 0,
+  }));
+
+  for (const t of trades) {
+    if (t.maePct === undefined) continue;
+    const row = rows[bucketIndex(t.maePct, edgesPct)]!;
+    row.trades++;
+    if (t.pnlPct > 0) row.winners++;
+    else row.losers++;
+    row.avgPnlPct += t.pnlPct;
+  }
+
+  for (const row of rows) {
+    if (row.trades > 0) {
+      row.winRate = (row.winners / row.trades) * 100;
+      row.avgPnlPct /= row.trades;
+    }
+  }
+  return rows;
+}
+
+export function mfeDistribution(
+  trades: Trade[],
+  edgesPct: number[] = [0, 0.5, 1, 2, 3, 4, 5, 6, 8]
+): MfeBucketRow[] {
+  const measured = trades.filter((t) => t.mfePct !== undefined);
+  const total = measured.length;
+
+  const rows: MfeBucketRow[] = edgesPct.map((lo, i) => ({
+    bucket: bucketLabel(lo, edgesPct[i + 1]),
+    trades: 0,
+    pct: 0,
+    cumulativePct: 0,
+  }));
+
+  for (const t of measured) {
+    rows[bucketIndex(t.mfePct!, edgesPct)]!.trades++;
+  }
+
+  if (total > 0) {
+    rows.forEach((row, i) => {
+      row.pct = (row.trades / total) * 100;
+      const reached = measured.filter((t) => t.mfePct! >= edgesPct[i]!).length;
+      row.cumulativePct = (reached / total) * 100;
+    });
+  }
+  return rows;
+}
+
+/**
+ * 逐笔导出 CSV（方便丢进表格 / 画图）
+ */
+export function excursionCsv(trades: Trade[]): string {
+  const header =
+    "side,entryTime,exitTime,entryPrice,exitPrice,pnlPct,exitReason,maePct,mfePct,barsHeld,barsToMfe";
+  const lines = trades.map((t) =>
+    [
+      t.side,
+      new Date(t.entryTime).toISOString(),
+      new Date(t.exitTime).toISOString(),
+      t.entryPrice,
+      t.exitPrice,
+      t.pnlPct.toFixed(4),
+      t.exitReason ?? "",
+      t.maePct?.toFixed(4) ?? "",
+      t.mfePct?.toFixed(4) ?? "",
+      t.barsHeld ?? "",
+      t.barsToMfe ?? "",
+    ].join(",")
+  );
+  return [header, ...lines].join("\n");
+}
+
+/**
+ * 打印 MAE / MFE 文字表
+ */
+export function printExcursionReport(trades: Trade[]): void {
+  const fmt = (v: number) => v.toFixed(2);
+
+  console.log("\n=== MAE（最大浮亏）vs 结果 ===");
+  console.table(
+    maeOutcomeTable(trades).map((r) => ({
+      MAE区间: r.bucket,
+      笔数: r.trades,
+      盈利: r.winners,
+      亏损: r.losers,
+      胜率: fmt(r.winRate) + "%",
+      平均收益: fmt(r.avgPnlPct) + "%",
+    }))
+  );
+
+  console.log("\n=== MFE（最大浮盈）分布 ===");
+  console.table(
+    mfeDistribution(trades).map((r) => ({
+      MFE区间: r.bucket,
+      笔数: r.trades,
+      占比: fmt(r.pct) + "%",
+      至少达到下沿: fmt(r.cumulativePct) + "%",
+    }))
+  );
+
+  const held = trades.filter((t) => t.barsHeld !== undefined);
+  if (held.length > 0) {
+    const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+    console.log("持仓K线数:", {
+      平均持仓: fmt(avg(held.map((t) => t.barsHeld!))),
+      平均到达MFE: fmt(avg(held.map((t) => t.barsToMfe ?? 0))),
+    });
+  }
+}
@@ -0,0 +1,102 @@
+// src/backtest/fill-model.ts
+import type { Candle, TradeSide } from "../types/candle.js";
+
+/**
+ * 入场成交价假设：
+ * - signal-close : 信号K线收盘价成交（旧行为，偏理想）
+ * - next-open    : 下一根K线开盘价成交（对应实盘收盘后下对手价单）
+ * - next-vwap    : 下一根K线 VWAP 近似成交（用 OHLC4 近似）
+ */
+export type EntryFillMode = "signal-close" | "next-open" | "next-vwap";
+
+export interface FillModel {
+  entry: EntryFillMode;
+  /**
+   * 跳空感知的 SL/TP 成交：
+   * 如果K线开盘就已经越过止损/止盈价（跳空），按开盘价成交，而不是按触发价。
+   * 对应 HTX TPSL 触发后以市价成交的真实情况。
+   */
+  gapAwareStops: boolean;
+}
+
+/**
+ * 旧行为：信号收盘价入场，SL/TP 严格按触发价成交
+ */
+export const SIGNAL_CLOSE_FILL_MODEL: FillModel = {
+  entry: "signal-close",
+  gapAwareStops: false,
+};
+
+/**
+ * 贴近实盘：run-live 在 4H 收盘后用 order_price_type "opponent" 下单，
+ * 实际成交在下一根K线开盘附近；TPSL 触发后也是市价，跳空时按开盘价成交。
+ */
+export const LIVE_FILL_MODEL: FillModel = {
+  entry: "next-open",
+  gapAwareStops: true,
+};
+
+/**
+ * 用 OHLC4 近似一根K线的 VWAP（没有逐笔成交数据时的折中）
+ */
+export function approxBarVwap(c: Candle): number {
+  return (c.open + c.high + c.low + c.close) / 4;
+}
+
+/**
+ * 入场是否要推迟到下一根K线
+ */
+export function isDeferredEntry(model: FillModel): boolean {
+  return model.entry !== "signal-close";
+}
+
+/**
+ * 计算入场成交：
+ * - signal-close：成交在信号K线本身
+ * - next-*：成交在信号K线的下一根（传入的 bar 就是那根）
+ */
+export function entryFill(
+  bar: Candle,
+  model: FillModel
+): { price: number; time: number } {
+  switch (model.entry) {
+    case "signal-close":
+      return { price: bar.close, time: bar.closeTime };
+    case "next-open":
+      return { price: bar.open, time: bar.openTime };
+    case "next-vwap":
+      return { price: approxBarVwap(bar), time: bar.openTime };
+  }
+}
+
+/**
+ * 止损成交价：开盘就越过止损（多单跳空低开 / 空单跳空高开）-> 按开盘价（更差）成交
+ */
+export function stopFill(
+  side: TradeSide,
+  bar: Candle,
+  stopPrice: number,
+  model: FillModel
+): number {
+  if (model.gapAwareStops) {
+    const gapped = side === "long" ? bar.open <= stopPrice : bar.open >= stopPrice;
+    if (gapped) return bar.open;
+  }
+  return stopPrice;
+}
+
+/**
+ * 止盈成交价：开盘就越过止盈 -> 按开盘价成交
+ */
+export function takeProfitFill(
+  side: TradeSide,
+  bar: Candle,
+  tpPrice: number,
+  model: FillModel
+): number {
+  if (model.gapAwareStops) {
+    const gapped = side === "long" ? bar.open >= tpPrice : bar.open <= tpPrice;
+    if (gapped) return bar.open;
+  }
+  return tpPrice;
+}
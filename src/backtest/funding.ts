@@ -0,0 +1,41 @@
+// src/backtest/funding.ts
+import type { FundingRate } from "../types/funding.js";
+import type { TradeSide } from "../types/candle.js";
+
+/**
+ * 找到第一个 fundingTime > time 的下标（二分查找，要求 rates 升序）
+ */
+function firstAfter(rates: FundingRate[], time: number): number {
+  let lo = 0;
+  let hi = rates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (rates[mid]!.fundingTime <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * 持仓期间 (entryTime, exitTime] 内所有资金费结算，对仓位的影响（%，相对入场名义价值）。
+ * - 费率为正：多头付钱给空头 -> 多单为负，空单为正
+ * - 费率为负：空头付钱给多头 -> 多单为正，空单为负
+ * 简化：按入场名义价值计，不考虑结算时标记价格的变化。
+ */
+export function fundingPct(
+  rates: FundingRate[],
+  side: TradeSide,
+  entryTime: number,
+  exitTime: number
+): number {
+  if (rates.length === 0 || exitTime <= entryTime) return 0;
+
+  let sum = 0;
+  for (let k = firstAfter(rates, entryTime); k < rates.length; k++) {
+    const r = rates[k]!;
+    if (r.fundingTime > exitTime) break;
+    sum += r.rate;
+  }
+
+  return (side === "long" ? -sum : sum) * 100;
+}
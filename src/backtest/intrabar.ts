@@ -0,0 +1,100 @@
+// src/backtest/intrabar.ts
+import type { Candle, TradeSide } from "../types/candle.js";
+
+/**
+ * 一根K线里止损、止盈都被碰到、又没有小周期数据时的假设：
+ * - pessimistic    : 总是止损先到（旧行为）
+ * - optimistic     : 总是止盈先到
+ * - open-proximity : 离开盘价近的那个先到
+ */
+export type IntrabarFallback = "pessimistic" | "optimistic" | "open-proximity";
+
+export interface IntrabarOptions {
+  /**
+   * 小周期K线（1H / 15m），按时间升序；
+   * 歧义K线会拿它来逐根判断谁先触发，覆盖不到的时间段走 fallback
+   */
+  lowerTFCandles?: Candle[];
+  fallback?: IntrabarFallback; // 默认 "pessimistic"
+}
+
+export type IntrabarResolution = {
+  first: "SL" | "TP";
+  resolvedBy: "lower-tf" | "fallback";
+};
+
+/**
+ * 按 fallback 假设判断一根K线里谁先到
+ */
+function fallbackFirst(
+  bar: Candle,
+  stopPrice: number,
+  tpPrice: number,
+  fallback: IntrabarFallback
+): "SL" | "TP" {
+  switch (fallback) {
+    case "pessimistic":
+      return "SL";
+    case "optimistic":
+      return "TP";
+    case "open-proximity":
+      return Math.abs(bar.open - stopPrice) <= Math.abs(tpPrice - bar.open)
+        ? "SL"
+        : "TP";
+  }
+}
+
+/**
+ * 二分找第一根 openTime >= t 的小周期K线
+ */
+function lowerBound(candles: Candle[], t: number): number {
+  let lo = 0;
+  let hi = candles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid]!.openTime < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * 这根K线同时碰到止损和止盈时，判断哪个先触发。
+ * 逐根走小周期K线，第一根只碰到其中一个的就是答案；
+ * 小周期K线自己也两个都碰到（或者没数据）时，退回 fallback。
+ */
+export function resolveIntrabar(
+  side: TradeSide,
+  bar: Candle,
+  stopPrice: number,
+  tpPrice: number,
+  options: IntrabarOptions = {}
+): IntrabarResolution {
+  const { lowerTFCandles = [], fallback = "pessimistic" } = options;
+
+  for (
+    let i = lowerBound(lowerTFCandles, bar.openTime);
+    i < lowerTFCandles.length;
+    i++
+  ) {
+    const c = lowerTFCandles[i]!;
+    if (c.closeTime > bar.closeTime) break;
+
+    const hitSL = side === "long" ? c.low <= stopPrice : c.high >= stopPrice;
+    const hitTP = side === "long" ? c.high >= tpPrice : c.low <= tpPrice;
+
+    if (hitSL && hitTP) {
+      return {
+        first: fallbackFirst(c, stopPrice, tpPrice, fallback),
+        resolvedBy: "fallback",
+      };
+    }
+    if (hitSL) return { first: "SL", resolvedBy: "lower-tf" };
+    if (hitTP) return { first: "TP", resolvedBy: "lower-tf" };
+  }
+
+  return {
+    first: fallbackFirst(bar, stopPrice, tpPrice, fallback),
+    resolvedBy: "fallback",
+  };
+}
@@ -0,0 +1,95 @@
+// src/backtest/lookahead-guard.ts
+
+/**
+ * 未来函数检查模式：
+ * - off   : 不检查，直接把原数组交给策略（最快）
+ * - flag  : 允许读取未来 K 线（保持旧行为），但记录次数，结果里标记出来
+ * - throw : 一旦读取未来 K 线立即报错
+ */
+export type LookaheadMode = "off" | "flag" | "throw";
+
+export interface LookaheadGuard {
+  /** 当前回测推进到的 K 线下标（策略只能看 [0, cursor]） */
+  setCursor(i: number): void;
+  /** 把一个序列包装成「截止到 cursor」的只读视图 */
+  view<T>(values: T[], label: string): T[];
+  /** 目前为止的越界读取次数 */
+  violations(): number;
+  /** 第一次越界读取的描述（没有越界则为 undefined） */
+  firstViolation(): string | undefined;
+}
+
+function toIndex(prop: string | symbol): number | null {
+  if (typeof prop !== "string") return null;
+  if (!/^\d+$/.test(prop)) return null;
+  return Number(prop);
+}
+
+/**
+ * 创建一个未来函数检查器。
+ *
+ * 思路：用 Proxy 包一层数组，
+ * - length 只暴露到 cursor + 1（slice / for-of 等自然被截断）
+ * - 读取下标 > cursor 视为偷看未来
+ * - 任何写入都直接报错（只读视图）
+ */
+export function createLookaheadGuard(
+  mode: LookaheadMode,
+  strategyName: string
+): LookaheadGuard {
+  let cursor = -1;
+  let count = 0;
+  let first: string | undefined;
+
+  const record = (label: string, index: number) => {
+    const msg = `策略 ${strategyName} 在第 ${cursor} 根读取了 ${label}[${index}]`;
+    if (mode === "throw") {
+      throw new Error(`[LOOKAHEAD] ${msg}`);
+    }
+    count++;
+    if (first === undefined) first = msg;
+  };
+
+  return {
+    setCursor(i) {
+      cursor = i;
+    },
+
+    view<T>(values: T[], label: string): T[] {
+      if (mode === "off") return values;
+
+      return new Proxy(values, {
+        get(target, prop, receiver) {
+          if (prop === "length") {
+            return Math.min(target.length, cursor + 1);
+          }
+
+          const index = toIndex(prop);
+          if (index !== null && index > cursor) {
+            record(label, index);
+          }
+
+          return Reflect.get(target, prop, receiver);
+        },
+        set(_target, prop) {
+          throw new Error(
+            `[LOOKAHEAD] ${label} 是只读视图，不允许写入 ${String(prop)}`
+          );
+        },
+        deleteProperty(_target, prop) {
+          throw new Error(
+            `[LOOKAHEAD] ${label} 是只读视图，不允许删除 ${String(prop)}`
+          );
+        },
+      });
+    },
+
+    violations() {
+      return count;
+    },
+
+    firstViolation() {
+      return first;
+    },
+  };
+}
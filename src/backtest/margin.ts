@@ -0,0 +1,142 @@
+// src/backtest/margin.ts
+import type { TradeSide } from "../types/candle.js";
+
+/**
+ * 保证金模式：
+ * - cross    : 全仓，账户全部权益都给仓位兜底
+ * - isolated : 逐仓，最多亏掉这笔仓位的保证金
+ */
+export type MarginMode = "cross" | "isolated";
+
+export interface MarginConfig {
+  mode: MarginMode;
+  accountSizeUSDT: number;      // 初始账户权益（USDT），对应 position.json
+  capitalPctPerTrade: number;   // 每笔用多少比例的权益做保证金（1.0 = 全部）
+  leverage: number;             // 固定杠杆（leverageLevels 不传时用）
+  /**
+   * 可选：按日线 regime 从这组杠杆里挑（pickLeverageByRegime），
+   * 比如 strategy.json 的 leverageLevels = [3, 5]
+   */
+  leverageLevels?: number[];
+  maintenanceMarginRate: number; // 维持保证金率（0.005 = 0.5%）
+}
+
+/**
+ * 默认：和 position.json 一致的 1000U / 全仓位 / 3x，全仓，维持保证金率 0.5%
+ */
+export const DEFAULT_MARGIN_CONFIG: MarginConfig = {
+  mode: "cross",
+  accountSizeUSDT: 1000,
+  capitalPctPerTrade: 1.0,
+  leverage: 3,
+  maintenanceMarginRate: 0.005,
+};
+
+/**
+ * 一笔杠杆仓位的信息
+ */
+export interface LeveragedPosition {
+  side: TradeSide;
+  leverage: number;
+  marginUSDT: number;   // 初始保证金
+  notionalUSDT: number; // 名义价值
+  qty: number;          // BTC 数量
+  liquidationPrice: number;
+}
+
+/**
+ * 强平价：权益（保证金 + 未实现盈亏）跌到维持保证金时的价格
+ *
+ *   多单: collateral + qty * (p - entry) = mmr * qty * p
+ *         => p = (qty * entry - collateral) / (qty * (1 - mmr))
+ *   空单: collateral + qty * (entry - p) = mmr * qty * p
+ *         => p = (qty * entry + collateral) / (qty * (1 + mmr))
+ *
+ * - 逐仓：collateral = 这笔仓位的保证金
+ * - 全仓：collateral = 账户全部权益
+ * 多单结果 <= 0 表示不可能被强平（比如 1x 全仓），返回 0。
+ */
+export function liquidationPrice(
+  side: TradeSide,
+  entryPrice: number,
+  qty: number,
+  collateralUSDT: number,
+  maintenanceMarginRate: number
+): number {
+  if (qty <= 0) return 0;
+  if (side === "short") {
+    return (
+      (qty * entryPrice + collateralUSDT) / (qty * (1 + maintenanceMarginRate))
+    );
+  }
+  const p =
+    (qty * entryPrice - collateralUSDT) / (qty * (1 - maintenanceMarginRate));
+  return Math.max(0, p);
+}
+
+/**
+ * 按当前账户权益开一笔杠杆仓位
+ */
+export function openLeveragedPosition(
+  cfg: MarginConfig,
+  side: TradeSide,
+  equityUSDT: number,
+  entryPrice: number,
+  leverage: number
+): LeveragedPosition {
+  const marginUSDT = equityUSDT * cfg.capitalPctPerTrade;
+  const notionalUSDT = marginUSDT * leverage;
+  const qty = notionalUSDT / entryPrice;
+  const collateral = cfg.mode === "isolated" ? marginUSDT : equityUSDT;
+
+  return {
+    side,
+    leverage,
+    marginUSDT,
+    notionalUSDT,
+    qty,
+    liquidationPrice: liquidationPrice(
+      side,
+      entryPrice,
+      qty,
+      collateral,
+      cfg.maintenanceMarginRate
+    ),
+  };
+}
+
+/**
+ * 这根K线是否先触发强平（相对止损而言）：
+ * - 开盘就越过强平价：直接强平
+ * - 强平价比止损价更靠近入场价：价格往不利方向走先碰到强平价
+ * - 否则止损会先成交
+ */
+export function hitsLiquidationFirst(
+  pos: LeveragedPosition,
+  bar: { open: number; high: number; low: number },
+  stopPrice: number
+): boolean {
+  const liq = pos.liquidationPrice;
+
+  if (pos.side === "short") {
+    if (bar.high < liq) return false;
+    return bar.open >= liq || liq <= stopPrice;
+  }
+
+  if (liq <= 0 || bar.low > liq) return false;
+  return bar.open <= liq || liq >= stopPrice;
+}
+
+/**
+ * 强平时的 USDT 亏损（负数）：价格亏损 + 剩余维持保证金被没收。
+ * 逐仓时正好等于亏光保证金。
+ */
+export function liquidationPnlUSDT(
+  pos: LeveragedPosition,
+  entryPrice: number,
+  maintenanceMarginRate: number
+): number {
+  const priceLoss = pos.qty * Math.abs(entryPrice - pos.liquidationPrice);
+  const forfeited = maintenanceMarginRate * pos.qty * pos.liquidationPrice;
+  return -(priceLoss + forfeited);
+}
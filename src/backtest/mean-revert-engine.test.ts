@@ -0,0 +1,46 @@
+// src/backtest/mean-revert-engine.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { Candle } from "../types/candle.js";
+import { backtestBtcMeanRevert } from "./mean-revert-engine.js";
+
+const candles: Candle[] = JSON.parse(
+  readFileSync(new URL("../../data/btc-4h.json", import.meta.url), "utf8")
+);
+
+describe("均值回归引擎的暖机", () => {
+  test("带 warmupPrefixBars 的窗口和整段回测在同一段上的交易一致（SMA 种子）", () => {
+    const cut = 1000;
+    const full = backtestBtcMeanRevert(candles, { emaSeed: "sma" });
+    const windowed = backtestBtcMeanRevert(candles.slice(cut - 100), {
+      emaSeed: "sma",
+      warmupPrefixBars: 100,
+    });
+    assert.ok(full && windowed);
+
+    // 窗口开始时整段回测如果还拿着仓位，那笔在窗口里对不上，跳过
+    const windowStart = candles[cut]!.openTime;
+    const fullInWindow = full.trades.filter((t) => t.entryTime >= windowStart);
+    assert.ok(fullInWindow.length > 0);
+    assert.deepEqual(
+      windowed.trades.map((t) => [t.entryTime, t.exitTime, t.exitReason]),
+      fullInWindow.map((t) => [t.entryTime, t.exitTime, t.exitReason])
+    );
+  });
+
+  test("默认 SMA 种子，从策略暖机完的第 20 根开始（EMA20 在第 19 根就是确定值）", () => {
+    const result = backtestBtcMeanRevert(candles);
+    assert.ok(result);
+    assert.equal(result.barEquity.length, candles.length - 20);
+    assert.equal(result.barEquity[0]!.time, candles[20]!.closeTime);
+    assert.ok(result.trades.every((t) => t.entryTime >= candles[20]!.openTime));
+
+    const sma = backtestBtcMeanRevert(candles, { emaSeed: "sma" });
+    assert.deepEqual(result.trades, sma?.trades);
+  });
+
+  test("K线不够策略暖机时返回 null", () => {
+    assert.equal(backtestBtcMeanRevert(candles.slice(0, 20)), null);
+  });
+});
@@ -1,12 +1,37 @@
 // src/backtest/mean-revert-engine.ts
 import type { Candle, Trade } from "../types/candle.js";
-import { ema } from "../indicators/ema.js";
-import { atr } from "../indicators/atr.js";
+import type { EmaSeed } from "../indicators/ema.js";
+import { getStrategy, resolveParams } from "../strategy/registry.js";
+import type { Signal } from "../strategy/types.js";
 import {
-  detectMeanRevertSignal,
-  type MeanRevertSignalParams,
-  type MRSignal,
-} from "../strategy/mean-revert.js";
+  SIGNAL_CLOSE_FILL_MODEL,
+  entryFill,
+  isDeferredEntry,
+  stopFill,
+  takeProfitFill,
+  type FillModel,
+} from "./fill-model.js";
+import {
+  LEGACY_COST_MODEL,
+  tradeCosts,
+  slippageFraction,
+  summarizeCosts,
+  type CostBreakdown,
+  type CostModel,
+} from "./cost-model.js";
+import { fundingPct } from "./funding.js";
+import { annotateExcursions } from "./excursion.js";
+import {
+  computeMetrics,
+  drawdownStats,
+  markToMarketEquity,
+  printDrawdownStats,
+  printMetrics,
+  summarizeTrades,
+  type BarEquityPoint,
+  type DrawdownStats,
+} from "./metrics.js";
+import type { FundingRate } from "../types/funding.js";
 
 export interface BacktestResultMR {
   totalTrades: number;
@@ -14,6 +39,10 @@ export interface BacktestResultMR {
   avgReturnPct: number;
   winRate: number;
   trades: Trade[];
+  barEquity: BarEquityPoint[]; // 逐K线盯市权益（以 1 为初始）
+  maxDrawdownPct: number;      // 最大回撤（%，逐K线收盘盯市）
+  drawdown: DrawdownStats;
+  costs: CostBreakdown;
 }
 
 export interface MeanRevertOptions {
@@ -22,11 +51,21 @@ export interface MeanRevertOptions {
   bandKEnter?: number;    // 进场带宽倍数
   bandKExit?: number;     // 出场带宽倍数
   minAtrPct?: number;     // 最小 ATR 波动率（ATR / price）
+  fillModel?: FillModel;  // 成交假设，默认信号收盘价成交
+  costModel?: CostModel;  // 手续费 + 滑点，默认双边 0.04%、无滑点
+  funding?: FundingRate[]; // 永续资金费率序列（升序），不传则不算资金费
+  /**
+   * EMA 种子，默认 "sma"（见 indicators/ema.ts）：暖机完 EMA 就是确定值，开始交易的位置不用再往后挪。
+   * 传 "first" 也是暖机 period 根就开始，这时 EMA 还带着种子的影响（和 engine.ts 的默认一样）
+   */
+  emaSeed?: EmaSeed;
+  /**
+   * 前面多少根只用来算指标、不开仓也不计入统计（和 engine.ts 一样）。
+   * 实际开始交易的位置 = max(策略 warmupBars, warmupPrefixBars)
+   */
+  warmupPrefixBars?: number;
 }
 
-// 手续费（单边）
-const feeRate = 0.0004;
-
 /**
  * BTC 4H 均值回归回测（只做多）
  */
@@ -40,63 +79,53 @@ export function backtestBtcMeanRevert(
     bandKEnter = 2.0,      // 跌到 EMA20 - 2*ATR 才敢接
     bandKExit = 0.5,       // 反弹回 EMA20 - 0.5*ATR 就走
     minAtrPct = 0.005,     // ATR 至少 0.5% 波动才玩
+    fillModel = SIGNAL_CLOSE_FILL_MODEL,
+    costModel = LEGACY_COST_MODEL,
+    funding = [],
+    emaSeed = "sma",
+    warmupPrefixBars = 0,
   } = options;
 
-  if (candles.length < 100) {
-    console.log("K线太少，至少需要100根以上。");
+  // 信号走 registry 里的 mean-revert 策略（和统一引擎 / 实盘同一份规则）
+  const strategy = getStrategy("mean-revert");
+  const params = resolveParams(strategy, { bandKEnter, bandKExit });
+  const startIndex = Math.max(strategy.warmupBars(params), warmupPrefixBars);
+
+  if (candles.length <= startIndex) {
+    console.log(`K线太少，至少需要${startIndex + 1}根以上（均值回归策略）。`);
     return null;
   }
 
-  const closes = candles.map((c) => c.close);
-  const ema20 = ema(closes, 20);
-  const atr14 = atr(candles, 14);
+  const indicators = strategy.computeIndicators(candles, params, { emaSeed });
+  const ema20 = indicators.ema!;
+  const atr14 = indicators.atr!;
 
   let inPosition = false;
+  let pendingEntry = false; // 信号已出，等下一根K线成交
   let entryPrice = 0;
   let entryTime = 0;
+  let entrySlippage = 0; // 入场那一边的滑点（比例）
 
   const trades: Trade[] = [];
 
-  // 从第 50 根以后开始（保证 EMA/ATR 都“热”起来）
-  for (let i = 50; i < candles.length; i++) {
+  // 从策略暖机完（以及 warmupPrefixBars 之后）开始
+  for (let i = startIndex; i < candles.length; i++) {
     const c = candles[i]!;
     const price = c.close;
     const { high, low } = c;
 
-    const emaVal = ema20[i];
-    const atrVal = atr14[i];
-    if (!Number.isFinite(emaVal) || !Number.isFinite(atrVal)) {
-      continue;
-    }
-
-    // Safety: atrVal may be undefined if ATR data is not ready
-    if (typeof atrVal !== "number" || !Number.isFinite(atrVal)) {
-      continue;
-    }
-
-    const atrPct = atrVal / price;
-    if (atrPct < minAtrPct) {
-      // 波动太小，不玩
-      continue;
+    // 上一根K线给出的信号，在这根K线成交（next-open / next-vwap）
+    if (pendingEntry) {
+      pendingEntry = false;
+      const fill = entryFill(c, fillModel);
+      inPosition = true;
+      entryPrice = fill.price;
+      entryTime = fill.time;
+      entrySlippage = slippageFraction(costModel.slippage, c, atr14[i]);
     }
 
-    if (!inPosition) {
-      const signal: MRSignal = detectMeanRevertSignal(
-        candles,
-        i,
-        ema20,
-        atr14,
-        inPosition,
-        { bandKEnter, bandKExit }
-      );
-
-      if (signal === "LONG") {
-        inPosition = true;
-        entryPrice = price;
-        entryTime = c.closeTime;
-      }
-    } else {
-      // 持仓：优先看止损 / 止盈，再看均值退出
+    if (inPosition) {
+      // 持仓：每根K线都看（波动率过滤只管开仓），优先止损 / 止盈，再看均值退出
       const stopPrice = entryPrice * (1 - stopLossPct);
       const tpPrice = entryPrice * (1 + takeProfitPct);
 
@@ -107,25 +136,24 @@ export function backtestBtcMeanRevert(
       // 1) 止损优先
       if (low <= stopPrice) {
         shouldExit = true;
-        exitPrice = stopPrice;
+        exitPrice = stopFill("long", c, stopPrice, fillModel);
         exitReason = "SL";
       }
       // 2) 止盈
       else if (high >= tpPrice) {
         shouldExit = true;
-        exitPrice = tpPrice;
+        exitPrice = takeProfitFill("long", c, tpPrice, fillModel);
         exitReason = "TP";
       }
       // 3) 均值回归退出
       else {
-        const signal: MRSignal = detectMeanRevertSignal(
+        const signal: Signal = strategy.decide({
           candles,
           i,
-          ema20,
-          atr14,
           inPosition,
-          { bandKEnter, bandKExit }
-        );
+          indicators,
+          params,
+        });
         if (signal === "CLOSE_LONG") {
           shouldExit = true;
           exitPrice = price;
@@ -136,21 +164,67 @@ export function backtestBtcMeanRevert(
       if (shouldExit) {
         const exitTime = c.closeTime;
 
-        const grossPnlPct = ((exitPrice - entryPrice) / entryPrice) * 100;
-        const feePct = feeRate * 2 * 100;
-        const pnlPct = grossPnlPct - feePct;
+        const costs = tradeCosts(
+          costModel,
+          "long",
+          entryPrice,
+          exitPrice,
+          entrySlippage,
+          slippageFraction(costModel.slippage, c, atr14[i]),
+          fundingPct(funding, "long", entryTime, exitTime)
+        );
 
         trades.push({
+          side: "long",
           entryTime,
           exitTime,
           entryPrice,
           exitPrice,
-          pnlPct,
+          ...costs,
+          riskPct: stopLossPct * 100,
           exitReason,
         });
 
         inPosition = false;
       }
+      continue;
+    }
+
+    const emaVal = ema20[i];
+    const atrVal = atr14[i];
+    if (
+      emaVal === undefined ||
+      atrVal === undefined ||
+      !Number.isFinite(emaVal) ||
+      !Number.isFinite(atrVal)
+    ) {
+      continue;
+    }
+
+    const atrPct = atrVal / price;
+    if (atrPct < minAtrPct) {
+      // 波动太小，不开仓
+      continue;
+    }
+
+    const signal: Signal = strategy.decide({
+      candles,
+      i,
+      inPosition,
+      indicators,
+      params,
+    });
+
+    if (signal === "LONG") {
+      if (isDeferredEntry(fillModel)) {
+        pendingEntry = true;
+      } else {
+        const fill = entryFill(c, fillModel);
+        inPosition = true;
+        entryPrice = fill.price;
+        entryTime = fill.time;
+        entrySlippage = slippageFraction(costModel.slippage, c, atr14[i]);
+      }
     }
   }
 
@@ -160,32 +234,40 @@ export function backtestBtcMeanRevert(
     const exitPrice = last.close;
     const exitTime = last.closeTime;
 
-    const grossPnlPct = ((exitPrice - entryPrice) / entryPrice) * 100;
-    const feePct = feeRate * 2 * 100;
-    const pnlPct = grossPnlPct - feePct;
+    const costs = tradeCosts(
+      costModel,
+      "long",
+      entryPrice,
+      exitPrice,
+      entrySlippage,
+      slippageFraction(costModel.slippage, last, atr14[candles.length - 1]),
+      fundingPct(funding, "long", entryTime, exitTime)
+    );
 
     trades.push({
+      side: "long",
       entryTime,
       exitTime,
       entryPrice,
       exitPrice,
-      pnlPct,
+      ...costs,
+      riskPct: stopLossPct * 100,
       exitReason: "EMA",
     });
   }
 
-  const totalTrades = trades.length;
-  const totalReturnPct = trades.reduce((sum, t) => sum + t.pnlPct, 0);
-  const avgReturnPct = totalTrades > 0 ? totalReturnPct / totalTrades : 0;
-  const wins = trades.filter((t) => t.pnlPct > 0);
-  const winRate = totalTrades > 0 ? (wins.length / totalTrades) * 100 : 0;
+  annotateExcursions(candles, trades);
+
+  const barEquity = markToMarketEquity(candles.slice(startIndex), trades);
+  const drawdown = drawdownStats(barEquity);
 
   return {
-    totalTrades,
-    totalReturnPct,
-    avgReturnPct,
-    winRate,
+    ...summarizeTrades(trades),
     trades,
+    barEquity,
+    maxDrawdownPct: drawdown.maxDrawdownPct,
+    drawdown,
+    costs: summarizeCosts(trades),
   };
 }
 
@@ -202,6 +284,14 @@ export function printBacktestResultMR(
   console.log("总收益:", result.totalReturnPct.toFixed(2), "%");
   console.log("平均每笔收益:", result.avgReturnPct.toFixed(2), "%");
   console.log("胜率:", result.winRate.toFixed(2), "%");
+  printDrawdownStats(result.drawdown);
+  printMetrics(computeMetrics(result));
+  console.log("成本拆分（简单相加）:", {
+    毛收益: result.costs.grossReturnPct.toFixed(2) + "%",
+    手续费: result.costs.feesPct.toFixed(2) + "%",
+    滑点: result.costs.slippagePct.toFixed(2) + "%",
+    资金费: result.costs.fundingPct.toFixed(2) + "%",
+  });
 
   const slCount = result.trades.filter((t) => t.exitReason === "SL").length;
   const tpCount = result.trades.filter((t) => t.exitReason === "TP").length;
@@ -0,0 +1,436 @@
+// src/backtest/metrics.ts
+import type { Candle, Trade } from "../types/candle.js";
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+
+/**
+ * 权益曲线上的一个点（以 1 为初始）
+ */
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+/**
+ * 逐K线盯市权益：
+ * - equity    : 收盘价盯市（已平仓现金 + 持仓浮盈浮亏）
+ * - equityLow : 最坏情况，用这根K线最低价盯市
+ */
+export interface BarEquityPoint extends EquityPoint {
+  equityLow: number;
+}
+
+/**
+ * 按笔的基础统计（各引擎原来各算一遍的那几项）
+ */
+export interface TradeSummary {
+  totalTrades: number;
+  totalReturnPct: number; // 简单相加的百分比
+  avgReturnPct: number;
+  winRate: number;
+}
+
+export function summarizeTrades(trades: Trade[]): TradeSummary {
+  const totalTrades = trades.length;
+  const totalReturnPct = trades.reduce((sum, t) => sum + t.pnlPct, 0);
+  const avgReturnPct = totalTrades > 0 ? totalReturnPct / totalTrades : 0;
+  const wins = trades.filter((t) => t.pnlPct > 0);
+  const winRate = totalTrades > 0 ? (wins.length / totalTrades) * 100 : 0;
+
+  return { totalTrades, totalReturnPct, avgReturnPct, winRate };
+}
+
+/**
+ * 按笔复利：每笔平仓后一个点，年化按「第一笔入场 ~ 最后一笔出场」粗略估算
+ */
+export function compoundTrades(trades: Trade[]): {
+  equityCurve: EquityPoint[];
+  finalEquity: number;
+  annualizedReturnPct: number;
+} {
+  const equityCurve: EquityPoint[] = [];
+  let equity = 1;
+
+  for (const t of trades) {
+    equity *= 1 + t.pnlPct / 100;
+    equityCurve.push({ time: t.exitTime, equity });
+  }
+
+  let annualizedReturnPct = 0;
+  if (trades.length > 0) {
+    const msDiff = trades[trades.length - 1]!.exitTime - trades[0]!.entryTime;
+    if (msDiff > 0) {
+      annualizedReturnPct =
+        (Math.pow(equity, MS_PER_YEAR / msDiff) - 1) * 100;
+    }
+  }
+
+  return { equityCurve, finalEquity: equity, annualizedReturnPct };
+}
+
+/**
+ * 持仓在某个价格下的毛收益倍数（多单涨了赚，空单跌了赚）
+ */
+export function grossMultiple(t: Trade, price: number): number {
+  const move = (price - t.entryPrice) / t.entryPrice;
+  return t.side === "short" ? 1 - move : 1 + move;
+}
+
+/**
+ * 这根K线上对持仓最不利的价格（多单最低价，空单最高价）
+ */
+export function adversePrice(t: Trade, c: Candle): number {
+  return t.side === "short" ? c.high : c.low;
+}
+
+/**
+ * 逐K线盯市权益曲线。
+ *
+ * 已平仓部分按 pnlPct 复利；持仓中的K线按毛收益盯市（出场手续费 / 滑点到平仓才扣）。
+ * 最坏情况：多单看最低价，空单看最高价。
+ * 要求 trades 按时间顺序且不重叠（现在的引擎都是单仓位）。
+ * candles 传引擎实际回测的那段（暖机之前的K线不要传，不然会稀释统计）。
+ */
+export function markToMarketEquity(
+  candles: Candle[],
+  trades: Trade[],
+  initialEquity = 1
+): BarEquityPoint[] {
+  const curve: BarEquityPoint[] = [];
+  let cash = initialEquity;
+  let k = 0;
+
+  for (const c of candles) {
+    let worst = Infinity;
+
+    // 这根K线内平掉的仓位：先按最低价记一下最坏情况，再结算进现金
+    while (k < trades.length && trades[k]!.exitTime <= c.closeTime) {
+      const t = trades[k]!;
+      if (t.entryTime < c.closeTime) {
+        worst = Math.min(worst, cash * grossMultiple(t, adversePrice(t, c)));
+      }
+      cash *= 1 + t.pnlPct / 100;
+      k++;
+    }
+
+    let equity = cash;
+    let equityLow = cash;
+
+    // 还在持仓：信号收盘价入场的那根（entryTime == closeTime）不算浮盈
+    const open = trades[k];
+    if (open && open.entryTime < c.closeTime) {
+      equity = cash * grossMultiple(open, c.close);
+      equityLow = cash * grossMultiple(open, adversePrice(open, c));
+    }
+
+    curve.push({
+      time: c.closeTime,
+      equity,
+      equityLow: Math.min(equityLow, worst),
+    });
+  }
+
+  return curve;
+}
+
+/**
+ * 回撤统计（基于逐K线权益）
+ */
+export interface DrawdownStats {
+  maxDrawdownPct: number;        // 收盘价盯市的最大回撤（%）
+  maxDrawdownLowPct: number;     // 最低价盯市的最大回撤（%），最坏情况
+  maxDrawdownDurationMs: number; // 最长一次水下（创新高 -> 回到新高）持续时间，没回来的算到最后
+  timeUnderWaterPct: number;     // 权益低于前高的K线占比（%）
+  recoveryTimeMs: number | null; // 最大回撤从谷底回到前高用了多久，没回来为 null
+}
+
+export function drawdownStats(curve: BarEquityPoint[]): DrawdownStats {
+  const stats: DrawdownStats = {
+    maxDrawdownPct: 0,
+    maxDrawdownLowPct: 0,
+    maxDrawdownDurationMs: 0,
+    timeUnderWaterPct: 0,
+    recoveryTimeMs: null,
+  };
+  if (curve.length === 0) return stats;
+
+  let peak = curve[0]!.equity;
+  let peakTime = curve[0]!.time;
+  let underWater = false;
+  let underWaterBars = 0;
+
+  // 最大回撤的谷底时间，等它回到前高
+  let troughTime = 0;
+  let awaitingRecovery = false;
+
+  for (const p of curve) {
+    if (p.equity >= peak) {
+      if (underWater) {
+        stats.maxDrawdownDurationMs = Math.max(
+          stats.maxDrawdownDurationMs,
+          p.time - peakTime
+        );
+        if (awaitingRecovery) {
+          stats.recoveryTimeMs = p.time - troughTime;
+          awaitingRecovery = false;
+        }
+        underWater = false;
+      }
+      peak = p.equity;
+      peakTime = p.time;
+    } else {
+      underWater = true;
+      underWaterBars++;
+
+      const dd = ((peak - p.equity) / peak) * 100;
+      if (dd > stats.maxDrawdownPct) {
+        stats.maxDrawdownPct = dd;
+        troughTime = p.time;
+        awaitingRecovery = true;
+        stats.recoveryTimeMs = null;
+      }
+    }
+
+    const ddLow = peak > 0 ? ((peak - p.equityLow) / peak) * 100 : 0;
+    if (ddLow > stats.maxDrawdownLowPct) {
+      stats.maxDrawdownLowPct = ddLow;
+    }
+  }
+
+  // 结束时还在水下：这段也算进最长水下时间
+  if (underWater) {
+    stats.maxDrawdownDurationMs = Math.max(
+      stats.maxDrawdownDurationMs,
+      curve[curve.length - 1]!.time - peakTime
+    );
+  }
+
+  stats.timeUnderWaterPct = (underWaterBars / curve.length) * 100;
+  return stats;
+}
+
+/**
+ * 打印回撤统计（天数更直观）
+ */
+export function printDrawdownStats(dd: DrawdownStats): void {
+  const days = (ms: number) => (ms / (1000 * 60 * 60 * 24)).toFixed(1);
+  console.log("回撤统计（逐K线盯市）:", {
+    最大回撤: dd.maxDrawdownPct.toFixed(2) + "%",
+    最大回撤_按最低价: dd.maxDrawdownLowPct.toFixed(2) + "%",
+    最长水下天数: days(dd.maxDrawdownDurationMs),
+    水下时间占比: dd.timeUnderWaterPct.toFixed(2) + "%",
+    最大回撤恢复天数:
+      dd.recoveryTimeMs === null ? "未恢复" : days(dd.recoveryTimeMs),
+  });
+}
+
+/**
+ * 扩展绩效指标（computeMetrics 的输出）。
+ * 分母为 0 / 样本不够算不出来的指标为 null。
+ */
+export interface PerformanceMetrics {
+  totalTrades: number;
+  winRate: number;                  // %
+  totalReturnPct: number;           // 按笔简单相加（%），和 BacktestResult 同口径
+  compoundReturnPct: number;        // 逐K线权益的复利收益（%）
+  annualizedReturnPct: number;      // 按回测窗口长度年化（%）
+  maxDrawdownPct: number;           // 逐K线收盘盯市（%）
+  sharpe: number | null;            // 年化，无风险利率按 0
+  sortino: number | null;           // 年化，只用下行波动
+  calmar: number | null;            // 年化收益 / 最大回撤
+  profitFactor: number | null;      // 总盈利 / 总亏损
+  payoffRatio: number | null;       // 平均盈利 / 平均亏损
+  expectancyR: number | null;       // 每笔期望（R 倍数，1R = 入场止损距离）
+  avgHoldingHours: number;
+  exposurePct: number;              // 持仓时间占回测窗口的比例（%）
+  maxWinStreak: number;
+  maxLossStreak: number;
+  buyAndHoldReturnPct: number | null; // 同窗口拿住 BTC 的收益（%），没传K线为 null
+}
+
+export type MetricName = keyof PerformanceMetrics;
+
+/**
+ * 越小越好的指标（打分时取负）
+ */
+const LOWER_IS_BETTER: ReadonlySet<MetricName> = new Set<MetricName>([
+  "maxDrawdownPct",
+  "maxLossStreak",
+]);
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+/**
+ * K线间隔中位数 -> 一年有多少根（4H ≈ 2190）
+ */
+function periodsPerYear(curve: EquityPoint[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    gaps.push(curve[i]!.time - curve[i - 1]!.time);
+  }
+  if (gaps.length === 0) return 0;
+  gaps.sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)]!;
+  return median > 0 ? MS_PER_YEAR / median : 0;
+}
+
+/**
+ * 从回测结果算扩展指标（任何带 trades + barEquity 的结果都能用）
+ * @param candles 可选：传回测用的K线，用来算同窗口买入持有基准
+ */
+export function computeMetrics(
+  result: { trades: Trade[]; barEquity: BarEquityPoint[] },
+  candles?: Candle[]
+): PerformanceMetrics {
+  const { trades, barEquity } = result;
+  const summary = summarizeTrades(trades);
+  const drawdown = drawdownStats(barEquity);
+
+  // ====== 收益 / 年化 ======
+  const first = barEquity[0];
+  const last = barEquity[barEquity.length - 1];
+  const finalEquity = last ? last.equity : 1;
+  const compoundReturnPct = (finalEquity - 1) * 100;
+  const spanMs = first && last ? last.time - first.time : 0;
+  const annualizedReturnPct =
+    spanMs > 0 && finalEquity > 0
+      ? (Math.pow(finalEquity, MS_PER_YEAR / spanMs) - 1) * 100
+      : 0;
+
+  // ====== Sharpe / Sortino（逐K线收益） ======
+  const barReturns: number[] = [];
+  for (let i = 1; i < barEquity.length; i++) {
+    const prev = barEquity[i - 1]!.equity;
+    if (prev > 0) barReturns.push(barEquity[i]!.equity / prev - 1);
+  }
+  const ppy = periodsPerYear(barEquity);
+  const avgReturn = mean(barReturns);
+  const std = Math.sqrt(mean(barReturns.map((r) => (r - avgReturn) ** 2)));
+  const downside = Math.sqrt(mean(barReturns.map((r) => Math.min(r, 0) ** 2)));
+  const sharpe = std > 0 ? (avgReturn / std) * Math.sqrt(ppy) : null;
+  const sortino = downside > 0 ? (avgReturn / downside) * Math.sqrt(ppy) : null;
+  const calmar =
+    drawdown.maxDrawdownPct > 0
+      ? annualizedReturnPct / drawdown.maxDrawdownPct
+      : null;
+
+  // ====== 按笔统计 ======
+  const wins = trades.filter((t) => t.pnlPct > 0).map((t) => t.pnlPct);
+  const losses = trades.filter((t) => t.pnlPct <= 0).map((t) => t.pnlPct);
+  const grossWin = wins.reduce((a, b) => a + b, 0);
+  const grossLoss = -losses.reduce((a, b) => a + b, 0);
+  const profitFactor = grossLoss > 0 ? grossWin / grossLoss : null;
+  const payoffRatio =
+    wins.length > 0 && losses.length > 0 && grossLoss > 0
+      ? mean(wins) / (grossLoss / losses.length)
+      : null;
+
+  const rMultiples = trades
+    .filter((t) => t.riskPct !== undefined && t.riskPct > 0)
+    .map((t) => t.pnlPct / t.riskPct!);
+  const expectancyR = rMultiples.length > 0 ? mean(rMultiples) : null;
+
+  const holdingMs = trades.map((t) => t.exitTime - t.entryTime);
+  const avgHoldingHours = mean(holdingMs) / (1000 * 60 * 60);
+  const exposurePct =
+    spanMs > 0
+      ? Math.min(100, (holdingMs.reduce((a, b) => a + b, 0) / spanMs) * 100)
+      : 0;
+
+  let maxWinStreak = 0;
+  let maxLossStreak = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  for (const t of trades) {
+    if (t.pnlPct > 0) {
+      winStreak++;
+      lossStreak = 0;
+    } else {
+      lossStreak++;
+      winStreak = 0;
+    }
+    maxWinStreak = Math.max(maxWinStreak, winStreak);
+    maxLossStreak = Math.max(maxLossStreak, lossStreak);
+  }
+
+  // ====== 买入持有基准（同一窗口） ======
+  let buyAndHoldReturnPct: number | null = null;
+  if (candles && first && last) {
+    const windowCandles = candles.filter(
+      (c) => c.closeTime >= first.time && c.closeTime <= last.time
+    );
+    const startBar = windowCandles[0];
+    const endBar = windowCandles[windowCandles.length - 1];
+    if (startBar && endBar && startBar.close > 0) {
+      buyAndHoldReturnPct = (endBar.close / startBar.close - 1) * 100;
+    }
+  }
+
+  return {
+    totalTrades: summary.totalTrades,
+    winRate: summary.winRate,
+    totalReturnPct: summary.totalReturnPct,
+    compoundReturnPct,
+    annualizedReturnPct,
+    maxDrawdownPct: drawdown.maxDrawdownPct,
+    sharpe,
+    sortino,
+    calmar,
+    profitFactor,
+    payoffRatio,
+    expectancyR,
+    avgHoldingHours,
+    exposurePct,
+    maxWinStreak,
+    maxLossStreak,
+    buyAndHoldReturnPct,
+  };
+}
+
+/**
+ * 打分目标：直接用某个指标，或者自己组合（比如 年化 - 回撤）
+ */
+export type ScoreTarget = MetricName | ((m: PerformanceMetrics) => number);
+
+/**
+ * 按目标给一组指标打分（越大越好）：
+ * - 回撤 / 连亏这类越小越好的指标自动取负
+ * - 算不出来（null）的指标记为 -Infinity，排到最后
+ */
+export function scoreMetrics(
+  metrics: PerformanceMetrics,
+  target: ScoreTarget
+): number {
+  if (typeof target === "function") return target(metrics);
+
+  const value = metrics[target];
+  if (value === null) return -Infinity;
+  return LOWER_IS_BETTER.has(target) ? -value : value;
+}
+
+/**
+ * 打印扩展指标
+ */
+export function printMetrics(m: PerformanceMetrics): void {
+  const fmt = (v: number | null, digits = 2) =>
+    v === null ? "-" : v.toFixed(digits);
+
+  console.log("扩展指标:", {
+    复利收益: fmt(m.compoundReturnPct) + "%",
+    年化收益: fmt(m.annualizedReturnPct) + "%",
+    Sharpe: fmt(m.sharpe),
+    Sortino: fmt(m.sortino),
+    Calmar: fmt(m.calmar),
+    利润因子: fmt(m.profitFactor),
+    平均盈亏比: fmt(m.payoffRatio),
+    期望_R: fmt(m.expectancyR),
+    平均持仓小时: fmt(m.avgHoldingHours, 1),
+    持仓时间占比: fmt(m.exposurePct) + "%",
+    最长连赢: m.maxWinStreak,
+    最长连亏: m.maxLossStreak,
+    买入持有BTC:
+      m.buyAndHoldReturnPct === null ? "-" : fmt(m.buyAndHoldReturnPct) + "%",
+  });
+}
@@ -0,0 +1,65 @@
+// src/backtest/parallel-search.test.ts
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  defaultWorkerCount,
+  runParallelSearch,
+  workerCountFromEnv,
+} from "./parallel-search.js";
+import type { EngineJob } from "./search-job.js";
+
+const ENV = "TEST_SEARCH_WORKERS";
+
+describe("worker 数", () => {
+  afterEach(() => {
+    delete process.env[ENV];
+  });
+
+  test("没设 / 空字符串用默认值", () => {
+    assert.equal(workerCountFromEnv(ENV), defaultWorkerCount());
+    process.env[ENV] = " ";
+    assert.equal(workerCountFromEnv(ENV), defaultWorkerCount());
+  });
+
+  test("非负整数照用", () => {
+    process.env[ENV] = "0";
+    assert.equal(workerCountFromEnv(ENV), 0);
+    process.env[ENV] = "3";
+    assert.equal(workerCountFromEnv(ENV), 3);
+  });
+
+  test("不是非负整数直接报错", () => {
+    for (const raw of ["abc", "-1", "1.5", "2x"]) {
+      process.env[ENV] = raw;
+      assert.throws(() => workerCountFromEnv(ENV), /必须是非负整数/);
+    }
+  });
+
+  test("runParallelSearch 拿到非法 worker 数时报错，不清空已有结果文件", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "parallel-search-"));
+    const resultsFile = path.join(dir, "results.jsonl");
+    fs.writeFileSync(resultsFile, "上次的结果\n");
+    const job: EngineJob = { kind: "engine", options: {}, datasets: [] };
+
+    try {
+      for (const workers of [NaN, -1, 1.5]) {
+        await assert.rejects(
+          runParallelSearch(
+            { params: { x: { type: "choice", values: [1, 2] } } },
+            {},
+            job,
+            () => ({ score: 0 }),
+            { method: "grid", workers, resultsFile }
+          ),
+          /worker 数必须是非负整数/
+        );
+      }
+      assert.equal(fs.readFileSync(resultsFile, "utf8"), "上次的结果\n");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,410 @@
+// src/backtest/parallel-search.ts
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import {
+  DEFAULT_TRIALS,
+  pickBest,
+  planCombos,
+  toTrial,
+  tpeCombos,
+  type Scorer,
+  type SearchOptions,
+  type SearchResult,
+  type SearchTrial,
+} from "./param-search.js";
+import { comboKey, type ParamCombo, type SearchSpace } from "./search-space.js";
+import {
+  evaluateJob,
+  type Datasets,
+  type JobResult,
+  type SearchJob,
+} from "./search-job.js";
+import type { WorkerInit, WorkerReply, WorkerTask } from "./search-worker.js";
+import { toSharedCandles, type SharedCandles } from "./shared-candles.js";
+
+export interface SearchProgress {
+  done: number;         // 已完成（含从结果文件恢复的）
+  total: number;
+  cached: number;       // 其中从结果文件恢复的
+  elapsedMs: number;
+  etaMs: number | null; // 按这次实际跑的速度估算剩余时间，还没跑完一组时为 null
+}
+
+/**
+ * 并行扫参选项（method / trials / seed / tpe 同 runSearch）：
+ * - workers     : worker 线程数（默认 CPU 核数 - 1，单核机器上就是 0）；0 = 直接在主线程里跑
+ * - resultsFile : 结果文件（JSONL），每跑完一组追加一行
+ * - resume      : true = 结果文件里已有的组合直接读出来不再跑（断点续跑）；false（默认）= 清空重来
+ * - signal      : 取消（比如 Ctrl+C）；已跑完的组合都在结果文件里，下次 resume 接着跑
+ * - onProgress  : 每完成一组回调一次
+ * 不管几个 worker、谁先跑完，trials 都按计划顺序排好，结果和串行 runSearch 完全一样
+ */
+export interface ParallelSearchOptions<T>
+  extends Pick<SearchOptions<T>, "method" | "trials" | "seed" | "tpe"> {
+  workers?: number;
+  resultsFile?: string;
+  resume?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+export interface ParallelSearchResult<T> extends SearchResult<T> {
+  cancelled: boolean; // 被取消时 trials 只有已完成的部分
+}
+
+interface ResultsFile<T> {
+  results: Map<string, T | null>;
+  append: (key: string, result: T | null) => void;
+}
+
+type RecordResult<T> = (index: number, result: T | null) => void;
+
+const WORKER_URL = new URL(
+  // tsx 直接跑源码时是 .ts，编译到 dist/ 之后是 .js
+  `./search-worker${path.extname(fileURLToPath(import.meta.url))}`,
+  import.meta.url
+);
+
+export function defaultWorkerCount(): number {
+  return Math.max(0, os.availableParallelism() - 1);
+}
+
+/**
+ * 从环境变量读 worker 数（SWEEP_WORKERS / OPTIMIZER_WORKERS）：没设 / 空 = defaultWorkerCount()，
+ * 不是非负整数直接报错（以前 Number("abc") = NaN，线程池是空的，进程直接退出、什么结果都没有）
+ */
+export function workerCountFromEnv(name: string): number {
+  const raw = process.env[name]?.trim();
+  if (raw === undefined || raw === "") return defaultWorkerCount();
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`${name} 必须是非负整数（0 = 主线程跑），现在是: ${JSON.stringify(raw)}`);
+  }
+  return Number(raw);
+}
+
+function assertWorkerCount(workers: number): void {
+  if (!Number.isInteger(workers) || workers < 0) {
+    throw new Error(`worker 数必须是非负整数，现在是: ${workers}`);
+  }
+}
+
+/**
+ * 进度打印：最多每 everyMs 一行（跑完那一下一定打），代替以前每组一行的日志
+ */
+export function progressLogger(
+  label: string,
+  everyMs = 2000
+): (progress: SearchProgress) => void {
+  let last = 0;
+  return ({ done, total, cached, elapsedMs, etaMs }) => {
+    const now = Date.now();
+    if (done < total && now - last < everyMs) return;
+    last = now;
+    const pct = total > 0 ? (done / total) * 100 : 100;
+    console.log(
+      `[${label}] ${done}/${total} (${pct.toFixed(0)}%)` +
+        (cached > 0 ? `，其中 ${cached} 组来自结果文件` : "") +
+        `，用时 ${(elapsedMs / 1000).toFixed(0)}s` +
+        (etaMs !== null && done < total ? `，预计还要 ${(etaMs / 1000).toFixed(0)}s` : "")
+    );
+  };
+}
+
+/**
+ * 用 worker 线程池跑扫参：K线转成 SharedArrayBuffer 列存只传一次，每个 worker 一次领一组参数、跑完回传。
+ * 注意回测引擎要的是 Candle[]，每个 worker 启动时会从共享列存还原一份自己的数组（见 search-worker.ts），
+ * 省的是传输 / 序列化，不是每个 worker 的内存。
+ * tpe 每一组都依赖前面的结果，只能在主线程一组一组跑（结果文件 / 取消 / 进度照样支持）
+ */
+export async function runParallelSearch<J extends SearchJob>(
+  space: SearchSpace,
+  datasets: Datasets,
+  job: J,
+  scorer: Scorer<JobResult<J>>,
+  {
+    method,
+    trials,
+    seed,
+    tpe,
+    workers = defaultWorkerCount(),
+    resultsFile,
+    resume = false,
+    signal,
+    onProgress,
+  }: ParallelSearchOptions<JobResult<J>>
+): Promise<ParallelSearchResult<JobResult<J>>> {
+  type T = JobResult<J>;
+  // 在打开（清空）结果文件之前检查，参数错了不要把上次的结果冲掉
+  assertWorkerCount(workers);
+  const file = resultsFile
+    ? openResultsFile<T>(resultsFile, fingerprint(job, datasets), resume)
+    : null;
+  const startedAt = Date.now();
+  const evaluate = (params: ParamCombo) =>
+    evaluateJob(job, datasets, params) as T | null;
+
+  if (method === "tpe") {
+    const done: SearchTrial<T>[] = [];
+    const total = trials ?? DEFAULT_TRIALS;
+    let cached = 0;
+    for (const params of tpeCombos(space, done, {
+      ...(trials !== undefined ? { trials } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+      ...(tpe ? { tpe } : {}),
+    })) {
+      if (signal?.aborted) return { trials: done, best: pickBest(done), cancelled: true };
+
+      const key = comboKey(params);
+      let result: T | null;
+      if (file?.results.has(key)) {
+        result = file.results.get(key)!;
+        cached++;
+      } else {
+        result = evaluate(params);
+        file?.append(key, result);
+      }
+      done.push(toTrial(done.length + 1, params, result, scorer));
+      onProgress?.(progressOf(done.length, total, cached, startedAt));
+      await yieldToEventLoop();
+    }
+    return { trials: done, best: pickBest(done), cancelled: false };
+  }
+
+  const combos = planCombos(space, {
+    method,
+    ...(trials !== undefined ? { trials } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+  });
+  const results = new Map<number, T | null>();
+  const pending: number[] = [];
+  combos.forEach((params, i) => {
+    const key = comboKey(params);
+    if (file?.results.has(key)) results.set(i, file.results.get(key)!);
+    else pending.push(i);
+  });
+  const cached = results.size;
+  if (cached > 0) {
+    onProgress?.(progressOf(cached, combos.length, cached, startedAt));
+  }
+
+  const record: RecordResult<T> = (index, result) => {
+    results.set(index, result);
+    file?.append(comboKey(combos[index]!), result);
+    onProgress?.(progressOf(results.size, combos.length, cached, startedAt));
+  };
+
+  const finished =
+    workers <= 0
+      ? await runInline(pending, (i) => evaluate(combos[i]!), record, signal)
+      : await runPool(job, datasets, combos, pending, record, signal, workers);
+
+  const done: SearchTrial<T>[] = [];
+  combos.forEach((params, i) => {
+    if (results.has(i)) done.push(toTrial(i + 1, params, results.get(i)!, scorer));
+  });
+  return { trials: done, best: pickBest(done), cancelled: !finished };
+}
+
+/**
+ * 主线程里依次跑（workers = 0），每组之间让出事件循环，Ctrl+C 才进得来
+ */
+async function runInline<T>(
+  pending: number[],
+  evaluate: (index: number) => T | null,
+  record: RecordResult<T>,
+  signal?: AbortSignal
+): Promise<boolean> {
+  for (const index of pending) {
+    if (signal?.aborted) return false;
+    record(index, evaluate(index));
+    await yieldToEventLoop();
+  }
+  return true;
+}
+
+/**
+ * worker 池：每个 worker 跑完一组再领下一组（各组耗时差很多，按需领比预先平分更均匀）
+ * 返回 false = 被取消；任何一个 worker 出错整个搜索失败
+ */
+async function runPool<T>(
+  job: SearchJob,
+  datasets: Datasets,
+  combos: ParamCombo[],
+  pending: number[],
+  record: RecordResult<T>,
+  signal: AbortSignal | undefined,
+  workerCount: number
+): Promise<boolean> {
+  if (pending.length === 0) return true;
+  if (signal?.aborted) return false;
+
+  const shared: Record<string, SharedCandles> = {};
+  for (const [name, candles] of Object.entries(datasets)) {
+    shared[name] = toSharedCandles(candles);
+  }
+  const init: WorkerInit = { job, datasets: shared };
+  const poolSize = Math.min(workerCount, pending.length);
+  if (!(poolSize > 0)) {
+    // 空池子不会有任何回调，Promise 永远不结束，进程会在没跑完的情况下直接退出
+    throw new Error(`worker 池是空的（workerCount=${workerCount}），还有 ${pending.length} 组没跑`);
+  }
+  const pool = Array.from({ length: poolSize }, () => createWorker(init));
+
+  return new Promise<boolean>((resolve, reject) => {
+    let next = 0;
+    let inFlight = 0;
+    let settled = false;
+
+    const finish = (outcome: boolean | Error) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+      Promise.all(pool.map((w) => w.terminate())).then(
+        () => (outcome instanceof Error ? reject(outcome) : resolve(outcome)),
+        reject
+      );
+    };
+    const onAbort = () => finish(false);
+
+    const dispatch = (worker: Worker) => {
+      if (next >= pending.length) {
+        if (inFlight === 0) finish(true);
+        return;
+      }
+      const index = pending[next++]!;
+      inFlight++;
+      const task: WorkerTask = { index, params: combos[index]! };
+      worker.postMessage(task);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    for (const worker of pool) {
+      worker.on("message", (reply: WorkerReply) => {
+        if (settled) return;
+        inFlight--;
+        if ("error" in reply) {
+          finish(
+            new Error(
+              `参数组合 ${JSON.stringify(combos[reply.index])} 回测出错: ${reply.error}`
+            )
+          );
+          return;
+        }
+        record(reply.index, reply.result as T | null);
+        dispatch(worker);
+      });
+      worker.on("error", (err) => finish(err));
+      worker.on("exit", (code) => {
+        if (code !== 0) finish(new Error(`扫参 worker 异常退出 (code=${code})`));
+      });
+      dispatch(worker);
+    }
+  });
+}
+
+/**
+ * tsx 直接跑源码时 worker 线程不会继承 tsx 的 loader（.ts 加载不了），
+ * 所以先在 worker 里注册一次 tsx 再加载入口；编译后的 .js 直接加载
+ */
+function createWorker(init: WorkerInit): Worker {
+  if (!WORKER_URL.pathname.endsWith(".ts")) {
+    return new Worker(WORKER_URL, { workerData: init });
+  }
+  const tsxApi = import.meta.resolve("tsx/esm/api");
+  const bootstrap =
+    `import(${JSON.stringify(tsxApi)}).then(({ register }) => {` +
+    ` register(); return import(${JSON.stringify(WORKER_URL.href)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData: init });
+}
+
+function progressOf(
+  done: number,
+  total: number,
+  cached: number,
+  startedAt: number
+): SearchProgress {
+  const elapsedMs = Date.now() - startedAt;
+  const fresh = done - cached;
+  return {
+    done,
+    total,
+    cached,
+    elapsedMs,
+    etaMs: fresh > 0 ? (elapsedMs / fresh) * Math.max(total - done, 0) : null,
+  };
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * 任务 + 数据的指纹：结果文件只能给同一个任务 / 同一份数据续跑
+ */
+function fingerprint(job: SearchJob, datasets: Datasets): string {
+  const summary = Object.keys(datasets)
+    .sort()
+    .map((name) => {
+      const candles = datasets[name]!;
+      const first = candles[0];
+      const last = candles[candles.length - 1];
+      return [
+        name,
+        candles.length,
+        first?.openTime ?? null,
+        last?.closeTime ?? null,
+        candles.reduce((sum, c) => sum + c.close, 0),
+      ];
+    });
+  return createHash("sha1")
+    .update(JSON.stringify({ job, datasets: summary }))
+    .digest("hex");
+}
+
+/**
+ * 结果文件：第一行是 { fingerprint }，之后每行 { key, result }
+ */
+function openResultsFile<T>(
+  file: string,
+  fp: string,
+  resume: boolean
+): ResultsFile<T> {
+  const results = new Map<string, T | null>();
+
+  if (resume && fs.existsSync(file)) {
+    const text = fs.readFileSync(file, "utf8");
+    const lines = text.split("\n").filter(Boolean);
+    const header = lines[0] ? JSON.parse(lines[0]) : null;
+    if (header && header.fingerprint !== fp) {
+      throw new Error(
+        `结果文件 ${file} 不是这个任务 / 这份数据跑出来的，不能续跑（删掉它或者关掉 resume）`
+      );
+    }
+    for (const line of lines.slice(1)) {
+      try {
+        const { key, result } = JSON.parse(line) as { key: string; result: T | null };
+        results.set(key, result);
+      } catch {
+        // 上次中断时写了半行，这一组重新跑
+      }
+    }
+    // 补上半行的换行，后面追加的结果另起一行
+    if (text && !text.endsWith("\n")) fs.appendFileSync(file, "\n");
+    if (!header) fs.writeFileSync(file, JSON.stringify({ fingerprint: fp }) + "\n");
+  } else {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ fingerprint: fp }) + "\n");
+  }
+
+  return {
+    results,
+    append: (key, result) => {
+      fs.appendFileSync(file, JSON.stringify({ key, result }) + "\n");
+    },
+  };
+}
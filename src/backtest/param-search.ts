@@ -0,0 +1,419 @@
+// src/backtest/param-search.ts
+import type { Candle } from "../types/candle.js";
+import {
+  runBacktestWithConfig,
+  type RunBacktestOptions,
+  type StrategyConfig,
+} from "../backtest-regime.js";
+import {
+  computeMetrics,
+  scoreMetrics,
+  type MetricName,
+  type PerformanceMetrics,
+  type ScoreTarget,
+} from "./metrics.js";
+import {
+  acceptCombo,
+  comboFromUnits,
+  comboKey,
+  createRng,
+  expandGrid,
+  fromUnit,
+  isActive,
+  toUnit,
+  type ParamCombo,
+  type SearchParam,
+  type SearchSpace,
+} from "./search-space.js";
+
+/**
+ * 搜索方法：
+ * - grid   : 网格全部跑一遍（trials 不起作用）
+ * - random : 在空间里均匀随机取 trials 组
+ * - lhs    : 拉丁超立方，每个参数的区间切成 trials 段、每段恰好取一次，比纯随机铺得匀
+ * - tpe    : 先随机跑 startupTrials 组，之后按"好组 / 差组"的密度比挑下一组（TPE 思路的简化版）
+ */
+export type SearchMethod = "grid" | "random" | "lhs" | "tpe";
+
+export interface TpeOptions {
+  startupTrials: number; // 前多少组纯随机（默认 20）
+  candidates: number;    // 每轮从"好组"附近抽多少个候选（默认 24）
+  gamma: number;         // 分数前多少比例算好组（默认 0.25）
+}
+
+export const DEFAULT_TPE_OPTIONS: TpeOptions = {
+  startupTrials: 20,
+  candidates: 24,
+  gamma: 0.25,
+};
+
+/**
+ * 指标约束：不满足的组合不参与排名（比如笔数至少 8 笔、回撤不超过 20%）
+ */
+export interface MetricConstraint {
+  metric: MetricName;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * 一组参数评估出来的分数；rejected 有值 = 不满足约束，不参与排名
+ */
+export interface TrialOutcome {
+  score: number;
+  rejected?: string;
+}
+
+/**
+ * 评估函数：参数 -> 结果（回测失败返回 null）
+ */
+export type Evaluator<T> = (params: ParamCombo) => T | null;
+
+/**
+ * 结果 -> 分数（越大越好）
+ */
+export type Scorer<T> = (result: T) => TrialOutcome;
+
+export interface SearchTrial<T> {
+  index: number; // 从 1 开始
+  params: ParamCombo;
+  result: T | null;
+  score: number; // 回测失败 / 被约束拒掉时为 -Infinity
+  feasible: boolean;
+  reason?: string; // 不可行的原因
+}
+
+export interface SearchOptions<T> {
+  method: SearchMethod;
+  trials?: number; // random / lhs / tpe 跑几组（默认 50）
+  seed?: number;   // 随机种子，同一个 seed 结果可复现（默认 1）
+  tpe?: Partial<TpeOptions>;
+  onTrial?: (trial: SearchTrial<T>, total: number) => void;
+}
+
+export interface SearchResult<T> {
+  trials: SearchTrial<T>[];
+  best: SearchTrial<T> | null; // 可行组合里分数最高的（同分取先跑的）
+}
+
+export const DEFAULT_TRIALS = 50;
+const DEFAULT_SEED = 1;
+// 随机类采样碰到约束 / 重复时最多重抽几次（每组）
+const MAX_RESAMPLE = 50;
+
+/**
+ * 指标打分：target 可以是指标名（"sharpe" / "calmar" ...）或自定义函数，constraints 不满足就拒掉
+ */
+export function metricObjective(
+  target: ScoreTarget,
+  constraints: MetricConstraint[] = []
+): Scorer<PerformanceMetrics> {
+  return (m) => {
+    for (const { metric, min, max } of constraints) {
+      const v = m[metric];
+      if (v === null) return { score: -Infinity, rejected: `${metric} 无法计算` };
+      if (min !== undefined && v < min) {
+        return { score: -Infinity, rejected: `${metric}=${v} < ${min}` };
+      }
+      if (max !== undefined && v > max) {
+        return { score: -Infinity, rejected: `${metric}=${v} > ${max}` };
+      }
+    }
+    return { score: scoreMetrics(m, target) };
+  };
+}
+
+/**
+ * 用 runBacktestWithConfig 评估：参数盖到 baseCfg 上（策略名也可以是参数之一），返回整段绩效
+ */
+export function backtestEvaluator(
+  candles4h: Candle[],
+  candles1d: Candle[],
+  baseCfg: StrategyConfig,
+  options: RunBacktestOptions = {}
+): Evaluator<PerformanceMetrics> {
+  return (params) => {
+    const ret = runBacktestWithConfig(
+      candles4h,
+      candles1d,
+      { ...baseCfg, ...params },
+      options
+    );
+    return ret?.result ? computeMetrics(ret.result, candles4h) : null;
+  };
+}
+
+/**
+ * 在搜索空间里找分数最高的参数
+ */
+export function runSearch<T>(
+  space: SearchSpace,
+  evaluate: Evaluator<T>,
+  scorer: Scorer<T>,
+  { method, trials = DEFAULT_TRIALS, seed = DEFAULT_SEED, tpe, onTrial }: SearchOptions<T>
+): SearchResult<T> {
+  const done: SearchTrial<T>[] = [];
+
+  const run = (params: ParamCombo, total: number) => {
+    const trial = toTrial(done.length + 1, params, evaluate(params), scorer);
+    done.push(trial);
+    onTrial?.(trial, total);
+  };
+
+  if (method === "tpe") {
+    for (const params of tpeCombos(space, done, { trials, seed, ...(tpe ? { tpe } : {}) })) {
+      run(params, trials);
+    }
+  } else {
+    const combos = planCombos(space, { method, trials, seed });
+    for (const params of combos) run(params, combos.length);
+  }
+
+  return { trials: done, best: pickBest(done) };
+}
+
+/**
+ * tpe 依次给出要跑的参数：取下一组之前，调用方要先把上一组的结果 push 进 done
+ * （串行的 runSearch 和并行执行器的主线程模式共用，同一个 seed 序列一样）
+ */
+export function* tpeCombos<T>(
+  space: SearchSpace,
+  done: SearchTrial<T>[],
+  { trials = DEFAULT_TRIALS, seed = DEFAULT_SEED, tpe }: Pick<SearchOptions<T>, "trials" | "seed" | "tpe">
+): Generator<ParamCombo> {
+  const rng = createRng(seed);
+  const seen = new Set<string>();
+  const opts = { ...DEFAULT_TPE_OPTIONS, ...tpe };
+  for (let i = 0; i < trials; i++) {
+    const params =
+      i < opts.startupTrials
+        ? drawUnique(space, seen, () => randomCombo(space, rng))
+        : tpeSuggest(space, done, seen, opts, rng);
+    if (!params) return;
+    seen.add(comboKey(params));
+    yield params;
+  }
+}
+
+/**
+ * 可行组合里分数最高的（同分取 index 小的，和跑的先后 / 并行度无关）
+ */
+export function pickBest<T>(trials: SearchTrial<T>[]): SearchTrial<T> | null {
+  let best: SearchTrial<T> | null = null;
+  for (const t of trials) {
+    if (
+      t.feasible &&
+      (!best || t.score > best.score || (t.score === best.score && t.index < best.index))
+    ) {
+      best = t;
+    }
+  }
+  return best;
+}
+
+/**
+ * 把试验结果（评估结果 + 分数）包成 SearchTrial
+ */
+export function toTrial<T>(
+  index: number,
+  params: ParamCombo,
+  result: T | null,
+  scorer: Scorer<T>
+): SearchTrial<T> {
+  const outcome: TrialOutcome = result
+    ? scorer(result)
+    : { score: -Infinity, rejected: "回测失败" };
+  return {
+    index,
+    params,
+    result,
+    score: outcome.rejected ? -Infinity : outcome.score,
+    feasible: !outcome.rejected,
+    ...(outcome.rejected ? { reason: outcome.rejected } : {}),
+  };
+}
+
+/**
+ * grid / random / lhs 要跑的参数组合可以一次全部排好（不依赖前面的结果，适合并行）；
+ * tpe 每一组都要看前面的结果，没法预先排
+ */
+export function planCombos(
+  space: SearchSpace,
+  { method, trials = DEFAULT_TRIALS, seed = DEFAULT_SEED }: Pick<SearchOptions<unknown>, "method" | "trials" | "seed">
+): ParamCombo[] {
+  if (method === "grid") return expandGrid(space);
+  if (method === "tpe") {
+    throw new Error("tpe 要按顺序根据前面的结果挑下一组，不能预先排好组合");
+  }
+
+  const rng = createRng(seed);
+  const seen = new Set<string>();
+  const combos: ParamCombo[] = [];
+  const lhs =
+    method === "lhs"
+      ? latinHypercube(Object.keys(space.params).length, trials, rng)
+      : null;
+
+  for (let i = 0; i < trials; i++) {
+    let params: ParamCombo | null = null;
+    if (lhs) {
+      // 先用这一格的拉丁超立方点，不合法 / 重复再退回随机补
+      const lhsCombo = comboFromUnits(space, (_, d) => lhs[d]![i]!);
+      if (acceptCombo(space, lhsCombo) && !seen.has(comboKey(lhsCombo))) {
+        params = lhsCombo;
+      }
+    }
+    params ??= drawUnique(space, seen, () => randomCombo(space, rng));
+    if (!params) break;
+    seen.add(comboKey(params));
+    combos.push(params);
+  }
+  return combos;
+}
+
+function randomCombo(space: SearchSpace, rng: () => number): ParamCombo {
+  return comboFromUnits(space, () => rng());
+}
+
+/**
+ * 反复抽直到得到一组满足约束、而且没跑过的参数；抽不到（空间太小 / 约束太严）返回 null
+ */
+function drawUnique(
+  space: SearchSpace,
+  seen: Set<string>,
+  draw: () => ParamCombo
+): ParamCombo | null {
+  for (let attempt = 0; attempt < MAX_RESAMPLE; attempt++) {
+    const combo = draw();
+    if (acceptCombo(space, combo) && !seen.has(comboKey(combo))) return combo;
+  }
+  return null;
+}
+
+/**
+ * 拉丁超立方：dims 个维度 × n 个点，每个维度上 n 段各取一个点（段的顺序随机打乱）
+ */
+function latinHypercube(dims: number, n: number, rng: () => number): number[][] {
+  return Array.from({ length: dims }, () => {
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [order[i], order[j]] = [order[j]!, order[i]!];
+    }
+    return order.map((k) => (k + rng()) / n);
+  });
+}
+
+/**
+ * TPE：已跑的组合按分数分成好组（前 gamma）和差组，每个参数各自估计 l(x)（好组密度）和 g(x)（差组密度），
+ * 从好组附近抽 candidates 个候选，取 l / g 最大的那个
+ */
+function tpeSuggest<T>(
+  space: SearchSpace,
+  done: SearchTrial<T>[],
+  seen: Set<string>,
+  { candidates, gamma }: TpeOptions,
+  rng: () => number
+): ParamCombo | null {
+  // 不可行的组合分数是 -Infinity，自然落在差组
+  const ranked = [...done].sort((a, b) =>
+    a.score === b.score ? 0 : b.score > a.score ? 1 : -1
+  );
+  const nGood = Math.max(1, Math.ceil(gamma * ranked.length));
+  const good = ranked.slice(0, nGood).map((t) => t.params);
+  const bad = ranked.slice(nGood).map((t) => t.params);
+
+  let best: { combo: ParamCombo; ratio: number } | null = null;
+  for (let c = 0; c < candidates; c++) {
+    const combo = drawUnique(space, seen, () => sampleNear(space, good, rng));
+    if (!combo) continue;
+
+    let ratio = 0;
+    for (const [key, param] of Object.entries(space.params)) {
+      const v = combo[key];
+      if (v === undefined) continue;
+      ratio +=
+        Math.log(density(param, key, v, good)) -
+        Math.log(density(param, key, v, bad));
+    }
+    if (!best || ratio > best.ratio) best = { combo, ratio };
+  }
+
+  return best ? best.combo : drawUnique(space, seen, () => randomCombo(space, rng));
+}
+
+/**
+ * 在好组附近取一组：区间参数从某个好组点加高斯扰动，离散参数按好组里出现的频率（加平滑）抽
+ */
+function sampleNear(
+  space: SearchSpace,
+  good: ParamCombo[],
+  rng: () => number
+): ParamCombo {
+  const combo: ParamCombo = {};
+  for (const [key, param] of Object.entries(space.params)) {
+    if (!isActive(param, combo)) continue;
+    const observed = good.flatMap((p) => (p[key] === undefined ? [] : [p[key]!]));
+
+    if (param.type === "choice") {
+      const weights = param.values.map(
+        (v) => observed.filter((o) => o === v).length + 1
+      );
+      let r = rng() * weights.reduce((a, b) => a + b, 0);
+      let index = 0;
+      while (index < weights.length - 1 && r >= weights[index]!) {
+        r -= weights[index]!;
+        index++;
+      }
+      combo[key] = param.values[index]!;
+      continue;
+    }
+
+    const centre =
+      observed.length > 0
+        ? toUnit(param, Number(observed[Math.floor(rng() * observed.length)]))
+        : rng();
+    const u = centre + gaussian(rng) * bandwidth(observed.length);
+    combo[key] = fromUnit(param, u);
+  }
+  return combo;
+}
+
+/**
+ * 一个参数取值 v 在一组观测里的密度（带均匀先验，永远 > 0）
+ */
+function density(
+  param: SearchParam,
+  key: string,
+  v: ParamCombo[string],
+  observations: ParamCombo[]
+): number {
+  const observed = observations.flatMap((p) => (p[key] === undefined ? [] : [p[key]!]));
+
+  if (param.type === "choice") {
+    const count = observed.filter((o) => o === v).length;
+    return (count + 1) / (observed.length + param.values.length);
+  }
+
+  const x = toUnit(param, Number(v));
+  const h = bandwidth(observed.length);
+  let sum = 1; // 均匀先验当成一个"点"
+  for (const o of observed) {
+    const z = (x - toUnit(param, Number(o))) / h;
+    sum += Math.exp(-0.5 * z * z) / (h * Math.sqrt(2 * Math.PI));
+  }
+  return sum / (observed.length + 1);
+}
+
+/**
+ * 核宽度（单位区间里）：观测越多越窄
+ */
+function bandwidth(n: number): number {
+  return Math.max(0.05, 0.5 / Math.sqrt(n + 1));
+}
+
+function gaussian(rng: () => number): number {
+  const u1 = Math.max(rng(), 1e-12);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
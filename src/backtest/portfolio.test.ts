@@ -0,0 +1,98 @@
+// src/backtest/portfolio.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Candle, Trade } from "../types/candle.js";
+import { backtestPortfolio, type Sleeve } from "./portfolio.js";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 收盘价一路 100、101、102…，第 i 根收盘时间 = (i + 1) × 4H - 1
+ */
+function flatCandles(bars: number): Candle[] {
+  return Array.from({ length: bars }, (_, i) => ({
+    openTime: i * 4 * HOUR,
+    closeTime: (i + 1) * 4 * HOUR - 1,
+    open: 100 + i,
+    high: 100 + i + 0.5,
+    low: 100 + i - 0.5,
+    close: 100 + i,
+    volume: 100,
+  }));
+}
+
+function trade(
+  candles: Candle[],
+  side: Trade["side"],
+  entryBar: number,
+  exitBar: number,
+  costPct = 0
+): Trade {
+  const entryPrice = candles[entryBar]!.close;
+  const exitPrice = candles[exitBar]!.close;
+  const move = ((exitPrice - entryPrice) / entryPrice) * 100;
+  return {
+    side,
+    entryTime: candles[entryBar]!.closeTime,
+    exitTime: candles[exitBar]!.closeTime,
+    entryPrice,
+    exitPrice,
+    pnlPct: (side === "long" ? move : -move) - costPct,
+    feePct: costPct,
+  };
+}
+
+function sleeve(name: string, weight: number, trades: Trade[]): Sleeve {
+  return { name, weight, run: () => trades };
+}
+
+describe("组合回测", () => {
+  const candles = flatCandles(30);
+
+  test("逐K线盯市：只算这根收盘时还拿着的仓位", () => {
+    const result = backtestPortfolio(candles, {
+      sleeves: [
+        sleeve("a", 0.5, [trade(candles, "long", 2, 10), trade(candles, "long", 15, 20)]),
+        sleeve("b", 0.5, [trade(candles, "long", 5, 12)]),
+      ],
+    });
+
+    // 第 8 根：a 的第一笔（入场 102）和 b（入场 105）都在仓，各 0.5 的名义价值
+    const bar8 = result.barEquity.find((p) => p.time === candles[8]!.closeTime)!;
+    const expected = 1 + 0.5 * (108 / 102 - 1) + 0.5 * (108 / 105 - 1);
+    assert.ok(Math.abs(bar8.equity - expected) < 1e-12);
+
+    // 第 13 根：两笔都平了、a 的第二笔还没开，权益 = 已实现
+    const bar13 = result.barEquity.find((p) => p.time === candles[13]!.closeTime)!;
+    assert.ok(Math.abs(bar13.equity - result.trades.slice(0, 2).reduce(
+      (eq, t) => eq + t.pnl, 1)) < 1e-12);
+  });
+
+  test("same-bar-offset 只退同一时刻对冲掉的成本", () => {
+    const result = backtestPortfolio(candles, {
+      conflictPolicy: "same-bar-offset",
+      sleeves: [
+        sleeve("long", 0.5, [trade(candles, "long", 2, 10, 0.1)]),
+        // 同一根开反向：开仓那一刻对冲；平仓时间不同，不退
+        sleeve("short", 0.5, [trade(candles, "short", 2, 12, 0.1)]),
+      ],
+    });
+
+    // 两边各 0.5 名义价值、单边成本 0.05%：开仓那一刻全部抵消，退 2 × 0.5 × 0.0005
+    assert.ok(Math.abs(result.nettingSavings - 0.0005) < 1e-12);
+  });
+
+  test("block-opposite 挡掉的 sleeve 在那笔持仓期间空着", () => {
+    const result = backtestPortfolio(candles, {
+      conflictPolicy: "block-opposite",
+      sleeves: [
+        sleeve("long", 0.5, [trade(candles, "long", 2, 10)]),
+        sleeve("short", 0.5, [trade(candles, "short", 4, 8), trade(candles, "short", 12, 14)]),
+      ],
+    });
+
+    const short = result.sleeves.find((s) => s.name === "short")!;
+    assert.equal(short.blocked, 1);
+    assert.equal(short.trades, 1);
+  });
+});
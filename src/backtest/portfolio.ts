@@ -0,0 +1,443 @@
+// src/backtest/portfolio.ts
+import type { Candle, Trade } from "../types/candle.js";
+import {
+  backtestSimpleBtcTrend,
+  type BacktestOptions,
+  type HigherTFRegimeSeries,
+  type RegimeType,
+} from "./engine.js";
+import {
+  backtestBtcMeanRevert,
+  type MeanRevertOptions,
+} from "./mean-revert-engine.js";
+import {
+  backtestWeakRsiMeanRevert,
+  type WeakRsiOptions,
+} from "./weak-rsi-mean-revert.js";
+import {
+  adversePrice,
+  computeMetrics,
+  drawdownStats,
+  grossMultiple,
+  printDrawdownStats,
+  printMetrics,
+  type BarEquityPoint,
+  type DrawdownStats,
+} from "./metrics.js";
+
+/**
+ * 组合里的一个子策略（sleeve）：
+ * - run     : 在整段K线上跑出这个策略的全部候选交易（按时间升序、自身不重叠）
+ * - weight  : 每笔用当前组合已实现权益的多少比例（0.5 = 50%）
+ * - regimes : 可选，只在日线 regime 属于这些时开仓（比如趋势只在 BULL，弱 RSI 只在 RANGE）
+ */
+export interface Sleeve {
+  name: string;
+  weight: number;
+  regimes?: RegimeType[];
+  run(candles: Candle[]): Trade[];
+}
+
+/**
+ * 同一个合约上多个 sleeve 的仓位冲突怎么处理：
+ * - same-bar-offset : 多空都允许，各 sleeve 的仓位照样分开记账；只有同一时刻方向相反的成交
+ *                     在账户里只成交净额，抵消掉的那部分手续费 / 滑点退回。
+ *                     不是真正的账户净头寸模拟（不同时刻的反向仓位不抵消保证金 / 资金费）
+ * - block-opposite  : 已经有反向仓位时，新的反向单直接丢掉（同向可以叠加）
+ * - block-all       : 合约上有任何仓位时，其他 sleeve 都不开（一次只有一笔）
+ *
+ * block-* 丢掉的那笔不会让 sleeve「空出来」：sleeve 的候选交易是单独跑好的，
+ * 被丢掉那笔持仓期间它不会改开别的单，要等下一笔候选（所以被挡的 sleeve 会空转一整笔的时间）
+ */
+export type ConflictPolicy = "same-bar-offset" | "block-opposite" | "block-all";
+
+export interface PortfolioOptions {
+  sleeves: Sleeve[];
+  conflictPolicy?: ConflictPolicy;         // 默认 "block-opposite"
+  higherTFRegime?: HigherTFRegimeSeries;   // 有 sleeve 配了 regimes 时必须传
+  initialEquity?: number;                  // 默认 1
+}
+
+/**
+ * 组合里实际成交的一笔：原始交易 + 属于哪个 sleeve + 用了多少名义价值
+ */
+export interface PortfolioTrade extends Trade {
+  sleeve: string;
+  notional: number; // 开仓时分到的名义价值（权益单位）
+  pnl: number;      // 这笔对组合权益的贡献（权益单位，不含 same-bar-offset 退回的成本）
+}
+
+/**
+ * 单个 sleeve 的归因
+ */
+export interface SleeveAttribution {
+  name: string;
+  weight: number;
+  candidates: number;      // 策略自己跑出来的交易数
+  routedOut: number;       // 因为日线 regime 不在 regimes 里被跳过
+  blocked: number;         // 因为仓位冲突被跳过
+  trades: number;          // 实际成交
+  winRate: number;         // %
+  pnl: number;             // 累计贡献（权益单位）
+  contributionPct: number; // 占初始权益的百分比
+}
+
+export interface PortfolioResult {
+  conflictPolicy: ConflictPolicy;
+  initialEquity: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  trades: PortfolioTrade[];
+  barEquity: BarEquityPoint[]; // 组合逐K线盯市权益
+  maxDrawdownPct: number;
+  drawdown: DrawdownStats;
+  sleeves: SleeveAttribution[];
+  nettingSavings: number;      // same-bar-offset 模式下同一时刻对冲退回的成本（权益单位）
+}
+
+// === 常用 sleeve：把现有三个引擎包一层 ===
+
+export function trendSleeve(
+  name: string,
+  weight: number,
+  options: BacktestOptions,
+  regimes?: RegimeType[]
+): Sleeve {
+  return {
+    name,
+    weight,
+    ...(regimes ? { regimes } : {}),
+    run: (candles) => backtestSimpleBtcTrend(candles, options)?.trades ?? [],
+  };
+}
+
+export function meanRevertSleeve(
+  name: string,
+  weight: number,
+  options: MeanRevertOptions,
+  regimes?: RegimeType[]
+): Sleeve {
+  return {
+    name,
+    weight,
+    ...(regimes ? { regimes } : {}),
+    run: (candles) => backtestBtcMeanRevert(candles, options)?.trades ?? [],
+  };
+}
+
+export function weakRsiSleeve(
+  name: string,
+  weight: number,
+  options: WeakRsiOptions,
+  regimes?: RegimeType[]
+): Sleeve {
+  return {
+    name,
+    weight,
+    ...(regimes ? { regimes } : {}),
+    run: (candles) => backtestWeakRsiMeanRevert(candles, options)?.trades ?? [],
+  };
+}
+
+/**
+ * 取 time 时刻已经收盘的最后一根日线的 regime（二分）
+ */
+function regimeAt(
+  series: HigherTFRegimeSeries,
+  time: number
+): RegimeType | undefined {
+  let lo = 0;
+  let hi = series.times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (series.times[mid]! <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 ? series.regimes[lo - 1] : undefined;
+}
+
+interface OpenPosition {
+  trade: PortfolioTrade;
+  sleeveIndex: number;
+}
+
+/**
+ * 一次成交（开 / 平）对账户净头寸的影响，same-bar-offset 模式算同一时刻的对冲用
+ */
+interface Leg {
+  sleeveIndex: number;
+  delta: number;    // 带方向的名义价值变化（多 +，空 -）
+  costRate: number; // 单边成本比例（手续费 + 滑点）
+}
+
+/**
+ * 多策略组合回测：几个 sleeve 共用一份资金同时跑。
+ *
+ * 每个 sleeve 先在整段K线上独立跑出候选交易，再按时间合并：
+ * 同一时刻先平仓结算，再按 sleeve 顺序开仓（regime 路由 / 冲突策略在这一步过滤）。
+ * 注意：被过滤掉的那笔不会让 sleeve 自己「空出来」去开别的单，sleeve 内部路径不重算（见 ConflictPolicy）。
+ */
+export function backtestPortfolio(
+  candles: Candle[],
+  options: PortfolioOptions
+): PortfolioResult {
+  const {
+    sleeves,
+    conflictPolicy = "block-opposite",
+    higherTFRegime,
+    initialEquity = 1,
+  } = options;
+
+  const totalWeight = sleeves.reduce((sum, s) => sum + s.weight, 0);
+  if (sleeves.length === 0) {
+    throw new Error("组合里至少要有一个 sleeve");
+  }
+  if (sleeves.some((s) => s.weight <= 0) || totalWeight > 1 + 1e-9) {
+    throw new Error(
+      `sleeve 权重必须 > 0 且合计 <= 1（现在合计 ${totalWeight.toFixed(2)}）`
+    );
+  }
+  if (sleeves.some((s) => s.regimes) && !higherTFRegime) {
+    throw new Error("有 sleeve 配了 regimes 路由，但没有传 higherTFRegime");
+  }
+
+  const attribution: SleeveAttribution[] = sleeves.map((s) => ({
+    name: s.name,
+    weight: s.weight,
+    candidates: 0,
+    routedOut: 0,
+    blocked: 0,
+    trades: 0,
+    winRate: 0,
+    pnl: 0,
+    contributionPct: 0,
+  }));
+
+  // === 1) 各 sleeve 独立跑出候选交易，合并成一个按入场时间排序的队列 ===
+  const queue: { trade: Trade; sleeveIndex: number }[] = [];
+  sleeves.forEach((sleeve, sleeveIndex) => {
+    const trades = sleeve.run(candles);
+    attribution[sleeveIndex]!.candidates = trades.length;
+    for (const trade of trades) queue.push({ trade, sleeveIndex });
+  });
+  // 同一时间按 sleeve 顺序（排在前面的优先）
+  queue.sort(
+    (a, b) =>
+      a.trade.entryTime - b.trade.entryTime || a.sleeveIndex - b.sleeveIndex
+  );
+
+  // === 2) 按时间推进：先平仓，再开仓 ===
+  let cash = initialEquity;
+  let nettingSavings = 0;
+  const open: OpenPosition[] = [];
+  const accepted: PortfolioTrade[] = [];
+  const cashEvents: { time: number; cash: number }[] = [];
+  let q = 0;
+
+  while (q < queue.length || open.length > 0) {
+    const nextEntry = queue[q]?.trade.entryTime ?? Infinity;
+    const nextExit = Math.min(...open.map((p) => p.trade.exitTime));
+    const t = Math.min(nextEntry, nextExit);
+    const legs: Leg[] = [];
+
+    // 平仓：结算进已实现权益
+    for (let k = open.length - 1; k >= 0; k--) {
+      const pos = open[k]!;
+      if (pos.trade.exitTime !== t) continue;
+      const { trade, sleeveIndex } = pos;
+      cash += trade.pnl;
+      attribution[sleeveIndex]!.pnl += trade.pnl;
+      legs.push({
+        sleeveIndex,
+        delta: trade.side === "long" ? -trade.notional : trade.notional,
+        costRate: sideCostRate(trade),
+      });
+      open.splice(k, 1);
+    }
+
+    // 开仓：regime 路由 + 冲突检查
+    while (q < queue.length && queue[q]!.trade.entryTime === t) {
+      const { trade, sleeveIndex } = queue[q]!;
+      q++;
+      const sleeve = sleeves[sleeveIndex]!;
+      const attr = attribution[sleeveIndex]!;
+
+      if (sleeve.regimes && higherTFRegime) {
+        const regime = regimeAt(higherTFRegime, trade.entryTime);
+        if (!regime || !sleeve.regimes.includes(regime)) {
+          attr.routedOut++;
+          continue;
+        }
+      }
+
+      const conflict =
+        conflictPolicy === "block-all"
+          ? open.length > 0
+          : conflictPolicy === "block-opposite"
+          ? open.some((p) => p.trade.side !== trade.side)
+          : false;
+      if (conflict) {
+        attr.blocked++;
+        continue;
+      }
+
+      const notional = sleeve.weight * cash;
+      const pt: PortfolioTrade = {
+        ...trade,
+        sleeve: sleeve.name,
+        notional,
+        pnl: (notional * trade.pnlPct) / 100,
+      };
+      open.push({ trade: pt, sleeveIndex });
+      accepted.push(pt);
+      attr.trades++;
+      legs.push({
+        sleeveIndex,
+        delta: trade.side === "long" ? notional : -notional,
+        costRate: sideCostRate(trade),
+      });
+    }
+
+    // same-bar-offset：同一时刻方向相反的成交在账户里互相抵消，抵消掉的那部分成本退回
+    if (conflictPolicy === "same-bar-offset" && legs.length > 1) {
+      const gross = legs.reduce((sum, l) => sum + Math.abs(l.delta), 0);
+      const net = Math.abs(legs.reduce((sum, l) => sum + l.delta, 0));
+      const offsetRatio = gross > 0 ? 1 - net / gross : 0;
+      for (const leg of legs) {
+        const saved = Math.abs(leg.delta) * leg.costRate * offsetRatio;
+        if (saved <= 0) continue;
+        cash += saved;
+        nettingSavings += saved;
+        attribution[leg.sleeveIndex]!.pnl += saved;
+      }
+    }
+
+    if (legs.length > 0) cashEvents.push({ time: t, cash });
+  }
+
+  // === 3) 逐K线盯市：已实现权益 + 所有持仓的浮盈浮亏 ===
+  const barEquity = portfolioBarEquity(
+    candles,
+    accepted,
+    cashEvents,
+    initialEquity
+  );
+  const drawdown = drawdownStats(barEquity);
+
+  for (const attr of attribution) {
+    const mine = accepted.filter((t) => t.sleeve === attr.name);
+    const wins = mine.filter((t) => t.pnlPct > 0).length;
+    attr.winRate = mine.length > 0 ? (wins / mine.length) * 100 : 0;
+    attr.contributionPct = (attr.pnl / initialEquity) * 100;
+  }
+
+  return {
+    conflictPolicy,
+    initialEquity,
+    finalEquity: cash,
+    totalReturnPct: ((cash - initialEquity) / initialEquity) * 100,
+    trades: accepted,
+    barEquity,
+    maxDrawdownPct: drawdown.maxDrawdownPct,
+    drawdown,
+    sleeves: attribution,
+    nettingSavings,
+  };
+}
+
+/**
+ * 单边成本比例：Trade 上记的是双边合计（%），平均摊到一边
+ */
+function sideCostRate(trade: Trade): number {
+  return ((trade.feePct ?? 0) + (trade.slippagePct ?? 0)) / 2 / 100;
+}
+
+/**
+ * 逐K线盯市：trades 按入场时间升序，扫一遍维护「这根收盘时还拿着的仓位」，
+ * 每根只看持仓中的那几笔（不用每根K线把全部交易扫一遍）
+ */
+function portfolioBarEquity(
+  candles: Candle[],
+  trades: PortfolioTrade[],
+  cashEvents: { time: number; cash: number }[],
+  initialEquity: number
+): BarEquityPoint[] {
+  const curve: BarEquityPoint[] = [];
+  let cash = initialEquity;
+  let e = 0;
+  let next = 0;
+  const holding: PortfolioTrade[] = [];
+
+  // 从第一笔入场开始算（前面是各引擎的暖机段）
+  const start = trades.length > 0 ? trades[0]!.entryTime : Infinity;
+
+  for (const c of candles) {
+    if (c.closeTime < start) continue;
+
+    while (e < cashEvents.length && cashEvents[e]!.time <= c.closeTime) {
+      cash = cashEvents[e]!.cash;
+      e++;
+    }
+
+    while (next < trades.length && trades[next]!.entryTime < c.closeTime) {
+      holding.push(trades[next]!);
+      next++;
+    }
+    for (let k = holding.length - 1; k >= 0; k--) {
+      if (holding[k]!.exitTime <= c.closeTime) holding.splice(k, 1);
+    }
+
+    let equity = cash;
+    let equityLow = cash;
+    for (const t of holding) {
+      equity += t.notional * (grossMultiple(t, c.close) - 1);
+      equityLow += t.notional * (grossMultiple(t, adversePrice(t, c)) - 1);
+    }
+
+    curve.push({ time: c.closeTime, equity, equityLow });
+  }
+
+  return curve;
+}
+
+/**
+ * 打印组合结果 + 各 sleeve 归因
+ */
+export function printPortfolioResult(
+  result: PortfolioResult,
+  candles?: Candle[]
+): void {
+  console.log(`=== 多策略组合回测（冲突处理: ${result.conflictPolicy}） ===`);
+  console.log("成交笔数:", result.trades.length);
+  console.log(
+    "组合总收益:",
+    result.totalReturnPct.toFixed(2),
+    "%",
+    `（权益 ${result.initialEquity} → ${result.finalEquity.toFixed(4)}）`
+  );
+  console.log("最大回撤:", result.maxDrawdownPct.toFixed(2), "%");
+  printDrawdownStats(result.drawdown);
+  printMetrics(computeMetrics(result, candles));
+
+  if (result.conflictPolicy === "same-bar-offset") {
+    console.log(
+      "同一时刻对冲退回的成本:",
+      ((result.nettingSavings / result.initialEquity) * 100).toFixed(3),
+      "%"
+    );
+  }
+
+  console.log("\n=== 各 sleeve 归因 ===");
+  console.table(
+    result.sleeves.map((s) => ({
+      sleeve: s.name,
+      权重: s.weight,
+      候选: s.candidates,
+      regime跳过: s.routedOut,
+      冲突跳过: s.blocked,
+      成交: s.trades,
+      胜率: s.winRate.toFixed(2) + "%",
+      贡献: s.contributionPct.toFixed(2) + "%",
+    }))
+  );
+}
@@ -0,0 +1,38 @@
+// src/backtest/search-job.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { engineOptions, evaluateJob, type EngineJob } from "./search-job.js";
+
+describe("engineOptions", () => {
+  test("引擎选项直接覆盖，策略参数放进 strategyParams", () => {
+    const options = engineOptions(
+      { useTrendFilter: true, strategyParams: { emaFast: 40 } },
+      { strategy: "trend-v2", stopLossPct: 0.01, emaSlow: 250 }
+    );
+    assert.equal(options.useTrendFilter, true);
+    assert.equal(options.strategy, "trend-v2");
+    assert.equal(options.stopLossPct, 0.01);
+    assert.deepEqual(options.strategyParams, { emaFast: 40, emaSlow: 250 });
+    assert.equal("emaSlow" in options, false);
+  });
+
+  test("拼错的参数名直接报错，不悄悄忽略", () => {
+    assert.throws(
+      () => engineOptions({}, { stopLosPct: 0.01 }),
+      /stopLosPct 既不是回测引擎的选项，也不是策略 trend-v1 的参数/
+    );
+  });
+
+  test("引擎选项类型不对报错", () => {
+    assert.throws(() => engineOptions({}, { stopLossPct: "0.01" }), /stopLossPct="0.01" 类型不对/);
+  });
+
+  test("策略参数按 paramSchema 校验范围", () => {
+    assert.throws(() => engineOptions({}, { emaSlow: -1 }), /超出范围/);
+  });
+
+  test("evaluateJob 的 engine 任务也走同一套校验", () => {
+    const job: EngineJob = { kind: "engine", options: {}, datasets: [] };
+    assert.throws(() => evaluateJob(job, {}, { foo: 1 }), /foo 既不是回测引擎的选项/);
+  });
+});
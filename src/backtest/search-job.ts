@@ -0,0 +1,159 @@
+// src/backtest/search-job.ts
+import type { Candle } from "../types/candle.js";
+import type {
+  RunBacktestOptions,
+  StrategyConfig,
+} from "../backtest-regime.js";
+import {
+  backtestSimpleBtcTrend,
+  type BacktestOptions,
+  type BacktestResult,
+} from "./engine.js";
+import { computeMetrics, type PerformanceMetrics } from "./metrics.js";
+import { backtestEvaluator } from "./param-search.js";
+import type { ParamCombo } from "./search-space.js";
+import { getStrategy, resolveParams } from "../strategy/registry.js";
+
+/**
+ * 扫参时每组参数怎么评估（纯数据，能传给 worker；K线按名字引用 datasets 里的数据）：
+ * - config : runBacktestWithConfig（参数盖到 cfg 上），返回整段绩效
+ * - engine : backtestSimpleBtcTrend 在几份数据上各跑一遍（参数盖到 options 上），
+ *            任何一份不够 200 根 / 跑不了就是 null（optimizer 的 Train / Test 就是这样）
+ */
+export interface ConfigJob {
+  kind: "config";
+  cfg: StrategyConfig;
+  candles4h: string;
+  candles1d: string;
+  options?: RunBacktestOptions;
+}
+
+export interface EngineJob {
+  kind: "engine";
+  options: BacktestOptions;
+  datasets: string[];
+}
+
+export type SearchJob = ConfigJob | EngineJob;
+
+/**
+ * engine 任务每份数据的结果：BacktestResult 的汇总字段 + 绩效（不带逐笔 / 逐K线明细，传回主线程和写结果文件都小）
+ */
+export type EngineRun = Pick<
+  BacktestResult,
+  | "totalTrades"
+  | "totalReturnPct"
+  | "avgReturnPct"
+  | "winRate"
+  | "maxDrawdownPct"
+  | "annualizedReturnPct"
+> & { metrics: PerformanceMetrics };
+
+export type JobResult<J extends SearchJob> = J extends ConfigJob
+  ? PerformanceMetrics
+  : EngineRun[];
+
+/**
+ * 名字 -> K线（主线程是原数组，worker 里是从共享内存还原的）
+ */
+export type Datasets = Record<string, Candle[]>;
+
+function dataset(datasets: Datasets, name: string): Candle[] {
+  const candles = datasets[name];
+  if (!candles) {
+    throw new Error(`扫参任务引用了不存在的数据: ${name}`);
+  }
+  return candles;
+}
+
+/**
+ * engine 任务里能直接盖到 BacktestOptions 上的参数和类型（其余的必须是策略 paramSchema 里的参数）
+ */
+const ENGINE_PARAM_TYPES = {
+  useTrendFilter: "boolean",
+  stopLossPct: "number",
+  takeProfitPct: "number",
+  strategy: "string",
+  minAtrPct: "number",
+  maxRsiForEntry: "number",
+  minRsiForEntry: "number",
+  rsiPeriod: "number",
+  atrPeriod: "number",
+  maxPremiumOverEma50: "number",
+  warmupPrefixBars: "number",
+} as const satisfies Partial<Record<keyof BacktestOptions, "number" | "boolean" | "string">>;
+
+function isEngineParam(key: string): key is keyof typeof ENGINE_PARAM_TYPES {
+  return Object.hasOwn(ENGINE_PARAM_TYPES, key);
+}
+
+/**
+ * 把一组扫参参数盖到 engine 任务的 options 上：
+ * - 引擎选项（ENGINE_PARAM_TYPES）直接覆盖，类型不对报错
+ * - 策略 paramSchema 里的参数放进 strategyParams，按 resolveParams 校验类型 / 范围
+ * - 两边都不是的直接报错（拼错的参数名不会被悄悄忽略）
+ */
+export function engineOptions(base: BacktestOptions, params: ParamCombo): BacktestOptions {
+  const options: BacktestOptions = { ...base };
+  for (const [key, value] of Object.entries(params)) {
+    if (!isEngineParam(key)) continue;
+    const expected = ENGINE_PARAM_TYPES[key];
+    if (typeof value !== expected) {
+      throw new Error(`扫参参数 ${key}=${JSON.stringify(value)} 类型不对（要 ${expected}）`);
+    }
+    Object.assign(options, { [key]: value });
+  }
+
+  const strategy = getStrategy(options.strategy);
+  const strategyParams: Record<string, unknown> = { ...base.strategyParams };
+  for (const [key, value] of Object.entries(params)) {
+    if (isEngineParam(key)) continue;
+    if (!Object.hasOwn(strategy.paramSchema, key)) {
+      throw new Error(`扫参参数 ${key} 既不是回测引擎的选项，也不是策略 ${strategy.name} 的参数`);
+    }
+    strategyParams[key] = value;
+  }
+  resolveParams(strategy, strategyParams);
+
+  return { ...options, strategyParams };
+}
+
+/**
+ * 用一组参数跑一次任务（主线程和 worker 共用，同样的输入结果完全一样）
+ */
+export function evaluateJob(
+  job: SearchJob,
+  datasets: Datasets,
+  params: ParamCombo
+): PerformanceMetrics | EngineRun[] | null {
+  if (job.kind === "config") {
+    return backtestEvaluator(
+      dataset(datasets, job.candles4h),
+      dataset(datasets, job.candles1d),
+      job.cfg,
+      job.options ?? {}
+    )(params);
+  }
+
+  const options = engineOptions(job.options, params);
+  const runs: EngineRun[] = [];
+  for (const name of job.datasets) {
+    const candles = dataset(datasets, name);
+    // K 线太少，EMA/RSI 暖机不够
+    if (candles.length < 200) return null;
+
+    const result = backtestSimpleBtcTrend(candles, options);
+    if (!result) return null;
+
+    runs.push({
+      totalTrades: result.totalTrades,
+      totalReturnPct: result.totalReturnPct,
+      avgReturnPct: result.avgReturnPct,
+      winRate: result.winRate,
+      maxDrawdownPct: result.maxDrawdownPct,
+      annualizedReturnPct: result.annualizedReturnPct,
+      metrics: computeMetrics(result, candles),
+    });
+  }
+  return runs;
+}
@@ -0,0 +1,252 @@
+// src/backtest/search-space.ts
+import { getStrategy } from "../strategy/registry.js";
+
+export type ParamValue = number | boolean | string;
+
+/**
+ * 一次扫参里某组参数的取值（直接盖到 StrategyConfig 上）
+ */
+export type ParamCombo = Record<string, ParamValue>;
+
+/**
+ * 离散候选：比如策略名、RSI 上限这种只想试几个值的参数
+ */
+export interface ChoiceParam {
+  type: "choice";
+  values: readonly ParamValue[];
+  when?: (params: ParamCombo) => boolean; // 条件参数：前面的参数满足条件才有这个参数
+}
+
+/**
+ * 连续区间 [min, max]：
+ * - log     : 按对数均匀取（跨好几个数量级的参数，比如 0.001 ~ 0.1）
+ * - step    : 取值对齐到 min + k × step（网格也按它展开）
+ * - integer : 取整（周期类参数）
+ * - gridPoints : 网格搜索时没有 step 就均匀取这么多个点（默认 5）
+ */
+export interface RangeParam {
+  type: "range";
+  min: number;
+  max: number;
+  log?: boolean;
+  step?: number;
+  integer?: boolean;
+  gridPoints?: number;
+  when?: (params: ParamCombo) => boolean;
+}
+
+export type SearchParam = ChoiceParam | RangeParam;
+
+/**
+ * 搜索空间：参数按声明顺序取值（when 只能看它前面的参数），
+ * accept 过滤参数之间的约束（比如 minRsi 必须 < maxRsi）
+ */
+export interface SearchSpace {
+  params: Record<string, SearchParam>;
+  accept?: (params: ParamCombo) => boolean;
+}
+
+const DEFAULT_GRID_POINTS = 5;
+
+/**
+ * 参数在当前这组取值下是否生效（没有 when 的参数总是生效）
+ */
+export function isActive(param: SearchParam, partial: ParamCombo): boolean {
+  return param.when ? param.when(partial) : true;
+}
+
+/**
+ * 整组参数是否满足空间的约束
+ */
+export function acceptCombo(space: SearchSpace, combo: ParamCombo): boolean {
+  return space.accept ? space.accept(combo) : true;
+}
+
+/**
+ * 同一组参数的唯一 key（去重 / 缓存用），按参数名排序
+ */
+export function comboKey(combo: ParamCombo): string {
+  return JSON.stringify(
+    Object.keys(combo)
+      .sort()
+      .map((k) => [k, combo[k]])
+  );
+}
+
+/**
+ * [0, 1) 上的一个点映射成参数取值（随机 / 拉丁超立方 / TPE 都在单位区间里采样）
+ */
+export function fromUnit(param: SearchParam, u: number): ParamValue {
+  const t = Math.min(Math.max(u, 0), 1);
+  if (param.type === "choice") {
+    const index = Math.min(Math.floor(t * param.values.length), param.values.length - 1);
+    return param.values[index]!;
+  }
+
+  const { min, max } = param;
+  return snap(
+    param,
+    param.log
+      ? Math.exp(Math.log(min) + t * (Math.log(max) - Math.log(min)))
+      : min + t * (max - min)
+  );
+}
+
+/**
+ * 对齐到 step / 取整，并去掉 0.007 + 0.0005 这种浮点尾巴
+ */
+function snap(param: RangeParam, raw: number): number {
+  let v = raw;
+  if (param.step) {
+    v = Math.min(param.min + Math.round((v - param.min) / param.step) * param.step, param.max);
+  }
+  if (param.integer) v = Math.round(v);
+  return Number(v.toPrecision(10));
+}
+
+/**
+ * 区间参数的取值映射回 [0, 1]（fromUnit 的反函数，TPE 建模用）
+ */
+export function toUnit(param: RangeParam, value: number): number {
+  const { min, max } = param;
+  if (max === min) return 0.5;
+  const t = param.log
+    ? (Math.log(value) - Math.log(min)) / (Math.log(max) - Math.log(min))
+    : (value - min) / (max - min);
+  return Math.min(Math.max(t, 0), 1);
+}
+
+/**
+ * 网格搜索时一个参数要试的所有值
+ */
+export function gridValues(param: SearchParam): ParamValue[] {
+  if (param.type === "choice") return [...param.values];
+
+  const values: ParamValue[] = [];
+  if (param.step) {
+    const n = Math.floor((param.max - param.min) / param.step + 1e-9);
+    for (let k = 0; k <= n; k++) values.push(snap(param, param.min + k * param.step));
+  } else {
+    const points = param.gridPoints ?? DEFAULT_GRID_POINTS;
+    for (let k = 0; k < points; k++) values.push(fromUnit(param, points === 1 ? 0.5 : k / (points - 1)));
+  }
+  return [...new Set(values)];
+}
+
+/**
+ * 把搜索空间展开成网格上所有合法组合：第一个参数在最外层循环（和手写嵌套 for 的顺序一样），
+ * 不生效的条件参数不出现在组合里
+ */
+export function expandGrid(space: SearchSpace): ParamCombo[] {
+  let combos: ParamCombo[] = [{}];
+  for (const [key, param] of Object.entries(space.params)) {
+    const values = gridValues(param);
+    if (values.length === 0) {
+      throw new Error(`搜索空间里 ${key} 没有候选值`);
+    }
+    combos = combos.flatMap((combo) =>
+      isActive(param, combo)
+        ? values.map((v) => ({ ...combo, [key]: v }))
+        : [combo]
+    );
+  }
+
+  const seen = new Set<string>();
+  return combos.filter((combo) => {
+    const key = comboKey(combo);
+    if (seen.has(key) || !acceptCombo(space, combo)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * 按一组单位区间坐标取参数（坐标按参数声明顺序），不生效的参数跳过
+ */
+export function comboFromUnits(
+  space: SearchSpace,
+  units: (key: string, index: number) => number
+): ParamCombo {
+  const combo: ParamCombo = {};
+  Object.entries(space.params).forEach(([key, param], index) => {
+    if (isActive(param, combo)) combo[key] = fromUnit(param, units(key, index));
+  });
+  return combo;
+}
+
+/**
+ * 可复现的伪随机数（mulberry32），同一个 seed 每次采样结果一样
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 从注册的策略 paramSchema 生成搜索空间：
+ * - boolean 参数 -> [true, false]
+ * - 有 min / max 的数值参数 -> 这个区间（默认值是整数就按整数取）
+ * - ranges 里给的参数覆盖上面的，也能补上 schema 里没写 max 的参数（不能超出 schema 的范围）；
+ *   schema 里没有的参数（stopLossPct 这种引擎参数）原样加进来
+ * 只写了 min 的数值参数不给 ranges 就不搜（保持默认值）
+ */
+export function searchSpaceFromStrategy(
+  name: string,
+  ranges: Record<string, SearchParam> = {}
+): SearchSpace {
+  const strategy = getStrategy(name);
+  const params: Record<string, SearchParam> = {};
+
+  for (const [key, spec] of Object.entries(strategy.paramSchema)) {
+    const override = ranges[key];
+    if (override) {
+      if (override.type === "range") {
+        if (
+          (spec.min !== undefined && override.min < spec.min) ||
+          (spec.max !== undefined && override.max > spec.max)
+        ) {
+          throw new Error(
+            `策略 ${name} 参数 ${key} 的搜索区间 [${override.min}, ${override.max}] 超出范围 [${spec.min ?? "-∞"}, ${spec.max ?? "+∞"}]`
+          );
+        }
+      }
+      params[key] = override;
+    } else if (spec.type === "boolean") {
+      params[key] = { type: "choice", values: [true, false] };
+    } else if (spec.min !== undefined && spec.max !== undefined) {
+      params[key] = {
+        type: "range",
+        min: spec.min,
+        max: spec.max,
+        ...(Number.isInteger(spec.default) ? { integer: true } : {}),
+      };
+    }
+  }
+
+  for (const [key, param] of Object.entries(ranges)) {
+    if (!(key in params)) params[key] = param;
+  }
+
+  return { params };
+}
+
+/**
+ * sweep-v3 的参数空间（walk-forward 每个窗口重新优化也用这套）
+ */
+export const V3_SWEEP_SPACE: SearchSpace = {
+  params: {
+    stopLossPct: { type: "choice", values: [0.006, 0.008, 0.01] },          // 0.6% / 0.8% / 1%
+    takeProfitPct: { type: "choice", values: [0.04, 0.05, 0.06] },          // 4% / 5% / 6%
+    minAtrPct: { type: "choice", values: [0.007, 0.0075, 0.008, 0.009] },   // ATR / price
+    maxRsiForEntry: { type: "choice", values: [65, 70, 75] },
+    minRsiForEntry: { type: "choice", values: [25, 30, 35] },
+  },
+  // RSI 区间要合法：minRsi < maxRsi
+  accept: (p) => Number(p.minRsiForEntry) < Number(p.maxRsiForEntry),
+};
@@ -0,0 +1,42 @@
+// src/backtest/search-worker.ts
+// 扫参 worker：启动时拿到共享K线 + 任务定义，之后一组一组收参数、回传结果（见 parallel-search.ts）
+// 回测引擎只吃 Candle[]，所以启动时从共享列存还原一份对象数组：每个 worker 各占一份K线内存，
+// 共享列存省掉的只是 workerData 的结构化克隆（传输 / 序列化）
+import { parentPort, workerData } from "node:worker_threads";
+import type { ParamCombo } from "./search-space.js";
+import { evaluateJob, type Datasets, type SearchJob } from "./search-job.js";
+import { fromSharedCandles, type SharedCandles } from "./shared-candles.js";
+
+export interface WorkerInit {
+  job: SearchJob;
+  datasets: Record<string, SharedCandles>;
+}
+
+export interface WorkerTask {
+  index: number;
+  params: ParamCombo;
+}
+
+export type WorkerReply =
+  | { index: number; result: ReturnType<typeof evaluateJob> }
+  | { index: number; error: string };
+
+if (parentPort) {
+  const port = parentPort;
+  const { job, datasets: shared } = workerData as WorkerInit;
+
+  const datasets: Datasets = {};
+  for (const [name, candles] of Object.entries(shared)) {
+    datasets[name] = fromSharedCandles(candles);
+  }
+
+  port.on("message", ({ index, params }: WorkerTask) => {
+    let reply: WorkerReply;
+    try {
+      reply = { index, result: evaluateJob(job, datasets, params) };
+    } catch (err) {
+      reply = { index, error: err instanceof Error ? err.message : String(err) };
+    }
+    port.postMessage(reply);
+  });
+}
@@ -0,0 +1,70 @@
+// src/backtest/sensitivity.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ParamSpec } from "../strategy/types.js";
+import {
+  parsePerturbationOverrides,
+  perturbationTargets,
+  perturbedValues,
+} from "./sensitivity.js";
+
+const SCHEMA: Record<string, ParamSpec> = {
+  emaFast: { type: "number", default: 50, min: 2, description: "快 EMA" },
+  version: { type: "number", default: 3, min: 2, max: 3, description: "版本" },
+  useFilter: { type: "boolean", default: true, description: "开关" },
+};
+
+describe("扰动参数从配置 + paramSchema 推出来", () => {
+  test("配置顶层数值字段 + schema 数值参数都在，布尔 / 对象 / 字符串不在", () => {
+    const targets = perturbationTargets(
+      { strategy: "x", atrPeriod: 14, stopLossPct: 0.006, useFilter: true, leverageLevels: [3, 5] },
+      SCHEMA
+    );
+    assert.deepEqual(
+      targets.map((t) => t.param).sort(),
+      ["atrPeriod", "emaFast", "stopLossPct", "version"]
+    );
+    const emaFast = targets.find((t) => t.param === "emaFast")!;
+    assert.equal(emaFast.base, 50); // 配置里没写 -> schema 默认值
+    assert.deepEqual(emaFast.step, { step: 5, count: 2 });
+    assert.deepEqual(
+      targets.find((t) => t.param === "stopLossPct")!.step,
+      { step: 0.0012, count: 2 }
+    );
+  });
+
+  test("步长覆盖优先，count = 0 不扰动", () => {
+    const targets = perturbationTargets({ atrPeriod: 14, emaFast: 60 }, SCHEMA, {
+      emaFast: { step: 10, count: 1 },
+      atrPeriod: { step: 1, count: 0 },
+    });
+    assert.equal(targets.some((t) => t.param === "atrPeriod"), false);
+    const emaFast = targets.find((t) => t.param === "emaFast")!;
+    assert.equal(emaFast.base, 60);
+    assert.deepEqual(emaFast.step, { step: 10, count: 1 });
+  });
+
+  test("超出 schema 范围的取值跳过", () => {
+    const version = perturbationTargets({}, SCHEMA).find((t) => t.param === "version")!;
+    assert.deepEqual(
+      perturbedValues(version.base, version.step, version).map((v) => v.value),
+      [2, 3]
+    );
+  });
+});
+
+describe("环境变量里的步长覆盖", () => {
+  test("param=step[:count]，count 默认 2", () => {
+    assert.deepEqual(parsePerturbationOverrides(" emaFast=10:1, stopLossPct=0.002 ,"), {
+      emaFast: { step: 10, count: 1 },
+      stopLossPct: { step: 0.002, count: 2 },
+    });
+    assert.deepEqual(parsePerturbationOverrides(""), {});
+  });
+
+  test("格式不对直接报错", () => {
+    for (const text of ["emaFast", "emaFast=abc", "emaFast=-1", "emaFast=1:x"]) {
+      assert.throws(() => parsePerturbationOverrides(text), /扰动步长写错了/);
+    }
+  });
+});
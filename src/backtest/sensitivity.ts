@@ -0,0 +1,292 @@
+// src/backtest/sensitivity.ts
+import type { WalkForwardResult } from "./walk-forward.js";
+import type { ParamSpec } from "../strategy/types.js";
+
+/**
+ * 一个参数怎么扰动：基准值 ± step × 1..count（<= 0 的值跳过）
+ */
+export interface PerturbationStep {
+  step: number;
+  count: number;
+}
+
+/**
+ * 参数名 -> 扰动步长（参数名就是 strategy.json 里的字段名）
+ */
+export type PerturbationSpec = Record<string, PerturbationStep>;
+
+/**
+ * 要扰动的一个参数：基准值 + 步长，min / max 来自策略 paramSchema（超出范围的取值跳过）
+ */
+export interface PerturbationTarget {
+  param: string;
+  base: number;
+  step: PerturbationStep;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * 扰动后的取值，offset = 偏离基准几步（0 = 基准本身），从小到大；
+ * <= 0 或超出 [min, max] 的取值跳过
+ */
+export function perturbedValues(
+  base: number,
+  { step, count }: PerturbationStep,
+  bounds: { min?: number; max?: number } = {}
+): { offset: number; value: number }[] {
+  if (step <= 0 || count < 1) {
+    throw new Error(`扰动步长必须 > 0、步数 >= 1（step=${step}, count=${count}）`);
+  }
+  const values: { offset: number; value: number }[] = [];
+  for (let offset = -count; offset <= count; offset++) {
+    // toPrecision 去掉 0.007 + 0.00125 这种浮点尾巴，表里好看
+    const value = Number((base + offset * step).toPrecision(10));
+    if (value <= 0) continue;
+    if (bounds.min !== undefined && value < bounds.min) continue;
+    if (bounds.max !== undefined && value > bounds.max) continue;
+    values.push({ offset, value });
+  }
+  return values;
+}
+
+/**
+ * 没指定步长时的默认扰动：
+ * - 整数（周期 / 根数 / RSI 阈值这类）：± 约 10%（至少 1），2 步
+ * - 小数（百分比 / 倍数）：± 约 20%（两位有效数字），2 步
+ */
+export function defaultPerturbationStep(base: number): PerturbationStep {
+  if (Number.isInteger(base)) {
+    return { step: Math.max(1, Math.round(Math.abs(base) * 0.1)), count: 2 };
+  }
+  return { step: Number((Math.abs(base) * 0.2).toPrecision(2)), count: 2 };
+}
+
+/**
+ * 从配置推出要扰动哪些参数：配置顶层所有数值字段 + 策略 paramSchema 里的数值参数
+ * （配置里没写的用 schema 默认值当基准）。
+ * 步长优先用 overrides，否则按 defaultPerturbationStep；overrides 里 count = 0 表示不扰动这个参数。
+ * 基准为 0 又没指定步长的参数跳过（没法按比例定步长）
+ */
+export function perturbationTargets(
+  cfg: Record<string, unknown>,
+  paramSchema: Record<string, ParamSpec>,
+  overrides: PerturbationSpec = {}
+): PerturbationTarget[] {
+  const params = new Set<string>();
+  for (const [key, value] of Object.entries(cfg)) {
+    if (typeof value === "number") params.add(key);
+  }
+  for (const [key, spec] of Object.entries(paramSchema)) {
+    if (spec.type === "number") params.add(key);
+  }
+
+  const targets: PerturbationTarget[] = [];
+  for (const param of params) {
+    const spec = paramSchema[param];
+    const raw = cfg[param];
+    const base = typeof raw === "number" ? raw : (spec?.default as number);
+    const override = overrides[param];
+    if (override?.count === 0) continue;
+    if (!override && base === 0) continue;
+
+    targets.push({
+      param,
+      base,
+      step: override ?? defaultPerturbationStep(base),
+      ...(spec?.min !== undefined ? { min: spec.min } : {}),
+      ...(spec?.max !== undefined ? { max: spec.max } : {}),
+    });
+  }
+  return targets;
+}
+
+/**
+ * 解析命令行 / 环境变量里的步长覆盖："stopLossPct=0.001:2,emaFast=10"
+ * （param=step[:count]，不写 count 默认 2；count = 0 表示不扰动），格式不对直接报错
+ */
+export function parsePerturbationOverrides(text: string): PerturbationSpec {
+  const spec: PerturbationSpec = {};
+  for (const part of text.split(",")) {
+    const item = part.trim();
+    if (item === "") continue;
+    const match = /^([A-Za-z_]\w*)=([^:]+)(?::(\d+))?$/.exec(item);
+    const step = match ? Number(match[2]) : NaN;
+    if (!match || !Number.isFinite(step) || step <= 0) {
+      throw new Error(`扰动步长写错了: "${item}"，格式是 param=step[:count]，step > 0`);
+    }
+    spec[match[1]!] = { step, count: match[3] !== undefined ? Number(match[3]) : 2 };
+  }
+  return spec;
+}
+
+/**
+ * 某个参数取某个值时，整段 walk-forward 的 Test 表现
+ */
+export interface SensitivityRow {
+  param: string;
+  offset: number;             // 偏离基准几步
+  value: number;
+  windows: number;
+  oosReturnPct: number;       // 所有 Test 段拼接后的复利收益
+  oosMaxDrawdownPct: number;
+  avgTestReturnPct: number;   // 各 Test 段收益的平均
+  worstTestReturnPct: number;
+  positiveWindows: number;    // Test 收益 > 0 的窗口数
+  trades: number;
+}
+
+/**
+ * 一个参数的整张扰动表 + 是否"锋利"
+ */
+export interface ParamSensitivity {
+  param: string;
+  base: number;
+  rows: SensitivityRow[];     // 按 offset 从小到大，包含基准（offset = 0）
+  sharp: boolean;
+  note: string;
+}
+
+/**
+ * 一次 walk-forward 的结果压成表里的一行
+ */
+export function sensitivityRow(
+  param: string,
+  offset: number,
+  value: number,
+  wf: WalkForwardResult
+): SensitivityRow {
+  const testReturns = wf.windows.map((w) => w.test.totalReturnPct);
+  return {
+    param,
+    offset,
+    value,
+    windows: wf.windows.length,
+    oosReturnPct: wf.oosMetrics.compoundReturnPct,
+    oosMaxDrawdownPct: wf.oosMetrics.maxDrawdownPct,
+    avgTestReturnPct:
+      testReturns.length > 0
+        ? testReturns.reduce((a, b) => a + b, 0) / testReturns.length
+        : 0,
+    worstTestReturnPct: testReturns.length > 0 ? Math.min(...testReturns) : 0,
+    positiveWindows: testReturns.filter((r) => r > 0).length,
+    trades: wf.oosTrades.length,
+  };
+}
+
+/**
+ * 判断参数是否"锋利"：基准的样本外收益为正，但只挪 sharpSteps 步以内就变成 <= 0
+ * （README 里 minAtrPct 那种一动就崩的阈值）
+ */
+export function classifySensitivity(
+  param: string,
+  base: number,
+  rows: SensitivityRow[],
+  sharpSteps = 1
+): ParamSensitivity {
+  const baseline = rows.find((r) => r.offset === 0);
+  if (!baseline) {
+    throw new Error(`参数 ${param} 的扰动表里没有基准值`);
+  }
+
+  if (baseline.oosReturnPct <= 0) {
+    return {
+      param,
+      base,
+      rows,
+      sharp: false,
+      note: "基准本身样本外就不赚钱，谈不上稳健",
+    };
+  }
+
+  const flipped = rows.filter(
+    (r) =>
+      r.offset !== 0 &&
+      Math.abs(r.offset) <= sharpSteps &&
+      r.oosReturnPct <= 0
+  );
+  if (flipped.length > 0) {
+    return {
+      param,
+      base,
+      rows,
+      sharp: true,
+      note: `挪到 ${flipped.map((r) => r.value).join(" / ")} 样本外就转负`,
+    };
+  }
+
+  const farFlipped = rows.filter((r) => r.oosReturnPct <= 0);
+  return {
+    param,
+    base,
+    rows,
+    sharp: false,
+    note:
+      farFlipped.length > 0
+        ? `近处稳定，远到 ${farFlipped.map((r) => r.value).join(" / ")} 才转负`
+        : "所有扰动样本外都为正",
+  };
+}
+
+/**
+ * 扰动表导出 CSV（每个参数每个取值一行）
+ */
+export function sensitivityCsv(list: ParamSensitivity[]): string {
+  const header =
+    "param,offset,value,isBase,sharp,windows,oosReturnPct,oosMaxDrawdownPct,avgTestReturnPct,worstTestReturnPct,positiveWindows,trades";
+  const lines = list.flatMap((s) =>
+    s.rows.map((r) =>
+      [
+        r.param,
+        r.offset,
+        r.value,
+        r.offset === 0,
+        s.sharp,
+        r.windows,
+        r.oosReturnPct.toFixed(4),
+        r.oosMaxDrawdownPct.toFixed(4),
+        r.avgTestReturnPct.toFixed(4),
+        r.worstTestReturnPct.toFixed(4),
+        r.positiveWindows,
+        r.trades,
+      ].join(",")
+    )
+  );
+  return [header, ...lines].join("\n");
+}
+
+/**
+ * 打印扰动表 + 锋利参数汇总
+ */
+export function printSensitivityReport(list: ParamSensitivity[]): void {
+  const fmt = (v: number) => v.toFixed(2);
+
+  for (const s of list) {
+    console.log(
+      `\n=== ${s.param}（基准 ${s.base}）${s.sharp ? " ⚠️ 锋利" : ""} ===`
+    );
+    console.table(
+      s.rows.map((r) => ({
+        取值: r.offset === 0 ? `${r.value}（基准）` : r.value,
+        偏移: r.offset,
+        "样本外收益%": fmt(r.oosReturnPct),
+        "样本外DD%": fmt(r.oosMaxDrawdownPct),
+        "平均Test%": fmt(r.avgTestReturnPct),
+        "最差Test%": fmt(r.worstTestReturnPct),
+        正收益窗口: `${r.positiveWindows}/${r.windows}`,
+        笔数: r.trades,
+      }))
+    );
+    console.log(s.note);
+  }
+
+  const sharp = list.filter((s) => s.sharp);
+  console.log("\n=== 锋利参数 ===");
+  if (sharp.length === 0) {
+    console.log("没有：所有参数小幅扰动后样本外都还是正收益。");
+    return;
+  }
+  for (const s of sharp) {
+    console.log(`- ${s.param} = ${s.base}：${s.note}，锁死，不要乱动`);
+  }
+}
@@ -0,0 +1,60 @@
+// src/backtest/shared-candles.ts
+import type { Candle } from "../types/candle.js";
+
+const FIELDS = [
+  "openTime",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "closeTime",
+] as const;
+
+type CandleField = (typeof FIELDS)[number];
+
+/**
+ * 按列存的K线：每个字段一块 SharedArrayBuffer（Float64，毫秒时间戳也能精确存），
+ * 传给 worker 时不拷贝。列本身所有 worker 共用一份，但 fromSharedCandles 还原出的 Candle[] 是各自的拷贝
+ */
+export interface SharedCandles {
+  length: number;
+  columns: Record<CandleField, SharedArrayBuffer>;
+}
+
+/**
+ * Candle[] -> 共享列存
+ */
+export function toSharedCandles(candles: Candle[]): SharedCandles {
+  const columns = {} as Record<CandleField, SharedArrayBuffer>;
+  for (const field of FIELDS) {
+    const buffer = new SharedArrayBuffer(candles.length * Float64Array.BYTES_PER_ELEMENT);
+    const view = new Float64Array(buffer);
+    candles.forEach((c, i) => {
+      view[i] = c[field];
+    });
+    columns[field] = buffer;
+  }
+  return { length: candles.length, columns };
+}
+
+/**
+ * 共享列存 -> Candle[]（worker 里还原一次，之后回测照常用对象数组）
+ */
+export function fromSharedCandles(shared: SharedCandles): Candle[] {
+  const views = FIELDS.map((field) => new Float64Array(shared.columns[field]));
+  const [openTime, open, high, low, close, volume, closeTime] = views;
+  const candles: Candle[] = [];
+  for (let i = 0; i < shared.length; i++) {
+    candles.push({
+      openTime: openTime![i]!,
+      open: open![i]!,
+      high: high![i]!,
+      low: low![i]!,
+      close: close![i]!,
+      volume: volume![i]!,
+      closeTime: closeTime![i]!,
+    });
+  }
+  return candles;
+}
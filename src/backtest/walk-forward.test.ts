@@ -0,0 +1,73 @@
+// src/backtest/walk-forward.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { Candle } from "../types/candle.js";
+import { configForStrategy, type StrategyConfig } from "../backtest-regime.js";
+import {
+  DEFAULT_WALK_FORWARD,
+  MIN_WALK_FORWARD_WINDOWS,
+  runWalkForward,
+  walkForwardHistoryBars,
+  walkForwardSettingsFromEnv,
+  walkForwardWindows,
+} from "./walk-forward.js";
+
+const FOUR_HOURS = 4 * 60 * 60 * 1000;
+
+function loadCandles(file: string): Candle[] {
+  return JSON.parse(readFileSync(new URL(`../../data/${file}`, import.meta.url), "utf8"));
+}
+
+describe("walk-forward 设置", () => {
+  test("没写环境变量用默认窗口，写了的覆盖", () => {
+    const defaults = walkForwardSettingsFromEnv({});
+    assert.equal(defaults.trainDays, DEFAULT_WALK_FORWARD.trainDays);
+    assert.equal(defaults.testDays, DEFAULT_WALK_FORWARD.testDays);
+    assert.equal(defaults.mode, "rolling");
+
+    const custom = walkForwardSettingsFromEnv({
+      WALKFORWARD_TRAIN_DAYS: "120",
+      WALKFORWARD_TEST_DAYS: "30",
+      WALKFORWARD_WINDOWS: "4",
+      WALKFORWARD_MODE: "anchored",
+    });
+    assert.deepEqual(
+      [custom.trainDays, custom.testDays, custom.windows, custom.mode],
+      [120, 30, 4, "anchored"]
+    );
+  });
+
+  test("不是正整数 / 窗口数少于 2 直接报错", () => {
+    assert.throws(() => walkForwardSettingsFromEnv({ WALKFORWARD_TEST_DAYS: "0" }), /正整数/);
+    assert.throws(() => walkForwardSettingsFromEnv({ WALKFORWARD_TRAIN_DAYS: "abc" }), /正整数/);
+    assert.throws(() => walkForwardSettingsFromEnv({ WALKFORWARD_WINDOWS: "1" }), /至少 2 个窗口/);
+  });
+
+  test("按 walkForwardHistoryBars 拉的 4H 历史能切出要的窗口数", () => {
+    for (const windows of [2, 8]) {
+      const settings = { ...walkForwardSettingsFromEnv({}), windows };
+      const { bars4h } = walkForwardHistoryBars(settings, 200);
+      // 最新那根还在走：最后一根收盘时间是 now 之前的某一刻
+      const lastClose = Date.UTC(2026, 0, 1) - 1;
+      const firstOpen = lastClose + 1 - (bars4h - 1) * FOUR_HOURS;
+      assert.ok(walkForwardWindows(firstOpen, lastClose, settings).length >= windows);
+    }
+  });
+});
+
+describe("runWalkForward", () => {
+  test("窗口少于 minWindows 直接报错，不悄悄只跑一个窗口", () => {
+    const candles4h = loadCandles("btc-4h.json");
+    const candles1d = loadCandles("btc-1d.json");
+    const cfg = configForStrategy({ strategy: "trend-v1" } as StrategyConfig);
+    assert.throws(
+      () =>
+        runWalkForward(candles4h, candles1d, cfg, {
+          ...DEFAULT_WALK_FORWARD,
+          minWindows: MIN_WALK_FORWARD_WINDOWS,
+        }),
+      /只有 0 个有效窗口（至少要 2 个/
+    );
+  });
+});
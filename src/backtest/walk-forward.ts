@@ -0,0 +1,410 @@
+// src/backtest/walk-forward.ts
+import type { Candle, Trade } from "../types/candle.js";
+import {
+  runBacktestWithConfig,
+  type StrategyConfig,
+} from "../backtest-regime.js";
+import type { BacktestResult } from "./engine.js";
+import {
+  computeMetrics,
+  type BarEquityPoint,
+  type PerformanceMetrics,
+  type ScoreTarget,
+} from "./metrics.js";
+import {
+  backtestEvaluator,
+  metricObjective,
+  runSearch,
+  type SearchMethod,
+} from "./param-search.js";
+import type { ParamCombo, SearchSpace } from "./search-space.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FOUR_HOUR_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * 窗口怎么往前走：
+ * - rolling  : 训练窗口长度固定，整体往后滑 testDays
+ * - anchored : 训练起点固定在最早那根，训练终点每次往后推 testDays（训练集越来越长）
+ */
+export type WalkForwardMode = "rolling" | "anchored";
+
+export interface WalkForwardWindow {
+  index: number; // 从 1 开始
+  trainStart: number;
+  trainEnd: number;
+  testStart: number; // = trainEnd
+  testEnd: number;
+}
+
+export interface WalkForwardWindowOptions {
+  trainDays: number;
+  testDays: number;
+  mode: WalkForwardMode;
+}
+
+/**
+ * 生成 [firstTime, lastTime] 里所有完整的 train / test 窗口（测试段首尾相接、互不重叠）
+ */
+export function walkForwardWindows(
+  firstTime: number,
+  lastTime: number,
+  { trainDays, testDays, mode }: WalkForwardWindowOptions
+): WalkForwardWindow[] {
+  if (trainDays <= 0 || testDays <= 0) {
+    throw new Error(`Walk-Forward 窗口长度必须 > 0（train=${trainDays}, test=${testDays}）`);
+  }
+  const trainMs = trainDays * DAY_MS;
+  const testMs = testDays * DAY_MS;
+
+  const windows: WalkForwardWindow[] = [];
+  for (let testStart = firstTime + trainMs; testStart + testMs <= lastTime; testStart += testMs) {
+    windows.push({
+      index: windows.length + 1,
+      trainStart: mode === "anchored" ? firstTime : testStart - trainMs,
+      trainEnd: testStart,
+      testStart,
+      testEnd: testStart + testMs,
+    });
+  }
+  return windows;
+}
+
+/**
+ * 取完全落在 [startMs, endMs] 里的K线
+ */
+export function sliceByTime(
+  candles: Candle[],
+  startMs: number,
+  endMs: number
+): Candle[] {
+  return candles.filter(
+    (c) => c.openTime >= startMs && c.closeTime <= endMs
+  );
+}
+
+/**
+ * 带暖机前缀的窗口：candles = 窗口前最多 warmupBars 根 + 窗口本身，
+ * 前 prefixBars 根只给指标用（传给回测引擎的 warmupPrefixBars），不交易也不计入统计
+ */
+export interface WarmupSlice {
+  candles: Candle[];
+  prefixBars: number; // 实际带上的前缀根数（数据开头的窗口可能不够 warmupBars）
+}
+
+/**
+ * 取 [startMs, endMs] 的K线，并在前面接上最多 warmupBars 根历史
+ */
+export function sliceWithWarmup(
+  candles: Candle[],
+  startMs: number,
+  endMs: number,
+  warmupBars: number
+): WarmupSlice {
+  const window = sliceByTime(candles, startMs, endMs);
+  const firstIndex = candles.findIndex((c) => c.openTime >= startMs);
+  const prefix =
+    firstIndex > 0
+      ? candles.slice(Math.max(0, firstIndex - warmupBars), firstIndex)
+      : [];
+  return { candles: [...prefix, ...window], prefixBars: prefix.length };
+}
+
+/**
+ * 截到 endMs 为止已经收盘的K线（日线按窗口终点截，回测只看得到窗口结束前的历史）
+ */
+export function candlesUntil(candles: Candle[], endMs: number): Candle[] {
+  return candles.filter((c) => c.closeTime <= endMs);
+}
+
+/**
+ * 把各个测试段的逐K线权益（各自以 1 为初始）首尾接成一条样本外曲线：
+ * 后一段整体乘上前一段的期末权益
+ */
+export function stitchEquity(segments: BarEquityPoint[][]): BarEquityPoint[] {
+  const stitched: BarEquityPoint[] = [];
+  let scale = 1;
+  for (const segment of segments) {
+    for (const p of segment) {
+      stitched.push({
+        time: p.time,
+        equity: p.equity * scale,
+        equityLow: p.equityLow * scale,
+      });
+    }
+    const last = segment[segment.length - 1];
+    if (last) scale *= last.equity;
+  }
+  return stitched;
+}
+
+/**
+ * 某个参数在各窗口里选中的值怎么漂
+ */
+export interface ParamDrift {
+  param: string;
+  values: ParamCombo[string][]; // 按窗口顺序
+  distinct: number;             // 出现过几种取值
+  changes: number;              // 相邻窗口换了几次
+  min: number | null;           // 数值参数才有
+  max: number | null;
+}
+
+/**
+ * 参数漂移：各窗口选出来的参数逐个比较（换得越勤 = 越像在拟合噪音）
+ */
+export function parameterDrift(chosen: ParamCombo[]): ParamDrift[] {
+  const params = [...new Set(chosen.flatMap((c) => Object.keys(c)))];
+  return params.map((param) => {
+    const values = chosen.map((c) => c[param]!);
+    let changes = 0;
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] !== values[i - 1]) changes++;
+    }
+    const numeric = values.filter((v): v is number => typeof v === "number");
+    const isNumeric = numeric.length > 0 && numeric.length === values.length;
+    return {
+      param,
+      values,
+      distinct: new Set(values).size,
+      changes,
+      min: isNumeric ? Math.min(...numeric) : null,
+      max: isNumeric ? Math.max(...numeric) : null,
+    };
+  });
+}
+
+/**
+ * 训练段扫参的结果
+ */
+export interface TrainPick {
+  params: ParamCombo;
+  score: number;
+}
+
+export interface TrainSearchOptions {
+  space: SearchSpace;      // 候选参数（盖到 cfg 上）
+  scoreTarget: ScoreTarget;
+  minTrades: number;       // 笔数不够的组合不参与
+  method?: SearchMethod;   // 默认 "grid"
+  trials?: number;         // random / lhs / tpe 每个窗口跑几组
+  seed?: number;
+}
+
+/**
+ * 训练段扫参：在 space 里搜（默认网格），按 scoreTarget 取最高分；一个合格的都没有就返回 null
+ */
+export function optimizeOnTrain(
+  train: WarmupSlice,
+  train1d: Candle[],
+  cfg: StrategyConfig,
+  { space, scoreTarget, minTrades, method = "grid", trials, seed }: TrainSearchOptions
+): TrainPick | null {
+  const { best } = runSearch(
+    space,
+    backtestEvaluator(train.candles, train1d, cfg, {
+      warmupPrefixBars: train.prefixBars,
+    }),
+    metricObjective(scoreTarget, [{ metric: "totalTrades", min: minTrades }]),
+    {
+      method,
+      ...(trials !== undefined ? { trials } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+    }
+  );
+  return best ? { params: best.params, score: best.score } : null;
+}
+
+export interface WalkForwardOptions extends WalkForwardWindowOptions {
+  warmupBars: number;            // 每个窗口前面带多少根 4H 历史只算指标
+  minWindows?: number;           // 有效窗口少于这么多直接报错（默认不检查）
+  search?: TrainSearchOptions;   // 不传 = 不扫参，train / test 都用 cfg
+  /** 每跑完一个窗口回调一次（打日志用） */
+  onWindow?: (w: WalkForwardWindowResult) => void;
+}
+
+/**
+ * 默认窗口：训练 365 天 / 测试 90 天、rolling、前面带 600 根 4H（约 100 天）暖机：
+ * first 种子的 EMA200 在 600 根后种子权重已经衰减到 < 1%
+ */
+export const DEFAULT_WALK_FORWARD: WalkForwardWindowOptions & { warmupBars: number } = {
+  trainDays: 365,
+  testDays: 90,
+  mode: "rolling",
+  warmupBars: 600,
+};
+
+/**
+ * 少于这么多个窗口就不算 walk-forward（一个窗口只是一次普通的样本外测试，看不出稳不稳），直接报错
+ */
+export const MIN_WALK_FORWARD_WINDOWS = 2;
+
+/**
+ * 命令行脚本的 walk-forward 设置：窗口 + 打算跑几个窗口（按这个决定拉多少历史）
+ */
+export interface WalkForwardSettings extends WalkForwardWindowOptions {
+  warmupBars: number;
+  windows: number;
+}
+
+function positiveIntEnv(
+  env: Record<string, string | undefined>,
+  key: string,
+  fallback: number
+): number {
+  const raw = env[key];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`环境变量 ${key}=${raw} 不合法，要正整数`);
+  }
+  return value;
+}
+
+/**
+ * 从环境变量读 walk-forward 设置，没写的用 DEFAULT_WALK_FORWARD：
+ * WALKFORWARD_TRAIN_DAYS / WALKFORWARD_TEST_DAYS / WALKFORWARD_WARMUP_BARS（4H 根数）/
+ * WALKFORWARD_WINDOWS（默认 8 个）/ WALKFORWARD_MODE=anchored（默认 rolling）
+ */
+export function walkForwardSettingsFromEnv(
+  env: Record<string, string | undefined> = process.env
+): WalkForwardSettings {
+  const windows = positiveIntEnv(env, "WALKFORWARD_WINDOWS", 8);
+  if (windows < MIN_WALK_FORWARD_WINDOWS) {
+    throw new Error(
+      `WALKFORWARD_WINDOWS=${windows} 太少，至少 ${MIN_WALK_FORWARD_WINDOWS} 个窗口`
+    );
+  }
+  return {
+    trainDays: positiveIntEnv(env, "WALKFORWARD_TRAIN_DAYS", DEFAULT_WALK_FORWARD.trainDays),
+    testDays: positiveIntEnv(env, "WALKFORWARD_TEST_DAYS", DEFAULT_WALK_FORWARD.testDays),
+    mode: env.WALKFORWARD_MODE === "anchored" ? "anchored" : "rolling",
+    warmupBars: positiveIntEnv(env, "WALKFORWARD_WARMUP_BARS", DEFAULT_WALK_FORWARD.warmupBars),
+    windows,
+  };
+}
+
+/**
+ * 要跑出 settings.windows 个窗口，4H / 日线各拉多少根（从最新往前数）：
+ * 天数 = 训练 + windows × 测试 + 1 天余量（最新那根还没收盘）；
+ * 日线再往前多拉 regime 判断器的暖机，第一个训练段一开始就有 regime
+ */
+export function walkForwardHistoryBars(
+  settings: WalkForwardSettings,
+  regimeWarmupDays: number
+): { bars4h: number; bars1d: number } {
+  const days = settings.trainDays + settings.windows * settings.testDays + 1;
+  return {
+    bars4h: (days * DAY_MS) / FOUR_HOUR_MS,
+    bars1d: days + regimeWarmupDays,
+  };
+}
+
+export interface WalkForwardWindowResult {
+  window: WalkForwardWindow;
+  trainBars: number;    // 不含暖机前缀
+  testBars: number;
+  trainPrefixBars: number;
+  testPrefixBars: number;
+  pick: TrainPick | null; // 训练段选出来的参数（不扫参 / 没有合格组合时为 null，沿用 cfg）
+  train: BacktestResult;
+  test: BacktestResult;
+}
+
+export interface WalkForwardResult {
+  windows: WalkForwardWindowResult[];
+  oosTrades: Trade[];               // 所有 Test 段的交易
+  oosEquity: BarEquityPoint[];      // 所有 Test 段拼接的样本外权益
+  oosMetrics: PerformanceMetrics;   // 样本外整体绩效
+}
+
+function assertEnoughWindows(
+  count: number,
+  minWindows: number,
+  { trainDays, testDays }: WalkForwardWindowOptions
+): void {
+  if (count < minWindows) {
+    throw new Error(
+      `Walk-Forward 只有 ${count} 个有效窗口（至少要 ${minWindows} 个，训练 ${trainDays} 天 / 测试 ${testDays} 天）：` +
+        "拉更长的历史，或者把 WALKFORWARD_TRAIN_DAYS / WALKFORWARD_TEST_DAYS 调短"
+    );
+  }
+}
+
+/**
+ * 跑一遍 walk-forward：每个窗口（可选）在 Train 段扫参，选出的参数用到紧接着的 Test 段，
+ * Test 段拼成一条样本外曲线。4H 带暖机前缀，日线截到各自窗口结束为止。
+ * Train 不够 200 根 / Test 不够 50 根 / 回测失败的窗口跳过。
+ * 传了 minWindows 时，切出来的 / 最后有效的窗口少于这么多直接报错（切窗口时就查，不白跑扫参）
+ */
+export function runWalkForward(
+  candles4h: Candle[],
+  candles1d: Candle[],
+  cfg: StrategyConfig,
+  { warmupBars, minWindows = 0, search, onWindow, ...windowOptions }: WalkForwardOptions
+): WalkForwardResult {
+  const first = candles4h[0];
+  const last = candles4h[candles4h.length - 1];
+  const windows =
+    first && last
+      ? walkForwardWindows(first.openTime, last.closeTime, windowOptions)
+      : [];
+  assertEnoughWindows(windows.length, minWindows, windowOptions);
+
+  const results: WalkForwardWindowResult[] = [];
+  const oosTrades: Trade[] = [];
+  const oosSegments: BarEquityPoint[][] = [];
+  const oosCandles: Candle[] = [];
+
+  for (const w of windows) {
+    const train = sliceWithWarmup(candles4h, w.trainStart, w.trainEnd, warmupBars);
+    const test = sliceWithWarmup(candles4h, w.testStart, w.testEnd, warmupBars);
+    const trainBars = train.candles.length - train.prefixBars;
+    const testBars = test.candles.length - test.prefixBars;
+    if (trainBars < 200 || testBars < 50) continue;
+
+    const train1d = candlesUntil(candles1d, w.trainEnd);
+    const test1d = candlesUntil(candles1d, w.testEnd);
+
+    const pick = search ? optimizeOnTrain(train, train1d, cfg, search) : null;
+    const windowCfg: StrategyConfig = { ...cfg, ...(pick?.params ?? {}) };
+
+    const trainRet = runBacktestWithConfig(train.candles, train1d, windowCfg, {
+      warmupPrefixBars: train.prefixBars,
+    });
+    const testRet = runBacktestWithConfig(test.candles, test1d, windowCfg, {
+      warmupPrefixBars: test.prefixBars,
+    });
+    if (!trainRet?.result || !testRet?.result) continue;
+
+    const result: WalkForwardWindowResult = {
+      window: w,
+      trainBars,
+      testBars,
+      trainPrefixBars: train.prefixBars,
+      testPrefixBars: test.prefixBars,
+      pick,
+      train: trainRet.result,
+      test: testRet.result,
+    };
+    results.push(result);
+    onWindow?.(result);
+
+    oosTrades.push(...testRet.result.trades);
+    oosSegments.push(testRet.result.barEquity);
+    oosCandles.push(...test.candles.slice(test.prefixBars));
+  }
+
+  assertEnoughWindows(results.length, minWindows, windowOptions);
+
+  const oosEquity = stitchEquity(oosSegments);
+  return {
+    windows: results,
+    oosTrades,
+    oosEquity,
+    oosMetrics: computeMetrics(
+      { trades: oosTrades, barEquity: oosEquity },
+      oosCandles
+    ),
+  };
+}
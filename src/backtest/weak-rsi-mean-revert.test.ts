@@ -0,0 +1,22 @@
+// src/backtest/weak-rsi-mean-revert.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { Candle } from "../types/candle.js";
+import { backtestWeakRsiMeanRevert } from "./weak-rsi-mean-revert.js";
+
+const candles: Candle[] = JSON.parse(
+  readFileSync(new URL("../../data/btc-4h.json", import.meta.url), "utf8")
+);
+
+describe("弱趋势 RSI 引擎的暖机", () => {
+  test("默认 SMA 种子，从 EMA200 暖机完的第 200 根开始", () => {
+    const result = backtestWeakRsiMeanRevert(candles);
+    assert.ok(result);
+    assert.equal(result.barEquity.length, candles.length - 200);
+    assert.equal(result.barEquity[0]!.time, candles[200]!.closeTime);
+
+    const sma = backtestWeakRsiMeanRevert(candles, { emaSeed: "sma" });
+    assert.deepEqual(result.trades, sma?.trades);
+  });
+});
@@ -1,11 +1,34 @@
 import type { Candle, Trade } from "../types/candle.js";
 import type { BacktestResult } from "./engine.js";
-import { ema } from "../indicators/ema.js";
-import { atr } from "../indicators/atr.js";
-import { rsi } from "../indicators/rsi.js";
-
-// 交易手续费（单边）
-const feeRate = 0.0004;
+import type { EmaSeed } from "../indicators/ema.js";
+import { getStrategy, resolveParams } from "../strategy/registry.js";
+import {
+  SIGNAL_CLOSE_FILL_MODEL,
+  entryFill,
+  isDeferredEntry,
+  stopFill,
+  takeProfitFill,
+  type FillModel,
+} from "./fill-model.js";
+import {
+  LEGACY_COST_MODEL,
+  tradeCosts,
+  slippageFraction,
+  summarizeCosts,
+  type CostModel,
+} from "./cost-model.js";
+import { fundingPct } from "./funding.js";
+import { annotateExcursions } from "./excursion.js";
+import {
+  compoundTrades,
+  computeMetrics,
+  drawdownStats,
+  markToMarketEquity,
+  printDrawdownStats,
+  printMetrics,
+  summarizeTrades,
+} from "./metrics.js";
+import type { FundingRate } from "../types/funding.js";
 
 export interface WeakRsiOptions {
   // 震荡过滤：ATR / price 在这个区间内认为是“可以玩均值回归的波动”
@@ -23,6 +46,20 @@ export interface WeakRsiOptions {
   // 趋势过滤相关
   useTrendFilter?: boolean; // 是否要求 price、EMA50 在 EMA200 上方
   maxEma200Slope?: number;  // EMA200 斜率绝对值小于此值视为“弱趋势/横盘”
+
+  fillModel?: FillModel;    // 成交假设，默认信号收盘价成交
+  costModel?: CostModel;    // 手续费 + 滑点，默认双边 0.04%、无滑点
+  funding?: FundingRate[];  // 永续资金费率序列（升序），不传则不算资金费
+  /**
+   * EMA 种子，默认 "sma"（见 indicators/ema.ts）：暖机完 EMA 就是确定值，开始交易的位置不用再往后挪。
+   * 传 "first" 也是暖机 period 根就开始，这时 EMA 还带着种子的影响（和 engine.ts 的默认一样）
+   */
+  emaSeed?: EmaSeed;
+  /**
+   * 前面多少根只用来算指标、不开仓也不计入统计（和 engine.ts 一样）。
+   * 实际开始交易的位置 = max(策略 warmupBars, warmupPrefixBars)
+   */
+  warmupPrefixBars?: number;
 }
 
 /**
@@ -41,64 +78,80 @@ export function backtestWeakRsiMeanRevert(
     takeProfitPct = 0.02,
     useTrendFilter = true,
     maxEma200Slope = 10, // 斜率“绝对值”允许的最大值，越小越严格
+    fillModel = SIGNAL_CLOSE_FILL_MODEL,
+    costModel = LEGACY_COST_MODEL,
+    funding = [],
+    emaSeed = "sma",
+    warmupPrefixBars = 0,
   } = options;
 
-  if (candles.length < 200) {
-    console.log("K线太少，至少需要200根以上（弱趋势RSI策略）。");
+  // 信号走 registry 里的 weak-rsi 策略（和统一引擎 / 实盘同一份规则）
+  const strategy = getStrategy("weak-rsi");
+  const params = resolveParams(strategy, {
+    minAtrPct,
+    maxAtrPct,
+    rsiBuy,
+    rsiSell,
+    useTrendFilter,
+    maxEma200Slope,
+  });
+
+  // 策略的 EMA200 / ATR14 / RSI14 都暖机完（以及 warmupPrefixBars 之后）才开始
+  const startIndex = Math.max(strategy.warmupBars(params), warmupPrefixBars);
+
+  if (candles.length < startIndex) {
+    console.log(`K线太少，至少需要${startIndex}根以上（弱趋势RSI策略）。`);
     return null;
   }
 
+  const indicators = strategy.computeIndicators(candles, params, { emaSeed });
   const closes = candles.map((c) => c.close);
-  const ema50 = ema(closes, 50);
-  const ema200 = ema(closes, 200);
-  const atr14 = atr(candles, 14);
-  const rsi14 = rsi(closes, 14);
+  const atr14 = indicators.atr14!;
 
   let inPosition = false;
+  let pendingEntry = false; // 信号已出，等下一根K线成交
   let entryPrice = 0;
   let entryTime = 0;
+  let entrySlippage = 0; // 入场那一边的滑点（比例）
 
   const trades: Trade[] = [];
 
-  // === 主循环，从第 200 根开始（指标暖机）===
-  for (let i = 200; i < candles.length; i++) {
+  // === 主循环，从指标暖机完那根开始 ===
+  for (let i = startIndex; i < candles.length; i++) {
     const c = candles[i]!;
     const price = closes[i]!;
-    const e50 = ema50[i]!;
-    const e200 = ema200[i]!;
-    const r = rsi14[i];
-    const a = atr14[i];
-
-    if (r === undefined || a === undefined) continue;
-
-    const atrPct = a / price; // 粗略波动率
-    const ema200Prev = ema200[i - 1]!;
-    const ema200Slope = e200 - ema200Prev;
-
-    // === “弱趋势 / 震荡 + 上方结构”过滤 ===
-    let regimeOk = true;
-
-    if (useTrendFilter) {
-      // 1. 大结构仍然在 EMA200 上方（不要抄刀底）
-      const above200 = price > e200 && e50 > e200;
-
-      // 2. EMA200 不要有很强的上/下趋势（绝对斜率过大就算强趋势）
-      const slopeOk = Math.abs(ema200Slope) <= maxEma200Slope;
-
-      // 3. 波动率在 [minAtrPct, maxAtrPct] 之间，太小没肉吃，太大容易接飞刀
-      const volOk = atrPct >= minAtrPct && atrPct <= maxAtrPct;
+    const { high, low } = c;
 
-      regimeOk = above200 && slopeOk && volOk;
+    // 上一根K线给出的信号，在这根K线成交（next-open / next-vwap）
+    if (pendingEntry) {
+      pendingEntry = false;
+      const fill = entryFill(c, fillModel);
+      inPosition = true;
+      entryPrice = fill.price;
+      entryTime = fill.time;
+      entrySlippage = slippageFraction(costModel.slippage, c, atr14[i]);
     }
 
-    const { high, low } = c;
+    const signal = strategy.decide({
+      candles,
+      i,
+      inPosition,
+      indicators,
+      params,
+    });
 
     if (!inPosition) {
       // === 开仓逻辑：只在震荡 regime + RSI 超跌 + 价格在 EMA50 附近/下方 ===
-      if (regimeOk && r <= rsiBuy && price <= e50) {
-        inPosition = true;
-        entryPrice = price;
-        entryTime = c.closeTime;
+      if (signal === "LONG") {
+        if (isDeferredEntry(fillModel)) {
+          pendingEntry = true;
+        } else {
+          const fill = entryFill(c, fillModel);
+          inPosition = true;
+          entryPrice = fill.price;
+          entryTime = fill.time;
+          entrySlippage = slippageFraction(costModel.slippage, c, atr14[i]);
+        }
       }
     } else {
       // === 持仓：优先 SL / TP，再看 RSI 反弹出场 ===
@@ -112,17 +165,17 @@ export function backtestWeakRsiMeanRevert(
       // 1. 止损优先
       if (low <= stopPrice) {
         shouldExit = true;
-        exitPrice = stopPrice;
+        exitPrice = stopFill("long", c, stopPrice, fillModel);
         exitReason = "SL";
       }
       // 2. 止盈
       else if (high >= tpPrice) {
         shouldExit = true;
-        exitPrice = tpPrice;
+        exitPrice = takeProfitFill("long", c, tpPrice, fillModel);
         exitReason = "TP";
       }
       // 3. RSI 回到/超过 rsiSell，当作“回归均值”，平仓
-      else if (r >= rsiSell) {
+      else if (signal === "CLOSE_LONG") {
         shouldExit = true;
         exitPrice = price;
         exitReason = "MEAN";
@@ -131,18 +184,24 @@ export function backtestWeakRsiMeanRevert(
       if (shouldExit) {
         const exitTime = c.closeTime;
 
-        // 毛收益
-        const grossPnlPct = ((exitPrice - entryPrice) / entryPrice) * 100;
-        // 手续费（双边）
-        const feePct = feeRate * 2 * 100;
-        const pnlPct = grossPnlPct - feePct;
+        const costs = tradeCosts(
+          costModel,
+          "long",
+          entryPrice,
+          exitPrice,
+          entrySlippage,
+          slippageFraction(costModel.slippage, c, atr14[i]),
+          fundingPct(funding, "long", entryTime, exitTime)
+        );
 
         trades.push({
+          side: "long",
           entryTime,
           exitTime,
           entryPrice,
           exitPrice,
-          pnlPct,
+          ...costs,
+          riskPct: stopLossPct * 100,
           exitReason,
         });
 
@@ -157,66 +216,44 @@ export function backtestWeakRsiMeanRevert(
     const exitPrice = last.close;
     const exitTime = last.closeTime;
 
-    const grossPnlPct = ((exitPrice - entryPrice) / entryPrice) * 100;
-    const feePct = feeRate * 2 * 100;
-    const pnlPct = grossPnlPct - feePct;
+    const costs = tradeCosts(
+      costModel,
+      "long",
+      entryPrice,
+      exitPrice,
+      entrySlippage,
+      slippageFraction(costModel.slippage, last, atr14[candles.length - 1]),
+      fundingPct(funding, "long", entryTime, exitTime)
+    );
 
     trades.push({
+      side: "long",
       entryTime,
       exitTime,
       entryPrice,
       exitPrice,
-      pnlPct,
+      ...costs,
+      riskPct: stopLossPct * 100,
       exitReason: "EMA",
     });
   }
 
-  const totalTrades = trades.length;
-  const totalReturnPct = trades.reduce((sum, t) => sum + t.pnlPct, 0);
-  const avgReturnPct = totalTrades > 0 ? totalReturnPct / totalTrades : 0;
-  const wins = trades.filter((t) => t.pnlPct > 0);
-  const winRate = totalTrades > 0 ? (wins.length / totalTrades) * 100 : 0;
-
-  // ====== 权益曲线 & 最大回撤 & 年化 ======
-  const equityCurve: { time: number; equity: number }[] = [];
-  let equity = 1;
-  let peakEquity = 1;
-  let maxDrawdownPct = 0;
-
-  for (const t of trades) {
-    equity *= 1 + t.pnlPct / 100;
-    equityCurve.push({ time: t.exitTime, equity });
-
-    if (equity > peakEquity) {
-      peakEquity = equity;
-    }
-    const dd = ((peakEquity - equity) / peakEquity) * 100;
-    if (dd > maxDrawdownPct) {
-      maxDrawdownPct = dd;
-    }
-  }
+  annotateExcursions(candles, trades);
 
-  let annualizedReturnPct = 0;
-  if (trades.length > 0 && equityCurve.length > 0) {
-    const firstTime = trades[0]!.entryTime;
-    const lastTime = trades[trades.length - 1]!.exitTime;
-    const msDiff = lastTime - firstTime;
-    if (msDiff > 0) {
-      const years = msDiff / (1000 * 60 * 60 * 24 * 365);
-      const finalEquity = equity;
-      annualizedReturnPct = (Math.pow(finalEquity, 1 / years) - 1) * 100;
-    }
-  }
+  // ====== 权益曲线 & 回撤 & 年化（统一走 metrics.ts） ======
+  const { equityCurve, annualizedReturnPct } = compoundTrades(trades);
+  const barEquity = markToMarketEquity(candles.slice(startIndex), trades);
+  const drawdown = drawdownStats(barEquity);
 
   return {
-    totalTrades,
-    totalReturnPct,
-    avgReturnPct,
-    winRate,
+    ...summarizeTrades(trades),
     trades,
     equityCurve,
-    maxDrawdownPct,
+    barEquity,
+    maxDrawdownPct: drawdown.maxDrawdownPct,
+    drawdown,
     annualizedReturnPct,
+    costs: summarizeCosts(trades),
   };
 }
 
@@ -242,6 +279,17 @@ export function printWeakRsiResult(
 
   console.log("最大回撤:", result.maxDrawdownPct.toFixed(2), "%");
   console.log("年化收益（粗略）:", result.annualizedReturnPct.toFixed(2), "%");
+  printDrawdownStats(result.drawdown);
+  printMetrics(computeMetrics(result));
+
+  if (result.costs) {
+    console.log("成本拆分（简单相加）:", {
+      毛收益: result.costs.grossReturnPct.toFixed(2) + "%",
+      手续费: result.costs.feesPct.toFixed(2) + "%",
+      滑点: result.costs.slippagePct.toFixed(2) + "%",
+      资金费: result.costs.fundingPct.toFixed(2) + "%",
+    });
+  }
 
   const slCount = result.trades.filter((t) => t.exitReason === "SL").length;
   const tpCount = result.trades.filter((t) => t.exitReason === "TP").length;
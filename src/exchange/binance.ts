@@ -64,3 +64,10 @@ export async function fetchBtc4hCandles(total: number): Promise<Candle[]> {
 export async function fetchBtc1dCandles(total: number): Promise<Candle[]> {
   return fetchCandles("1d", total);
 }
+
+/**
+ * 拉取 1 小时 K 线（ATR 分形过滤 / 同K线 SL/TP 判断用）
+ */
+export async function fetchBtc1hCandles(total: number): Promise<Candle[]> {
+  return fetchCandles("1h", total);
+}
@@ -1,6 +1,7 @@
 // src/exchange/htx-perp.ts
 import crypto from "crypto";
 import "dotenv/config";
+import type { FundingRate } from "../types/funding.js";
 
 const HTX_PERP_HOST = process.env.HTX_PERP_HOST ?? "api.hbdm.com";
 const HTX_PERP_BASE_URL = `https://${HTX_PERP_HOST}`;
@@ -205,6 +206,69 @@ export async function htxPerpPrivateRequest<T>(
 
 // ============ 公共方法 ============
 
+// swap_historical_funding_rate 单条记录（只列用到的字段）
+type HtxFundingRecord = {
+  contract_code: string;
+  funding_rate: string;
+  realized_rate: string | null; // 还没结算的那期可能是 null / ""
+  funding_time: string; // 毫秒时间戳（字符串）
+};
+
+/**
+ * 拉历史资金费率（公共接口，不用签名）
+ * 文档对应: GET /linear-swap-api/v1/swap_historical_funding_rate
+ * HTX 每页最多 50 条，按时间倒序返回；这里翻页拉完后按时间升序返回。
+ */
+export async function htxPerpFetchFundingHistory(
+  contract_code: string,
+  maxPages: number = 100
+): Promise<FundingRate[]> {
+  const pageSize = 50;
+  const result: FundingRate[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const resp = await htxPerpPublicGet<{
+      status: string;
+      err_msg?: string;
+      data?: {
+        total_page: number;
+        current_page: number;
+        data: HtxFundingRecord[];
+      };
+    }>("/linear-swap-api/v1/swap_historical_funding_rate", {
+      contract_code,
+      page_index: page,
+      page_size: pageSize,
+    });
+
+    if (resp.status !== "ok" || !resp.data) {
+      throw new Error(
+        `[HTX PERP PUBLIC ERROR] swap_historical_funding_rate 失败: ${
+          resp.err_msg ?? JSON.stringify(resp).slice(0, 200)
+        }`
+      );
+    }
+
+    for (const r of resp.data.data) {
+      // 已结算的用 realized_rate，缺失（null / 空字符串）时退回 funding_rate；
+      // 空字符串不能直接 Number()，会变成 0 费率混进去
+      const raw = r.realized_rate?.trim() || r.funding_rate?.trim();
+      const rate = raw ? Number(raw) : NaN;
+      const fundingTime = Number(r.funding_time);
+      if (Number.isFinite(rate) && Number.isFinite(fundingTime)) {
+        result.push({ fundingTime, rate });
+      }
+    }
+
+    if (page >= resp.data.total_page) break;
+
+    // 轻微延迟，避免 API rate limit
+    await new Promise((r) => setTimeout(r, 150));
+  }
+
+  return result.sort((a, b) => a.fundingTime - b.fundingTime);
+}
+
 // unified_account_info 返回结构（简化版）
 type HtxUnifiedSwapAccount = {
   margin_asset: string;          // "USDT"
@@ -442,7 +506,7 @@ export async function htxPerpGetPositions(contract_code?: string) {
 // 挂 TPSL：自动按合约 price_tick 规范化 TP/SL 价格，避免 1038 精度错误
 export async function htxPerpPlaceTpslOrderSimple(params: {
   contract_code: string;          // BTC-USDT
-  direction: "buy" | "sell";      // 仓位方向（多仓用 buy, 空仓用 sell）
+  direction: "buy" | "sell";      // 触发后的平仓方向（多仓平仓用 sell, 空仓平仓用 buy）
   volume: number;                 // 要平掉的张数
   tp_trigger_price?: number;      // TP 触发价（可选）
   sl_trigger_price?: number;      // SL 触发价（可选）
@@ -0,0 +1,62 @@
+// src/exchange/htx.test.ts
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fetchBtc1dCandles, fetchBtc1hCandles, fetchBtc4hCandles } from "./htx.js";
+
+const HOUR = 60 * 60 * 1000;
+const realFetch = globalThis.fetch;
+
+/**
+ * 假的 /market/history/kline：按 HTX 的样子倒序返回，id = 开盘时间（秒）
+ */
+function stubKlines(openTimesSec: number[]): void {
+  globalThis.fetch = (async () =>
+    new Response(
+      JSON.stringify({
+        status: "ok",
+        data: [...openTimesSec].reverse().map((id, k) => ({
+          id,
+          open: 100 + k,
+          high: 101 + k,
+          low: 99 + k,
+          close: 100.5 + k,
+          vol: 10,
+        })),
+      })
+    )) as typeof fetch;
+}
+
+describe("HTX K线时间和 Binance 对齐（id 是开盘时间）", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const cases = [
+    { name: "1H", fetcher: fetchBtc1hCandles, period: HOUR },
+    { name: "4H", fetcher: fetchBtc4hCandles, period: 4 * HOUR },
+    { name: "1D", fetcher: fetchBtc1dCandles, period: 24 * HOUR },
+  ];
+
+  for (const { name, fetcher, period } of cases) {
+    test(`${name}: openTime = id，closeTime = openTime + 周期 - 1，升序`, async () => {
+      const start = Date.UTC(2025, 0, 1) / 1000;
+      stubKlines([start, start + period / 1000]);
+
+      const candles = await fetcher(2);
+
+      assert.deepEqual(
+        candles.map((c) => [c.openTime, c.closeTime]),
+        [
+          [start * 1000, start * 1000 + period - 1],
+          [start * 1000 + period, start * 1000 + 2 * period - 1],
+        ]
+      );
+    });
+  }
+
+  test("status 不是 ok 直接报错", async () => {
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({ status: "error", "err-msg": "bad" }))) as typeof fetch;
+    await assert.rejects(fetchBtc1hCandles(1), /HTX 1H unexpected/);
+  });
+});
@@ -5,33 +5,54 @@ import type { Candle } from "../types/candle.js";
 const HTX_BASE_URL =
   process.env.HTX_BASE_URL ?? "https://api.huobi.pro";
 
+const HOUR = 60 * 60 * 1000;
+
+// /market/history/kline 单根K线（只列用到的字段）；id 是这根K线的开盘时间（秒）
+interface HtxKline {
+  id: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  vol?: number;
+  amount?: number;
+}
+
+interface HtxKlineResponse {
+  status: string;
+  data?: HtxKline[];
+}
+
 /**
- * === 拉 4小时 K 线（已存在）===
+ * 通用：拉 HTX K 线（单次最多 2000 根，按时间升序返回）。
+ * 时间和 Binance K线对齐：openTime = id，closeTime = openTime + 周期 - 1
  */
-export async function fetchBtc4hCandles(
-  limit: number = 3000
+async function fetchHtxCandles(
+  period: string,
+  periodMs: number,
+  label: string,
+  limit: number
 ): Promise<Candle[]> {
   const maxSize = 2000;
   const size = Math.min(limit, maxSize);
 
   const url =
     `${HTX_BASE_URL}/market/history/kline` +
-    `?symbol=btcusdt&period=4hour&size=${size}`;
+    `?symbol=btcusdt&period=${period}&size=${size}`;
 
   const res = await fetch(url);
   if (!res.ok) {
-    throw new Error(`HTX 4H kline failed: ${res.status}`);
+    throw new Error(`HTX ${label} kline failed: ${res.status}`);
   }
-  const body: any = await res.json();
+  const body = (await res.json()) as HtxKlineResponse;
 
-  if (body.status !== "ok") {
-    throw new Error("HTX 4H unexpected: " + JSON.stringify(body));
+  if (body.status !== "ok" || !body.data) {
+    throw new Error(`HTX ${label} unexpected: ` + JSON.stringify(body));
   }
 
   return body.data
-    .map((d: any) => {
-      const closeTime = Number(d.id) * 1000;
-      const openTime = closeTime - 4 * 60 * 60 * 1000;
+    .map((d) => {
+      const openTime = Number(d.id) * 1000;
       return {
         openTime,
         open: Number(d.open),
@@ -39,12 +60,21 @@ export async function fetchBtc4hCandles(
         low: Number(d.low),
         close: Number(d.close),
         volume: Number(d.vol ?? d.amount ?? 0),
-        closeTime,
+        closeTime: openTime + periodMs - 1,
       } satisfies Candle;
     })
     .reverse();
 }
 
+/**
+ * === 拉 4小时 K 线（已存在）===
+ */
+export async function fetchBtc4hCandles(
+  limit: number = 3000
+): Promise<Candle[]> {
+  return fetchHtxCandles("4hour", 4 * HOUR, "4H", limit);
+}
+
 /**
  * === 拉 1天 K 线（新加）===
  * 用于日线 Regime 过滤
@@ -52,36 +82,15 @@ export async function fetchBtc4hCandles(
 export async function fetchBtc1dCandles(
   limit: number = 500
 ): Promise<Candle[]> {
-  const maxSize = 2000;
-  const size = Math.min(limit, maxSize);
-
-  const url =
-    `${HTX_BASE_URL}/market/history/kline` +
-    `?symbol=btcusdt&period=1day&size=${size}`;
-
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`HTX 1D kline failed: ${res.status}`);
-  }
-  const body: any = await res.json();
-
-  if (body.status !== "ok") {
-    throw new Error("HTX 1D unexpected: " + JSON.stringify(body));
-  }
+  return fetchHtxCandles("1day", 24 * HOUR, "1D", limit);
+}
 
-  return body.data
-    .map((d: any) => {
-      const closeTime = Number(d.id) * 1000;
-      const openTime = closeTime - 24 * 60 * 60 * 1000;
-      return {
-        openTime,
-        open: Number(d.open),
-        high: Number(d.high),
-        low: Number(d.low),
-        close: Number(d.close),
-        volume: Number(d.vol ?? d.amount ?? 0),
-        closeTime,
-      } satisfies Candle;
-    })
-    .reverse();
-}
\ No newline at end of file
+/**
+ * === 拉 1小时 K 线 ===
+ * 用于回测里判断 4H K线内部 SL / TP 谁先触发、ATR 分形过滤（HTX 最多 2000 根，约 83 天）
+ */
+export async function fetchBtc1hCandles(
+  limit: number = 2000
+): Promise<Candle[]> {
+  return fetchHtxCandles("60min", HOUR, "1H", limit);
+}
@@ -0,0 +1,93 @@
+// src/filters/atr-fractal.ts
+import type { Candle } from "../types/candle.js";
+import { atr } from "../indicators/atr.js";
+import { alignToHigherTimeframe } from "./timeframe.js";
+
+/**
+ * ATR 分形过滤（4H → 1H 倍率关系）：
+ * 随机游走下 ATR 按 sqrt(时间) 放大，ATR(4H) ≈ 2 × ATR(1H)。
+ * - ATR(4H) >= k × ATR(1H)：1H 的波动在 4H 上叠加成了方向，结构顺畅
+ * - ATR(4H) <  k × ATR(1H)：1H 来回抽、4H 走不出去，震荡结构，不开仓
+ */
+export interface AtrFractalConfig {
+  atrPeriod: number;  // 4H / 1H 都用这个 ATR 周期
+  multiplier: number; // k
+  /**
+   * 小周期数据没覆盖到（或还没暖机）时怎么办：
+   * - reject : 不开仓（默认，宁可少做）
+   * - pass   : 当作没有这个过滤
+   */
+  onMissingData: "reject" | "pass";
+}
+
+/**
+ * 默认：ATR14，k = 2（= sqrt(4)，随机游走下的理论倍率）
+ */
+export const DEFAULT_ATR_FRACTAL: AtrFractalConfig = {
+  atrPeriod: 14,
+  multiplier: 2,
+  onMissingData: "reject",
+};
+
+/**
+ * 引擎 / 配置里的写法：过滤参数 + 小周期K线（strategy.json 只写参数，K线由脚本塞进来）
+ */
+export interface AtrFractalOptions extends Partial<AtrFractalConfig> {
+  lowerTFCandles?: Candle[]; // 1H K线，按时间升序
+}
+
+export interface AtrFractalResult {
+  ok: boolean;
+  ratio: number; // ATR(4H) / ATR(1H)，拿不到时是 NaN
+}
+
+/**
+ * 配置里只写了部分字段时，用默认值补齐
+ */
+export function resolveAtrFractal(
+  partial: Partial<AtrFractalConfig> = {}
+): AtrFractalConfig {
+  const cfg = { ...DEFAULT_ATR_FRACTAL, ...partial };
+  if (cfg.atrPeriod < 1) {
+    throw new Error(`ATR 分形过滤 atrPeriod 必须 >= 1: ${cfg.atrPeriod}`);
+  }
+  return cfg;
+}
+
+/**
+ * 每根高周期K线上的 ATR(高) / ATR(低)：
+ * 小周期 ATR 取这根高周期K线里最后一根已收盘的小周期K线的值
+ */
+export function atrFractalSeries(
+  higher: Candle[],
+  lower: Candle[],
+  cfg: AtrFractalConfig
+): number[] {
+  const atrHigher = atr(higher, cfg.atrPeriod);
+  const atrLower = atr(lower, cfg.atrPeriod);
+  const ranges = alignToHigherTimeframe(higher, lower);
+
+  return ranges.map(({ from, to }, i) => {
+    const a = atrHigher[i];
+    // 这根高周期K线里一根收盘的小周期K线都没有：数据没覆盖到
+    if (to < from) return NaN;
+    const b = atrLower[to];
+    if (a === undefined || b === undefined || !(b > 0)) return NaN;
+    return a / b;
+  });
+}
+
+/**
+ * 第 i 根高周期K线的过滤结果
+ */
+export function atrFractalAt(
+  ratios: number[],
+  i: number,
+  cfg: AtrFractalConfig
+): AtrFractalResult {
+  const ratio = ratios[i] ?? NaN;
+  if (Number.isNaN(ratio)) {
+    return { ok: cfg.onMissingData === "pass", ratio };
+  }
+  return { ok: ratio >= cfg.multiplier, ratio };
+}
@@ -0,0 +1,39 @@
+// src/filters/timeframe.ts
+import type { Candle } from "../types/candle.js";
+
+/**
+ * 一根高周期K线里已经收盘的小周期K线下标区间 [from, to]（闭区间）。
+ * to < from 表示这根高周期K线里还没有收盘的小周期K线（数据没覆盖到）。
+ */
+export interface AlignedRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * 把每根高周期K线（4H）对齐到它内部已收盘的小周期K线（1H）：
+ * - from：第一根 openTime >= 高周期 openTime 的小周期K线
+ * - to  ：最后一根 closeTime <= 高周期 closeTime 的小周期K线
+ * 只用到高周期收盘时已经收盘的小周期K线，不会偷看未来。
+ * 两组K线都要按时间升序。
+ */
+export function alignToHigherTimeframe(
+  higher: Candle[],
+  lower: Candle[]
+): AlignedRange[] {
+  const ranges: AlignedRange[] = [];
+  let from = 0;
+  let to = -1;
+
+  for (const bar of higher) {
+    while (from < lower.length && lower[from]!.openTime < bar.openTime) {
+      from++;
+    }
+    while (to + 1 < lower.length && lower[to + 1]!.closeTime <= bar.closeTime) {
+      to++;
+    }
+    ranges.push({ from, to });
+  }
+
+  return ranges;
+}
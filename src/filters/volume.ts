@@ -0,0 +1,128 @@
+// src/filters/volume.ts
+import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { sma } from "../indicators/sma.js";
+
+/**
+ * 成交量单位：
+ * - base  : 币数量（Binance K线的 volume）
+ * - quote : USDT 成交额（HTX K线的 vol，data/ 快照也是 HTX 的）
+ */
+export type VolumeUnit = "base" | "quote";
+
+export type VolumeBaseline = "sma" | "ema";
+
+/**
+ * 成交量确认过滤：当前K线成交量 / 过去 period 根的均量 >= minRelativeVolume 才允许开仓
+ */
+export interface VolumeFilterConfig {
+  baseline: VolumeBaseline;   // 均量用 SMA 还是 EMA
+  period: number;             // 均量周期（README 里的 MA50-volume）
+  minRelativeVolume: number;  // 相对成交量下限（1.0 = 不低于均量）
+  /**
+   * 可选：放量条件，最近 lookbackBars 根（含当前）里至少有一根相对成交量 >= multiple。
+   * 和 minRelativeVolume 同时要求。
+   */
+  spike?: { multiple: number; lookbackBars: number };
+  sourceUnit: VolumeUnit;     // K线 volume 的原始单位
+  normalizeTo: VolumeUnit;    // 换算成哪个单位再比（按收盘价折算）
+}
+
+/**
+ * 默认：SMA50 均量、不低于均量、HTX 成交额换算成币数量
+ */
+export const DEFAULT_VOLUME_FILTER: VolumeFilterConfig = {
+  baseline: "sma",
+  period: 50,
+  minRelativeVolume: 1.0,
+  sourceUnit: "quote",
+  normalizeTo: "base",
+};
+
+/**
+ * 某根K线上的过滤结果（回测 / 实盘 / signal-log 共用）
+ */
+export interface VolumeFilterResult {
+  ok: boolean;
+  relativeVolume: number; // 当前量 / 均量，均量还没暖机时是 NaN
+  spikeOk?: boolean;      // 配了 spike 才有
+}
+
+/**
+ * 配置里只写了部分字段时，用默认值补齐
+ */
+export function resolveVolumeFilter(
+  partial: Partial<VolumeFilterConfig> = {}
+): VolumeFilterConfig {
+  const cfg = { ...DEFAULT_VOLUME_FILTER, ...partial };
+  if (cfg.period < 1) {
+    throw new Error(`成交量过滤 period 必须 >= 1: ${cfg.period}`);
+  }
+  if (cfg.spike && cfg.spike.lookbackBars < 1) {
+    throw new Error(
+      `成交量过滤 spike.lookbackBars 必须 >= 1: ${cfg.spike.lookbackBars}`
+    );
+  }
+  return cfg;
+}
+
+/**
+ * 把K线 volume 换算成统一单位
+ */
+export function normalizeVolumes(
+  candles: Candle[],
+  sourceUnit: VolumeUnit,
+  normalizeTo: VolumeUnit
+): number[] {
+  if (sourceUnit === normalizeTo) return candles.map((c) => c.volume);
+  return candles.map((c) => {
+    if (!(c.close > 0)) return 0;
+    return normalizeTo === "base" ? c.volume / c.close : c.volume * c.close;
+  });
+}
+
+/**
+ * 相对成交量序列：volume[i] / 均量[i]（均量含第 i 根，只用到 [0, i] 的数据）
+ */
+export function relativeVolumeSeries(
+  candles: Candle[],
+  cfg: VolumeFilterConfig
+): number[] {
+  const volumes = normalizeVolumes(candles, cfg.sourceUnit, cfg.normalizeTo);
+  const baseline =
+    cfg.baseline === "ema"
+      ? ema(volumes, cfg.period)
+      : sma(volumes, cfg.period);
+
+  return volumes.map((v, i) => {
+    const b = baseline[i]!;
+    // EMA 从第一根就有值，这里统一要求至少 period 根数据
+    if (i < cfg.period - 1 || !(b > 0)) return NaN;
+    return v / b;
+  });
+}
+
+/**
+ * 第 i 根K线的成交量过滤结果；均量没暖机（NaN）时不放行
+ */
+export function volumeFilterAt(
+  relativeVolume: number[],
+  i: number,
+  cfg: VolumeFilterConfig
+): VolumeFilterResult {
+  const rv = relativeVolume[i] ?? NaN;
+  let ok = rv >= cfg.minRelativeVolume;
+
+  if (!cfg.spike) return { ok, relativeVolume: rv };
+
+  let spikeOk = false;
+  for (let k = i; k >= 0 && k > i - cfg.spike.lookbackBars; k--) {
+    if ((relativeVolume[k] ?? NaN) >= cfg.spike.multiple) {
+      spikeOk = true;
+      break;
+    }
+  }
+  ok = ok && spikeOk;
+
+  return { ok, relativeVolume: rv, spikeOk };
+}
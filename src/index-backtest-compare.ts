@@ -50,8 +50,7 @@ async function runForSource(
   // === 回测 1：V2 ===
   const cfgV2 = {
     ...baseCfg,
-    useV2Signal: true,
-    useV3Signal: false,
+    strategy: "trend-v2",
   };
 
   console.log("\n=== 回测 1：V2（当前实盘思路/回踩确认） ===");
@@ -67,8 +66,7 @@ async function runForSource(
   // === 回测 2：V3 宽松确认 ===
   const cfgV3 = {
     ...baseCfg,
-    useV2Signal: false,
-    useV3Signal: true,
+    strategy: "trend-v3-confirmed",
   };
 
   console.log("\n\n=== 回测 2：V3 宽松确认（同参数，只换信号） ===");
@@ -0,0 +1,107 @@
+// src/index-backtest-ensemble.ts
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Candle } from "./types/candle.js";
+import {
+  configForStrategy,
+  dailyRegimeSeries,
+  runBacktestWithConfig,
+  type StrategyConfig,
+} from "./backtest-regime.js";
+import {
+  backtestPortfolio,
+  printPortfolioResult,
+  weakRsiSleeve,
+  type ConflictPolicy,
+  type Sleeve,
+} from "./backtest/portfolio.js";
+import { createRegimeDetector } from "./strategy/regime-detector.js";
+import strategy from "./config/strategy.json" with { type: "json" };
+
+function loadCandles(relPath: string): Candle[] {
+  const full = path.resolve(relPath);
+  const raw = fs.readFileSync(full, "utf8");
+  return JSON.parse(raw) as Candle[];
+}
+
+/**
+ * strategy.json 里的某个策略做成一个 sleeve（走 runBacktestWithConfig，带日线 regime 过滤）
+ */
+function configSleeve(
+  name: string,
+  weight: number,
+  candles1d: Candle[],
+  cfg: StrategyConfig,
+  regimes?: Sleeve["regimes"]
+): Sleeve {
+  return {
+    name,
+    weight,
+    ...(regimes ? { regimes } : {}),
+    run: (candles) =>
+      runBacktestWithConfig(candles, candles1d, cfg)?.result?.trades ?? [],
+  };
+}
+
+/**
+ * 多策略组合（Ensemble）：
+ * - 趋势 V3 确认版：只在日线 BULL 开仓，权重 50%
+ * - 弱 RSI 均值回归：只在日线 RANGE 开仓，权重 30%
+ * - 突破失败反手空：不限 regime，权重 20%（和趋势多单会撞车，用来看冲突处理）
+ * 三种冲突处理各跑一遍对比。
+ */
+async function main() {
+  console.log("从本地 ./data 读取 BTCUSDT 4H & 1D K 线做【多策略组合回测】...");
+
+  const candles4h = loadCandles("./data/btc-4h.json");
+  const candles1d = loadCandles("./data/btc-1d.json");
+
+  console.log(`4H K 线数量: ${candles4h.length}`);
+  console.log(`1D K 线数量: ${candles1d.length}`);
+
+  if (candles4h.length < 200 || candles1d.length < 200) {
+    console.log("K 线太少，至少需要 200 根。");
+    return;
+  }
+
+  const higherTFRegime = dailyRegimeSeries(
+    candles1d,
+    createRegimeDetector((strategy as StrategyConfig).regimeDetector)
+  );
+
+  const sleeves: Sleeve[] = [
+    configSleeve(
+      "trend-v3-confirmed",
+      0.5,
+      candles1d,
+      configForStrategy(strategy, "trend-v3-confirmed"),
+      ["BULL"]
+    ),
+    weakRsiSleeve("weak-rsi", 0.3, {}, ["RANGE"]),
+    configSleeve(
+      "breakout-failure-short",
+      0.2,
+      candles1d,
+      configForStrategy(strategy, "breakout-failure-short")
+    ),
+  ];
+
+  const policies: ConflictPolicy[] = ["block-opposite", "block-all", "same-bar-offset"];
+
+  for (const conflictPolicy of policies) {
+    console.log(`\n\n######## 冲突处理: ${conflictPolicy} ########`);
+    const result = backtestPortfolio(candles4h, {
+      sleeves,
+      conflictPolicy,
+      higherTFRegime,
+    });
+    printPortfolioResult(result, candles4h);
+  }
+}
+
+main().catch((err) => {
+  console.error("运行出错:", err);
+  process.exit(1);
+});
@@ -6,6 +6,18 @@ import path from "node:path";
 import type { Candle } from "./types/candle.js";
 import { runBacktestWithConfig } from "./backtest-regime.js";
 import { printBacktestResult } from "./backtest/engine.js";
+import { LIVE_FILL_MODEL } from "./backtest/fill-model.js";
+import { buildCostModel } from "./backtest/cost-model.js";
+import {
+  DEFAULT_MARGIN_CONFIG,
+  type MarginConfig,
+} from "./backtest/margin.js";
+import {
+  DEFAULT_FUNDING_FILE,
+  loadFundingRates,
+} from "./store/funding-store.js";
+
+const CANDLES_1H_FILE = "./data/btc-1h.json";
 
 function loadCandles(relPath: string): Candle[] {
   const full = path.resolve(relPath);
@@ -36,8 +48,7 @@ async function main() {
     minAtrPct: 0.0075,
     maxRsiForEntry: 70,
     minRsiForEntry: 30,
-    useV2Signal: true,
-    useV3Signal: false,
+    strategy: "trend-v2",
   } as const;
 
   console.log("\n=== 回测 1：V2（当前实盘思路，同参数） ===");
@@ -48,14 +59,13 @@ async function main() {
   if (!retV2 || !retV2.result) {
     console.log("V2 回测失败，可能是 K 线长度不够。");
   } else {
-    printBacktestResult(retV2.result, candles4h.length);
+    printBacktestResult(retV2.result, candles4h.length, candles4h);
   }
 
   // === 回测 2：V3（宽松确认，只换信号其他参数不变） ===
   const cfgV3 = {
     ...cfgV2,
-    useV2Signal: false,
-    useV3Signal: true,
+    strategy: "trend-v3-confirmed",
   } as const;
 
   console.log("\n\n=== 回测 2：V3 宽松确认（同参数，只换信号） ===");
@@ -68,7 +78,79 @@ async function main() {
     return;
   }
 
-  printBacktestResult(retV3.result, candles4h.length);
+  printBacktestResult(retV3.result, candles4h.length, candles4h);
+
+  // === 回测 3：V3 + 贴近实盘的成交假设（下一根开盘入场 + 跳空止损 + HTX 费率 + 滑点 + 资金费） ===
+  // 资金费率需要先跑 npm run save-funding-htx，没有文件就不算
+  const funding = fs.existsSync(DEFAULT_FUNDING_FILE)
+    ? loadFundingRates(DEFAULT_FUNDING_FILE)
+    : [];
+  console.log(`\n本地资金费率条数: ${funding.length}（${DEFAULT_FUNDING_FILE}）`);
+
+  // 1H K 线用来判断 4H 内 SL / TP 谁先到（npm run save-candles-htx 会一起存），没有就按止损先到
+  const candles1h = fs.existsSync(CANDLES_1H_FILE)
+    ? loadCandles(CANDLES_1H_FILE)
+    : [];
+  console.log(`本地 1H K 线数量: ${candles1h.length}（${CANDLES_1H_FILE}）`);
+
+  const cfgV3Live = {
+    ...cfgV3,
+    fillModel: LIVE_FILL_MODEL,
+    costModel: buildCostModel({
+      venue: "htx-swap",
+      vipTier: "VIP0",
+      slippage: { type: "fixed-bps", bps: 2 },
+    }),
+  };
+
+  console.log(
+    "\n=== 回测 3：V3 + 实盘成交假设（下一根开盘入场，跳空按开盘价止损，HTX VIP0 taker + 2bps 滑点） ==="
+  );
+  console.log(JSON.stringify(cfgV3Live, null, 2));
+
+  const retV3Live = runBacktestWithConfig(candles4h, candles1d, {
+    ...cfgV3Live,
+    funding,
+    intrabar: { lowerTFCandles: candles1h, fallback: "pessimistic" },
+  });
+
+  if (!retV3Live || !retV3Live.result) {
+    console.log("V3（实盘成交假设）回测失败，可能是 K 线长度不够。");
+    return;
+  }
+
+  printBacktestResult(retV3Live.result, candles4h.length, candles4h);
+
+  // === 回测 4：V3 实盘假设 + 杠杆 / 强平模拟（看 5x 和按 regime 选杠杆扛不扛得住） ===
+  const marginCases: { label: string; margin: MarginConfig }[] = [
+    { label: "全仓 3x", margin: { ...DEFAULT_MARGIN_CONFIG, leverage: 3 } },
+    { label: "全仓 5x", margin: { ...DEFAULT_MARGIN_CONFIG, leverage: 5 } },
+    {
+      label: "逐仓 5x",
+      margin: { ...DEFAULT_MARGIN_CONFIG, mode: "isolated", leverage: 5 },
+    },
+    {
+      label: "全仓 按 regime [3, 5]",
+      margin: { ...DEFAULT_MARGIN_CONFIG, leverageLevels: [3, 5] },
+    },
+  ];
+
+  for (const { label, margin } of marginCases) {
+    console.log(`\n\n=== 回测 4：V3 实盘假设 + 杠杆模拟（${label}） ===`);
+
+    const ret = runBacktestWithConfig(candles4h, candles1d, {
+      ...cfgV3Live,
+      funding,
+      margin,
+    });
+
+    if (!ret || !ret.result) {
+      console.log(`杠杆模拟（${label}）回测失败，可能是 K 线长度不够。`);
+      continue;
+    }
+
+    printBacktestResult(ret.result, candles4h.length, candles4h);
+  }
 }
 
 main().catch((err) => {
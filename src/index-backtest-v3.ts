@@ -37,8 +37,7 @@ async function main() {
   console.log("\n=== 回测 1：V2（同一套参数，只用 V2 信号） ===");
   const v2Config = {
     ...baseCfg,
-    useV2Signal: true,
-    useV3Signal: false,
+    strategy: "trend-v2",
   };
   console.log(JSON.stringify(v2Config, null, 2));
 
@@ -53,8 +52,7 @@ async function main() {
   console.log("\n\n=== 回测 2：V3 宽松确认（同一套参数，只用 V3 信号） ===");
   const v3Config = {
     ...baseCfg,
-    useV2Signal: false,
-    useV3Signal: true,
+    strategy: "trend-v3-confirmed",
   };
   console.log(JSON.stringify(v3Config, null, 2));
 
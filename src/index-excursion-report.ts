@@ -0,0 +1,65 @@
+// src/index-excursion-report.ts
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Candle } from "./types/candle.js";
+import {
+  configForStrategy,
+  runBacktestWithConfig,
+  type StrategyConfig,
+} from "./backtest-regime.js";
+import {
+  excursionCsv,
+  printExcursionReport,
+} from "./backtest/excursion.js";
+import strategy from "./config/strategy.json" with { type: "json" };
+
+const CSV_FILE = "./logs/excursions.csv";
+
+function loadCandles(relPath: string): Candle[] {
+  const full = path.resolve(relPath);
+  const raw = fs.readFileSync(full, "utf8");
+  return JSON.parse(raw) as Candle[];
+}
+
+/**
+ * 用 strategy.json 当前参数跑一遍本地回测，输出 MAE / MFE 报表：
+ * - MAE vs 结果：止损放在哪个浮亏位置之后基本不会再赢
+ * - MFE 分布：止盈放多远还能有多少笔摸得到
+ * 逐笔明细写到 logs/excursions.csv
+ */
+async function main() {
+  console.log("从本地 ./data 读取 BTCUSDT 4H & 1D K 线做 MAE / MFE 分析...");
+
+  const candles4h = loadCandles("./data/btc-4h.json");
+  const candles1d = loadCandles("./data/btc-1d.json");
+
+  // 当前策略 + 它在 strategyOverrides 里的参数
+  const cfg: StrategyConfig = configForStrategy(strategy);
+  console.log("策略参数:", JSON.stringify(cfg));
+
+  const ret = runBacktestWithConfig(candles4h, candles1d, cfg);
+  if (!ret || !ret.result) {
+    console.log("回测失败，可能是 K 线长度不够。");
+    return;
+  }
+
+  const { trades } = ret.result;
+  console.log(
+    `交易笔数: ${trades.length}，当前 SL=${((cfg.stopLossPct ?? 0) * 100).toFixed(
+      2
+    )}% / TP=${((cfg.takeProfitPct ?? 0) * 100).toFixed(2)}%`
+  );
+
+  printExcursionReport(trades);
+
+  fs.mkdirSync(path.dirname(path.resolve(CSV_FILE)), { recursive: true });
+  fs.writeFileSync(path.resolve(CSV_FILE), excursionCsv(trades), "utf8");
+  console.log(`\n逐笔 MAE / MFE 已写入 ${CSV_FILE}`);
+}
+
+main().catch((err) => {
+  console.error("MAE / MFE 分析出错:", err);
+  process.exit(1);
+});
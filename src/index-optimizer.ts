@@ -8,13 +8,26 @@ import {
 } from "./exchange/binance.js";
 
 import {
-  backtestSimpleBtcTrend,
-  type BacktestResult,
-  type BacktestOptions,
-} from "./backtest/engine.js";
-
-import { ema } from "./indicators/ema.js";
-import { detectRegimeFromEma } from "./strategy/regime.js";
+  scoreMetrics,
+  type ScoreTarget,
+} from "./backtest/metrics.js";
+import type { Scorer } from "./backtest/param-search.js";
+import {
+  workerCountFromEnv,
+  progressLogger,
+  runParallelSearch,
+} from "./backtest/parallel-search.js";
+import type { EngineJob, EngineRun } from "./backtest/search-job.js";
+import type {
+  ParamCombo as SearchCombo,
+  SearchSpace,
+} from "./backtest/search-space.js";
+import {
+  computeDailyRegimes,
+  createRegimeDetector,
+  type RegimeDetector,
+} from "./strategy/regime-detector.js";
+import type { StrategyConfig as RegimeStrategyConfig } from "./backtest-regime.js";
 import type { Candle } from "./types/candle.js";
 
 import strategy from "./config/strategy.json" with { type: "json" };
@@ -31,38 +44,65 @@ const MIN_TEST_TRADES = 2;
 //（Train 和 Test 都用这个 ALPHA）
 const ALPHA = 0.5;
 
+// 打分目标：默认「收益 - ALPHA * 回撤」，也可以换成 "sharpe" / "calmar" / "expectancyR" 等
+const SCORE_TARGET: ScoreTarget = (m) =>
+  m.totalReturnPct - ALPHA * m.maxDrawdownPct;
+
 // Train 和 Test 在综合 score 里的权重（更偏向 Test）
 const TRAIN_WEIGHT = 0.4;
 const TEST_WEIGHT = 0.6;
 
-// 扫描的参数空间：适度拉宽一点
-// 止损 0.8% ~ 2.0%
-const SL_LIST = [0.008, 0.01, 0.012, 0.015, 0.018, 0.02];
-// 止盈 2.5% ~ 5.0%
-const TP_LIST = [0.025, 0.03, 0.035, 0.04, 0.045, 0.05];
-// ATR 0.3% ~ 1.5%
-const ATR_LIST = [0.003, 0.005, 0.0075, 0.01, 0.015];
-// false = v1, true = v2
-const SIGNAL_VERSIONS: boolean[] = [false, true];
+// 并行：OPTIMIZER_WORKERS 指定 worker 数（0 = 主线程跑，默认 CPU 核数 - 1）
+const WORKERS = workerCountFromEnv("OPTIMIZER_WORKERS");
+// 每跑完一组追加到结果文件；Ctrl+C 中断后 OPTIMIZER_RESUME=true 接着跑
+//（K线是现拉的，最新一根变了就对不上，只能重新跑）
+const RESULTS_FILE = "./logs/optimizer-results.jsonl";
+const RESUME = process.env.OPTIMIZER_RESUME === "true";
+
+// 扫描的参数空间：适度拉宽一点（网格顺序：策略 > ATR > SL > TP）
+const SEARCH_SPACE: SearchSpace = {
+  params: {
+    // 参与扫描的信号策略（registry 里的名字）
+    strategy: { type: "choice", values: ["trend-v1", "trend-v2"] },
+    // ATR 0.3% ~ 1.5%
+    minAtrPct: { type: "choice", values: [0.003, 0.005, 0.0075, 0.01, 0.015] },
+    // 止损 0.8% ~ 2.0%
+    stopLossPct: { type: "choice", values: [0.008, 0.01, 0.012, 0.015, 0.018, 0.02] },
+    // 止盈 2.5% ~ 5.0%
+    takeProfitPct: { type: "choice", values: [0.025, 0.03, 0.035, 0.04, 0.045, 0.05] },
+  },
+};
 
 type StrategyConfig = typeof strategy;
 
 type ParamCombo = {
-  useV2Signal: boolean;
+  strategy: string;
   stopLossPct: number;
   takeProfitPct: number;
   minAtrPct: number;
 };
 
+// [Train, Test] 各自的回测汇总
+type Evaluation = EngineRun[];
+
 type ScoredResult = {
   params: ParamCombo;
-  train: BacktestResult;
-  test: BacktestResult;
+  train: EngineRun;
+  test: EngineRun;
   trainScore: number;
   testScore: number;
   jointScore: number;
 };
 
+function toParamCombo(p: SearchCombo): ParamCombo {
+  return {
+    strategy: String(p.strategy),
+    stopLossPct: Number(p.stopLossPct),
+    takeProfitPct: Number(p.takeProfitPct),
+    minAtrPct: Number(p.minAtrPct),
+  };
+}
+
 type Regime = "BULL" | "BEAR" | "RANGE";
 
 // 把时间戳归一到“UTC 的日期 key”
@@ -72,52 +112,36 @@ function dayKeyFromMs(ms: number): string {
 }
 
 /**
- * 基于日线 50/200 EMA，构建一个 Map：
+ * 用日线 regime 判断器（strategy.json 的 regimeDetector，默认 50/200 EMA）构建一个 Map：
  *   "YYYY-M-D" -> "BULL" | "BEAR" | "RANGE"
  */
-function buildDailyRegimeMap(daily: Candle[]): Map<string, Regime> {
-  const closes = daily.map((c) => c.close);
-  const ema50 = ema(closes, 50);
-  const ema200 = ema(closes, 200);
-
+function buildDailyRegimeMap(
+  daily: Candle[],
+  detector: RegimeDetector
+): Map<string, Regime> {
   const map = new Map<string, Regime>();
 
-  for (let i = 200; i < daily.length; i++) {
-    const price = closes[i]!;
-    const e50 = ema50[i]!;
-    const e200 = ema200[i]!;
-    const prevE200 = ema200[i - 1]!;
-
-    const { regime } = detectRegimeFromEma(price, e50, e200, prevE200);
-    const key = dayKeyFromMs(daily[i]!.closeTime);
-    map.set(key, regime as Regime);
+  for (const { time, regime } of computeDailyRegimes(daily, detector)) {
+    map.set(dayKeyFromMs(time), regime);
   }
 
   return map;
 }
 
 /**
- * 对 4H K 线做回测，但只在「日线 Regime === BULL」的日期上交易。
- * 其它逻辑仍然走 backtestSimpleBtcTrend（里面还有 4H 自己的 EMA Regime）。
+ * 只保留「日线 Regime === BULL」那几天的 4H K 线（回测只在这些日期上交易）。
+ * 其它逻辑仍然走 backtestSimpleBtcTrend（里面还有 4H 自己的 EMA Regime），
+ * 过滤后不够 200 根的话这组参数算回测失败（见 search-job.ts）。
  */
-function backtestWithDailyRegimeFilter(
+function filterBullDays(
   candles4h: Candle[],
-  dailyRegimes: Map<string, Regime>,
-  options: BacktestOptions
-): BacktestResult | null {
-  // 只保留“日线 regime 为 BULL 的那几天”的 4H K 线
-  const filtered = candles4h.filter((c) => {
+  dailyRegimes: Map<string, Regime>
+): Candle[] {
+  return candles4h.filter((c) => {
     const key = dayKeyFromMs(c.closeTime);
     const regime = dailyRegimes.get(key);
     return regime === "BULL";
   });
-
-  if (filtered.length < 200) {
-    // K 线太少，EMA/RSI 暖机不够
-    return null;
-  }
-
-  return backtestSimpleBtcTrend(filtered, options);
 }
 
 async function main() {
@@ -134,7 +158,11 @@ async function main() {
   const candles1d = await fetchBtc1dCandles(500);
   console.log(`1D 获取到 ${candles1d.length} 根K线。`);
 
-  const dailyRegimeMap = buildDailyRegimeMap(candles1d);
+  const regimeDetector = createRegimeDetector(
+    (strategy as RegimeStrategyConfig).regimeDetector
+  );
+  console.log(`日线 Regime 判断: ${regimeDetector.description}`);
+  const dailyRegimeMap = buildDailyRegimeMap(candles1d, regimeDetector);
 
   // 2/3 训练 + 1/3 测试（在 4H 维度上切）
   const splitIndex = Math.floor(candles4h.length * 0.67);
@@ -145,101 +173,88 @@ async function main() {
     `训练集 4H K 线: ${train4h.length}, 测试集 4H K 线: ${test4h.length}`
   );
 
-  const allResults: ScoredResult[] = [];
-
   console.log("\n=== 参数扫描（训练 + 测试一起看，含日线 Regime BULL 过滤） ===");
 
-  for (const useV2Signal of SIGNAL_VERSIONS) {
-    console.log(`\n--- 使用 ${useV2Signal ? "v2" : "v1"} signal ---`);
-    for (const minAtrPct of ATR_LIST) {
-      console.log(`  >> minAtrPct = ${(minAtrPct * 100).toFixed(2)}%`);
-
-      for (const sl of SL_LIST) {
-        for (const tp of TP_LIST) {
-          const params: ParamCombo = {
-            useV2Signal,
-            stopLossPct: sl,
-            takeProfitPct: tp,
-            minAtrPct,
-          };
-
-          const backtestOpts: BacktestOptions = {
-            useTrendFilter: true,
-            ...params,
-          };
-
-          // 1) 先跑训练集（带日线 Regime 过滤）
-          const train = backtestWithDailyRegimeFilter(
-            train4h,
-            dailyRegimeMap,
-            backtestOpts
-          );
-
-          if (!train) continue;
-          if (train.totalTrades < MIN_TRAIN_TRADES) {
-            console.log(
-              `    SL=${(sl * 100).toFixed(1)}%  TP=${(tp * 100).toFixed(
-                1
-              )}% -> Train 笔数太少(${train.totalTrades})，跳过`
-            );
-            continue;
-          }
-
-          // 2) 再跑测试集（同样带日线 Regime 过滤）
-          const test = backtestWithDailyRegimeFilter(
-            test4h,
-            dailyRegimeMap,
-            backtestOpts
-          );
-
-          if (!test) continue;
-          if (test.totalTrades < MIN_TEST_TRADES) {
-            console.log(
-              `    SL=${(sl * 100).toFixed(1)}%  TP=${(tp * 100).toFixed(
-                1
-              )}% -> Test 笔数太少(${test.totalTrades})，跳过`
-            );
-            continue;
-          }
-
-          // 3) 计算 Train / Test 的 score
-          const trainScore =
-            train.totalReturnPct - ALPHA * train.maxDrawdownPct;
-          const testScore =
-            test.totalReturnPct - ALPHA * test.maxDrawdownPct;
-
-          const jointScore =
-            TRAIN_WEIGHT * trainScore + TEST_WEIGHT * testScore;
-
-          console.log(
-            `    SL=${(sl * 100).toFixed(1)}%  TP=${(tp * 100).toFixed(
-              1
-            )}% -> Train: ${train.totalReturnPct.toFixed(
-              2
-            )}% / DD ${train.maxDrawdownPct.toFixed(
-              2
-            )}% / 笔数 ${train.totalTrades} | ` +
-              `Test: ${test.totalReturnPct.toFixed(
-                2
-              )}% / DD ${test.maxDrawdownPct.toFixed(
-                2
-              )}% / 笔数 ${test.totalTrades} | ` +
-              `score=${jointScore.toFixed(2)}`
-          );
-
-          allResults.push({
-            params,
-            train,
-            test,
-            trainScore,
-            testScore,
-            jointScore,
-          });
-        }
-      }
+  // 训练集 / 测试集都带日线 Regime 过滤各跑一遍（K线先过滤好，worker 之间共享）
+  const job: EngineJob = {
+    kind: "engine",
+    options: { useTrendFilter: true },
+    datasets: ["train", "test"],
+  };
+  const datasets = {
+    train: filterBullDays(train4h, dailyRegimeMap),
+    test: filterBullDays(test4h, dailyRegimeMap),
+  };
+
+  // jointScore = Train / Test 的 score 加权；笔数不够的直接拒掉
+  const trainScoreOf = ([train]: Evaluation) =>
+    scoreMetrics(train!.metrics, SCORE_TARGET);
+  const testScoreOf = ([, test]: Evaluation) =>
+    scoreMetrics(test!.metrics, SCORE_TARGET);
+  const jointScorer: Scorer<Evaluation> = (e) => {
+    const [train, test] = e;
+    if (train!.totalTrades < MIN_TRAIN_TRADES) {
+      return { score: -Infinity, rejected: `Train 笔数太少(${train!.totalTrades})` };
+    }
+    if (test!.totalTrades < MIN_TEST_TRADES) {
+      return { score: -Infinity, rejected: `Test 笔数太少(${test!.totalTrades})` };
     }
+    return {
+      score: TRAIN_WEIGHT * trainScoreOf(e) + TEST_WEIGHT * testScoreOf(e),
+    };
+  };
+
+  console.log(`worker: ${WORKERS || "主线程"}${RESUME ? "，续跑" : ""}`);
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.log("\n收到 Ctrl+C，停止扫参（已跑完的组合都在结果文件里）...");
+    controller.abort();
+  });
+
+  const { trials, cancelled } = await runParallelSearch(
+    SEARCH_SPACE,
+    datasets,
+    job,
+    jointScorer,
+    {
+      method: "grid",
+      workers: WORKERS,
+      resultsFile: RESULTS_FILE,
+      resume: RESUME,
+      signal: controller.signal,
+      onProgress: progressLogger("optimizer"),
+    }
+  );
+
+  if (cancelled) {
+    console.log(
+      `\n⏹ 已取消：完成 ${trials.length} 组，结果在 ${RESULTS_FILE}，用 OPTIMIZER_RESUME=true 重新运行即可接着跑。`
+    );
+    return;
   }
 
+  const failed = trials.filter((t) => !t.result).length;
+  const rejected = trials.filter((t) => t.result && !t.feasible).length;
+  console.log(
+    `共 ${trials.length} 组：回测失败(K线不足) ${failed} 组，笔数不够 ${rejected} 组。`
+  );
+
+  const allResults: ScoredResult[] = trials.flatMap((t) =>
+    t.feasible && t.result
+      ? [
+          {
+            params: toParamCombo(t.params),
+            train: t.result[0]!,
+            test: t.result[1]!,
+            trainScore: trainScoreOf(t.result),
+            testScore: testScoreOf(t.result),
+            jointScore: t.score,
+          },
+        ]
+      : []
+  );
+
   if (allResults.length === 0) {
     console.log(
       "\n⚠️ 没有任何同时满足 Train / Test 笔数要求的参数组合，请考虑放宽 MIN_TRAIN_TRADES 或 MIN_TEST_TRADES。"
@@ -253,7 +268,7 @@ async function main() {
 
   console.log("\n=== 最优参数（综合 Train + Test 的 jointScore） ===");
   console.log({
-    useV2Signal: best.params.useV2Signal,
+    strategy: best.params.strategy,
     stopLossPct: best.params.stopLossPct,
     takeProfitPct: best.params.takeProfitPct,
     minAtrPct: best.params.minAtrPct,
@@ -278,7 +293,7 @@ async function main() {
   console.log(`\n=== 前 ${topN} 名参数概览（按 jointScore 排序） ===`);
   for (const [idx, r] of allResults.slice(0, topN).entries()) {
     console.log(`#${idx + 1}`, {
-      useV2Signal: r.params.useV2Signal,
+      strategy: r.params.strategy,
       SL: r.params.stopLossPct,
       TP: r.params.takeProfitPct,
       minAtrPct: r.params.minAtrPct,
@@ -306,7 +321,7 @@ async function updateStrategyJson(bestParams: ParamCombo) {
   const newConfig: StrategyConfig = {
     ...strategy,
     useTrendFilter: true,
-    useV2Signal: bestParams.useV2Signal,
+    strategy: bestParams.strategy,
     stopLossPct: bestParams.stopLossPct,
     takeProfitPct: bestParams.takeProfitPct,
     minAtrPct: bestParams.minAtrPct,
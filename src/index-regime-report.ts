@@ -0,0 +1,157 @@
+// src/index-regime-report.ts
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Candle } from "./types/candle.js";
+import type { Regime } from "./strategy/regime.js";
+import {
+  computeDailyRegimes,
+  createRegimeDetector,
+  type RegimeDetector,
+  type RegimeDetectorConfig,
+  type RegimePoint,
+} from "./strategy/regime-detector.js";
+import type { StrategyConfig } from "./backtest-regime.js";
+import strategy from "./config/strategy.json" with { type: "json" };
+
+const REGIMES: Regime[] = ["BULL", "RANGE", "BEAR"];
+
+// 除了 strategy.json 里配置的那个，其它判断器都用默认参数对比
+const COMPARE_DETECTORS: RegimeDetectorConfig[] = [
+  { type: "ema" },
+  { type: "adx" },
+  { type: "volatility" },
+  { type: "donchian" },
+];
+
+function loadCandles(relPath: string): Candle[] {
+  const full = path.resolve(relPath);
+  const raw = fs.readFileSync(full, "utf8");
+  return JSON.parse(raw) as Candle[];
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * 把逐日 regime 合并成连续的区间：[开始, 结束, regime, 天数]
+ */
+function regimeTimeline(points: RegimePoint[]) {
+  const segments: Array<{ from: number; to: number; regime: Regime; days: number }> = [];
+  for (const p of points) {
+    const last = segments[segments.length - 1];
+    if (last && last.regime === p.regime) {
+      last.to = p.time;
+      last.days++;
+    } else {
+      segments.push({ from: p.time, to: p.time, regime: p.regime, days: 1 });
+    }
+  }
+  return segments;
+}
+
+/**
+ * 转移矩阵：今天是 from 的情况下，明天是 to 的次数
+ */
+function transitionMatrix(points: RegimePoint[]): Record<Regime, Record<Regime, number>> {
+  const matrix = Object.fromEntries(
+    REGIMES.map((from) => [from, Object.fromEntries(REGIMES.map((to) => [to, 0]))])
+  ) as Record<Regime, Record<Regime, number>>;
+
+  for (let i = 1; i < points.length; i++) {
+    matrix[points[i - 1]!.regime][points[i]!.regime]++;
+  }
+  return matrix;
+}
+
+function printDetectorReport(detector: RegimeDetector, candles1d: Candle[]) {
+  console.log(`\n\n######## ${detector.type}: ${detector.description} ########`);
+
+  const points = computeDailyRegimes(candles1d, detector);
+  if (points.length === 0) {
+    console.log(`日线不够暖机（需要 > ${detector.warmupBars} 根），跳过。`);
+    return;
+  }
+
+  console.log(
+    `区间: ${formatDate(points[0]!.time)} ~ ${formatDate(points[points.length - 1]!.time)}，共 ${points.length} 天`
+  );
+
+  // === 各 regime 占比 ===
+  console.log("\n=== Regime 占比 ===");
+  console.table(
+    REGIMES.map((regime) => {
+      const days = points.filter((p) => p.regime === regime).length;
+      return {
+        regime,
+        天数: days,
+        占比: `${((days / points.length) * 100).toFixed(1)}%`,
+      };
+    })
+  );
+
+  // === 时间线 ===
+  const segments = regimeTimeline(points);
+  console.log(`\n=== Regime 时间线（${segments.length} 段） ===`);
+  console.table(
+    segments.map((s) => ({
+      开始: formatDate(s.from),
+      结束: formatDate(s.to),
+      regime: s.regime,
+      天数: s.days,
+    }))
+  );
+
+  // === 转移矩阵（行 = 今天，列 = 明天，括号里是按行归一的概率） ===
+  const matrix = transitionMatrix(points);
+  console.log("\n=== 转移矩阵（行 = 今天，列 = 明天） ===");
+  console.table(
+    Object.fromEntries(
+      REGIMES.map((from) => {
+        const row = matrix[from];
+        const total = REGIMES.reduce((sum, to) => sum + row[to], 0);
+        return [
+          from,
+          Object.fromEntries(
+            REGIMES.map((to) => [
+              to,
+              total > 0
+                ? `${row[to]} (${((row[to] / total) * 100).toFixed(1)}%)`
+                : "0",
+            ])
+          ),
+        ];
+      })
+    )
+  );
+
+  const avgDays = points.length / segments.length;
+  console.log(`平均每段持续 ${avgDays.toFixed(1)} 天，切换 ${segments.length - 1} 次`);
+}
+
+/**
+ * 日线 Regime 报表：strategy.json 里配置的判断器 + 其它判断器（默认参数）
+ * 各自的时间线、占比和转移矩阵，用来看哪个判断器切得太频繁 / 太迟钝
+ */
+async function main() {
+  console.log("从本地 ./data 读取 BTCUSDT 1D K 线做【日线 Regime 报表】...");
+
+  const candles1d = loadCandles("./data/btc-1d.json");
+  console.log(`1D K 线数量: ${candles1d.length}`);
+
+  const configured = (strategy as StrategyConfig).regimeDetector;
+  const configs = configured
+    ? [configured, ...COMPARE_DETECTORS.filter((c) => c.type !== configured.type)]
+    : COMPARE_DETECTORS;
+
+  for (const cfg of configs) {
+    printDetectorReport(createRegimeDetector(cfg), candles1d);
+  }
+}
+
+main().catch((err) => {
+  console.error("运行出错:", err);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+import type { Candle } from "../types/candle.js";
+
+export interface AdxSeries {
+  adx: number[];     // 趋势强度（0~100），前 2 × period - 1 根不够数据，填 NaN
+  plusDi: number[];  // +DI，前 period 根填 NaN
+  minusDi: number[]; // -DI，前 period 根填 NaN
+}
+
+/**
+ * ADX / DMI（+DI / -DI），Wilder 平滑，和 atr.ts 一样的暖机方式
+ * @param candles - K线，按时间升序
+ * @param period - 周期（默认 14）；<= 0 时全是 NaN
+ */
+export function adx(candles: Candle[], period = 14): AdxSeries {
+  const n = candles.length;
+  const result: AdxSeries = {
+    adx: new Array(n).fill(NaN),
+    plusDi: new Array(n).fill(NaN),
+    minusDi: new Array(n).fill(NaN),
+  };
+  if (period <= 0 || n <= period) return result;
+
+  let trSum = 0;
+  let plusDmSum = 0;
+  let minusDmSum = 0;
+  let dxSum = 0;
+  let prevAdx = NaN;
+
+  for (let i = 1; i < n; i++) {
+    // Safe: i 和 i-1 都在 [0, n) 里
+    const c = candles[i]!;
+    const prev = candles[i - 1]!;
+
+    const tr = Math.max(
+      c.high - c.low,
+      Math.abs(c.high - prev.close),
+      Math.abs(c.low - prev.close)
+    );
+    const up = c.high - prev.high;
+    const down = prev.low - c.low;
+    const plusDm = up > down && up > 0 ? up : 0;
+    const minusDm = down > up && down > 0 ? down : 0;
+
+    if (i <= period) {
+      trSum += tr;
+      plusDmSum += plusDm;
+      minusDmSum += minusDm;
+      if (i < period) continue;
+    } else {
+      trSum = trSum - trSum / period + tr;
+      plusDmSum = plusDmSum - plusDmSum / period + plusDm;
+      minusDmSum = minusDmSum - minusDmSum / period + minusDm;
+    }
+
+    const plusDi = trSum > 0 ? (100 * plusDmSum) / trSum : 0;
+    const minusDi = trSum > 0 ? (100 * minusDmSum) / trSum : 0;
+    const diSum = plusDi + minusDi;
+    const dx = diSum > 0 ? (100 * Math.abs(plusDi - minusDi)) / diSum : 0;
+
+    result.plusDi[i] = plusDi;
+    result.minusDi[i] = minusDi;
+
+    // 第一根 ADX = 前 period 个 DX 的平均，之后 Wilder 平滑
+    if (i < 2 * period - 1) {
+      dxSum += dx;
+    } else if (i === 2 * period - 1) {
+      dxSum += dx;
+      prevAdx = dxSum / period;
+      result.adx[i] = prevAdx;
+    } else {
+      prevAdx = (prevAdx * (period - 1) + dx) / period;
+      result.adx[i] = prevAdx;
+    }
+  }
+
+  return result;
+}
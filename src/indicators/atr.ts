@@ -38,4 +38,11 @@ export function atr(candles: Candle[], period = 14): number[] {
   }
 
   return result;
-}
\ No newline at end of file
+}
+
+/**
+ * ATR 从第几根开始有值（前 period 根是 NaN）
+ */
+export function atrWarmupBars(period = 14): number {
+  return period;
+}
@@ -0,0 +1,43 @@
+import { sma } from "./sma.js";
+
+export interface BollingerBands {
+  middle: number[];    // SMA(period)
+  upper: number[];     // middle + stdDev × σ
+  lower: number[];     // middle - stdDev × σ
+  bandwidth: number[]; // (upper - lower) / middle
+}
+
+/**
+ * 布林带（σ 用总体标准差，和 TradingView 一致）
+ * @param values - 价格序列（一般是收盘价）
+ * @param period - 周期（默认 20）
+ * @param stdDev - 几倍标准差（默认 2）
+ * @returns 前 period - 1 个点不够数据，填 NaN；period <= 0 时全是 NaN
+ */
+export function bollinger(
+  values: number[],
+  period = 20,
+  stdDev = 2
+): BollingerBands {
+  const middle = sma(values, period);
+  const upper: number[] = new Array(values.length).fill(NaN);
+  const lower: number[] = new Array(values.length).fill(NaN);
+  const bandwidth: number[] = new Array(values.length).fill(NaN);
+  if (period <= 0) return { middle, upper, lower, bandwidth };
+
+  for (let i = period - 1; i < values.length; i++) {
+    // Safe: i >= period - 1，sma 在这里已经有值
+    const mean = middle[i]!;
+    let variance = 0;
+    for (let k = i - period + 1; k <= i; k++) {
+      variance += (values[k]! - mean) ** 2;
+    }
+    const sigma = Math.sqrt(variance / period);
+
+    upper[i] = mean + stdDev * sigma;
+    lower[i] = mean - stdDev * sigma;
+    bandwidth[i] = mean !== 0 ? (upper[i]! - lower[i]!) / mean : NaN;
+  }
+
+  return { middle, upper, lower, bandwidth };
+}
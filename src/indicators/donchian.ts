@@ -0,0 +1,64 @@
+import type { Candle } from "../types/candle.js";
+
+/**
+ * 滚动最高值（含当前这一根）
+ * @returns 前 period - 1 个点不够数据，填 NaN
+ */
+export function highest(values: number[], period: number): number[] {
+  return rollingExtreme(values, period, (a, b) => a >= b);
+}
+
+/**
+ * 滚动最低值（含当前这一根）
+ * @returns 前 period - 1 个点不够数据，填 NaN
+ */
+export function lowest(values: number[], period: number): number[] {
+  return rollingExtreme(values, period, (a, b) => a <= b);
+}
+
+/**
+ * 单调队列求滑动窗口极值，O(n)
+ * better(a, b) 为 true 表示 a 至少和 b 一样"极"（a 在后面时 b 可以出队）
+ */
+function rollingExtreme(
+  values: number[],
+  period: number,
+  better: (a: number, b: number) => boolean
+): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (period <= 0) return result;
+
+  const deque: number[] = []; // 存下标，对应的值单调
+  for (let i = 0; i < values.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const v = values[i]!;
+    while (deque.length > 0 && better(v, values[deque[deque.length - 1]!]!)) {
+      deque.pop();
+    }
+    deque.push(i);
+    if (deque[0]! <= i - period) deque.shift();
+    if (i >= period - 1) {
+      result[i] = values[deque[0]!]!;
+    }
+  }
+  return result;
+}
+
+export interface DonchianChannel {
+  upper: number[];  // 最近 period 根最高价
+  lower: number[];  // 最近 period 根最低价
+  middle: number[]; // (upper + lower) / 2
+}
+
+/**
+ * 唐奇安通道（含当前这一根；要"突破前 N 根"就拿 i - 1 的值比）
+ * @param candles - K线
+ * @param period - 周期（默认 20）
+ * @returns 前 period - 1 个点不够数据，填 NaN
+ */
+export function donchian(candles: Candle[], period = 20): DonchianChannel {
+  const upper = highest(candles.map((c) => c.high), period);
+  const lower = lowest(candles.map((c) => c.low), period);
+  const middle = upper.map((u, i) => (u + lower[i]!) / 2);
+  return { upper, lower, middle };
+}
@@ -1,11 +1,33 @@
+/**
+ * EMA 的种子（第一个值）怎么取：
+ * - first : 用第一根的原始值，从第 0 根就出值（原来的算法，结果跟拉了多少历史有关）
+ * - sma   : 用前 period 根的 SMA，前 period - 1 根填 NaN（和 rsi / atr 一样的暖机约定）
+ */
+export type EmaSeed = "first" | "sma";
+
+/**
+ * 配置里读进来的字符串转成 EmaSeed（strategy.json 里的 "emaSeed"）
+ */
+export function toEmaSeed(value: string): EmaSeed {
+  if (value === "first" || value === "sma") return value;
+  throw new Error(`未知的 EMA 种子: ${value}（可用: first, sma）`);
+}
+
 /**
  * 简单EMA计算
  * @param values - 价格序列
  * @param period - 周期
+ * @param seed - 种子取法（默认 "first"，和以前一样）
  * @returns EMA序列
  */
-export function ema(values: number[], period: number): number[] {
+export function ema(
+  values: number[],
+  period: number,
+  seed: EmaSeed = "first"
+): number[] {
   if (values.length === 0) return [];
+  if (seed === "sma") return smaSeededEma(values, period);
+
   const k = 2 / (period + 1);
   const result: number[] = [];
   // Safe: we checked length > 0 above
@@ -21,3 +43,45 @@ export function ema(values: number[], period: number): number[] {
   }
   return result;
 }
+
+function smaSeededEma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (period <= 0 || values.length < period) return result;
+
+  const k = 2 / (period + 1);
+  let sum = 0;
+  for (let i = 0; i < period; i++) {
+    // Safe: values.length >= period
+    sum += values[i]!;
+  }
+  let prev = sum / period;
+  result[period - 1] = prev;
+
+  for (let i = period; i < values.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const v = values[i]! * k + prev * (1 - k);
+    result[i] = v;
+    prev = v;
+  }
+  return result;
+}
+
+/**
+ * EMA 从第几根开始可以用（回测引擎按这个算开始交易的位置）：两种种子都是 period 根
+ * - first : 种子是原始值，period 根后种子的影响还剩 e^-2 ≈ 13%，并没有收敛，
+ *           只是沿用以前"EMA200 要 200 根"的约定；周期短、又要从暖机完就开始交易的引擎用 sma
+ * - sma   : 第一个值在 period - 1，从 period 开始前一根也有值（算斜率要用）
+ */
+export function emaWarmupBars(period: number): number {
+  return period;
+}
+
+/**
+ * 从一个偏了的种子开始，EMA 要多少根才能把种子的影响压到原来的 decay 倍以下：
+ * 每根乘一次 (1 − 2/(period+1))，所以是 ceil(ln(decay) / ln(1 − 2/(period+1)))。
+ * Wilder 平滑（atr / rsi，系数 1/p）就是周期 2p − 1 的 EMA，按 2p − 1 传进来
+ */
+export function emaConvergenceBars(period: number, decay: number): number {
+  if (period <= 1) return 0;
+  return Math.ceil(Math.log(decay) / Math.log(1 - 2 / (period + 1)));
+}
@@ -0,0 +1,353 @@
+// src/indicators/indicators.test.ts
+// 指标参考值测试：期望值是按教科书 / TradingView 定义逐根手算（朴素实现）的结果，null = 暖机 NaN
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Candle } from "../types/candle.js";
+import { sma } from "./sma.js";
+import { wma } from "./wma.js";
+import { bollinger } from "./bollinger.js";
+import { macd } from "./macd.js";
+import { adx } from "./adx.js";
+import { donchian } from "./donchian.js";
+import { keltner } from "./keltner.js";
+import { supertrend } from "./supertrend.js";
+import { anchoredVwap, rollingVwap } from "./vwap.js";
+import { obv } from "./obv.js";
+import { stochRsi } from "./stoch-rsi.js";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 收盘价序列 → K线：开盘 = 上一根收盘，高低点各往外 0.5，成交量 100、110、120…
+ */
+function toCandles(closes: number[], volumes?: number[]): Candle[] {
+  return closes.map((close, i) => {
+    const open = i > 0 ? closes[i - 1]! : close;
+    return {
+      openTime: i * 4 * HOUR,
+      closeTime: (i + 1) * 4 * HOUR - 1,
+      open,
+      high: Math.max(open, close) + 0.5,
+      low: Math.min(open, close) - 0.5,
+      close,
+      volume: volumes?.[i] ?? 100 + 10 * i,
+    };
+  });
+}
+
+const CLOSES = [
+  10, 11, 12, 11, 13, 14, 13, 15, 16, 15, 14, 15, 17, 18, 17, 16, 18, 19, 20, 19,
+];
+const CANDLES = toCandles(CLOSES);
+
+/**
+ * 逐根比：期望是 null / NaN 的位置必须是 NaN，其余误差在 1e-9 以内
+ */
+function assertSeries(actual: number[], expected: (number | null)[]): void {
+  assert.equal(actual.length, expected.length, "长度不一致");
+  expected.forEach((e, i) => {
+    const a = actual[i]!;
+    if (e === null || Number.isNaN(e)) {
+      assert.ok(Number.isNaN(a), `第 ${i} 根应为 NaN，实际 ${a}`);
+    } else {
+      assert.ok(Math.abs(a - e) < 1e-9, `第 ${i} 根应为 ${e}，实际 ${a}`);
+    }
+  });
+}
+
+function assertAllNaN(values: number[]): void {
+  assert.equal(values.length, CLOSES.length);
+  assert.ok(values.every((v) => Number.isNaN(v)), "应全是 NaN");
+}
+
+describe("sma / wma", () => {
+  test("参考值，前 period - 1 根 NaN", () => {
+    assertSeries(sma(CLOSES, 3), [
+      null, null, 11, 11.3333333333, 12, 12.6666666667, 13.3333333333, 14,
+      14.6666666667, 15.3333333333, 15, 14.6666666667, 15.3333333333,
+      16.6666666667, 17.3333333333, 17, 17, 17.6666666667, 19, 19.3333333333,
+    ]);
+    assertSeries(wma(CLOSES, 3), [
+      null, null, 11.3333333333, 11.3333333333, 12.1666666667, 13.1666666667,
+      13.3333333333, 14.1666666667, 15.1666666667, 15.3333333333,
+      14.6666666667, 14.6666666667, 15.8333333333, 17.1666666667,
+      17.3333333333, 16.6666666667, 17.1666666667, 18.1666666667,
+      19.3333333333, 19.3333333333,
+    ]);
+  });
+
+  test("sma 窗口里有 NaN 时是 NaN，窗口移过去就恢复", () => {
+    assertSeries(sma([1, 2, NaN, 4, 5, 6, 7], 2), [null, 1.5, null, null, 4.5, 5.5, 6.5]);
+  });
+
+  test("period <= 0 全是 NaN", () => {
+    for (const period of [0, -1]) {
+      assertAllNaN(sma(CLOSES, period));
+      assertAllNaN(wma(CLOSES, period));
+    }
+  });
+});
+
+describe("bollinger", () => {
+  test("参考值（总体标准差），前 period - 1 根 NaN", () => {
+    const bands = bollinger(CLOSES, 5, 2);
+    assertSeries(bands.upper, [
+      null, null, null, null, 13.4396078054, 14.5323807579, 14.6396078054,
+      15.8532998323, 16.5323807579, 16.6396078054, 16.6396078054,
+      16.2649110641, 17.4396078054, 18.7393876913, 19.1393876913,
+      18.6396078054, 18.6966629547, 19.6396078054, 20.8284271247,
+      21.1129319933,
+    ]);
+    assertSeries(bands.lower, [
+      null, null, null, null, 9.3603921946, 9.8676192421, 10.5603921946,
+      10.5467001677, 11.8676192421, 12.5603921946, 12.5603921946,
+      13.7350889359, 13.3603921946, 12.8606123087, 13.2606123087,
+      14.5603921946, 15.7033370453, 15.5603921946, 15.1715728753,
+      15.6870680067,
+    ]);
+    assertSeries(bands.middle, sma(CLOSES, 5));
+  });
+
+  test("period <= 0 全是 NaN", () => {
+    for (const period of [0, -1]) {
+      const bands = bollinger(CLOSES, period);
+      assertAllNaN(bands.middle);
+      assertAllNaN(bands.upper);
+      assertAllNaN(bands.lower);
+      assertAllNaN(bands.bandwidth);
+    }
+  });
+});
+
+describe("macd", () => {
+  test("参考值：macd 从 slowPeriod - 1 开始，signal 再晚 signalPeriod - 1 根", () => {
+    const series = macd(CLOSES, 3, 5, 2);
+    assertSeries(series.macd, [
+      null, null, null, null, 0.4452160494, 0.6197273663, 0.4079432442,
+      0.6026913294, 0.7338254696, 0.4885659381, 0.1587184379, 0.1889828648,
+      0.5009071964, 0.6880641075, 0.4691057266, 0.1512686452, 0.3534448439,
+      0.5285961028, 0.665547172, 0.433606333,
+    ]);
+    assertSeries(series.signal, [
+      null, null, null, null, null, 0.5615569273, 0.4591478052, 0.554843488,
+      0.6741648091, 0.5504322284, 0.2892897014, 0.222418477, 0.4080776232,
+      0.5947352794, 0.5109822442, 0.2711731782, 0.3260209553, 0.4610710536,
+      0.5973884658, 0.4882003773,
+    ]);
+    assert.ok(Number.isNaN(series.histogram[4]!));
+    assert.ok(Math.abs(series.histogram[5]! - (0.6197273663 - 0.5615569273)) < 1e-9);
+  });
+
+  test("任何周期 <= 0 全是 NaN", () => {
+    for (const [fast, slow, signal] of [[0, 5, 2], [3, 0, 2], [3, 5, 0], [-1, 5, 2]] as const) {
+      const series = macd(CLOSES, fast, slow, signal);
+      assertAllNaN(series.macd);
+      assertAllNaN(series.signal);
+      assertAllNaN(series.histogram);
+    }
+  });
+});
+
+describe("adx / DMI", () => {
+  test("参考值（Wilder）：DI 前 period 根 NaN，ADX 前 2 × period - 1 根 NaN", () => {
+    const series = adx(CANDLES, 3);
+    assertSeries(series.plusDi, [
+      null, null, null, 33.3333333333, 33.3333333333, 38.3333333333,
+      26.4367816092, 29.2724196277, 35.3117505995, 24.5723821443,
+      16.874373299, 11.4798031477, 34.5682686108, 39.1200859184,
+      27.1206367841, 18.5744991832, 24.6974377283, 32.1166370503,
+      37.5795224477, 25.7710024337,
+    ]);
+    assertSeries(series.minusDi, [
+      null, null, null, 0, 0, 0, 0, 0, 0, 0, 15.6639449936, 10.6563367929,
+      6.1980572619, 4.3698486438, 3.0294687521, 17.8306191243,
+      10.4333014224, 7.3740561962, 5.1214807702, 3.5121705865,
+    ]);
+    assertSeries(series.adx, [
+      null, null, null, null, null, 100, 100, 100, 100, 100, 67.9066696016,
+      46.5111160026, 54.2048338207, 62.7712531764, 68.4821994136,
+      46.335912681, 44.4249439588, 50.501365109, 59.0050311561,
+      64.6741418541,
+    ]);
+  });
+
+  test("period <= 0 全是 NaN", () => {
+    for (const period of [0, -1]) {
+      const series = adx(CANDLES, period);
+      assertAllNaN(series.adx);
+      assertAllNaN(series.plusDi);
+      assertAllNaN(series.minusDi);
+    }
+  });
+});
+
+describe("donchian", () => {
+  test("参考值（含当前这根），前 period - 1 根 NaN", () => {
+    const channel = donchian(CANDLES, 4);
+    assertSeries(channel.upper, [
+      null, null, null, 12.5, 13.5, 14.5, 14.5, 15.5, 16.5, 16.5, 16.5, 16.5,
+      17.5, 18.5, 18.5, 18.5, 18.5, 19.5, 20.5, 20.5,
+    ]);
+    assertSeries(channel.lower, [
+      null, null, null, 9.5, 9.5, 10.5, 10.5, 10.5, 12.5, 12.5, 12.5, 13.5,
+      13.5, 13.5, 13.5, 14.5, 15.5, 15.5, 15.5, 15.5,
+    ]);
+    assertSeries(channel.middle, channel.upper.map((u, i) => (u + channel.lower[i]!) / 2));
+  });
+
+  test("period <= 0 全是 NaN", () => {
+    for (const period of [0, -1]) {
+      const channel = donchian(CANDLES, period);
+      assertAllNaN(channel.upper);
+      assertAllNaN(channel.lower);
+      assertAllNaN(channel.middle);
+    }
+  });
+});
+
+describe("keltner", () => {
+  test("参考值：EMA 和 ATR 都暖机完才有值", () => {
+    const channel = keltner(CANDLES, 4, 3, 2);
+    assertSeries(channel.upper, [
+      null, null, null, 15.024, 16.4810666667, 17.1330844444, 17.1094802963,
+      18.5521079309, 19.1888779272, 19.1517355355, 18.7166471741,
+      18.8470588729, 20.3862823694, 21.0838007854, 21.0849680471,
+      20.6741058788, 21.8865468944, 22.3866503813, 23.0684717253,
+      23.0654040328,
+    ]);
+    assertSeries(channel.lower, [
+      null, null, null, 7.024, 7.1477333333, 8.2441955556, 8.5168877037,
+      8.8237128691, 10.0366145528, 10.3835599525, 10.2045301187,
+      10.5056475027, 10.825341456, 12.0431735098, 12.39121653,
+      12.2116048674, 12.2448795534, 13.2922054874, 14.3388417959,
+      14.5789840799,
+    ]);
+  });
+
+  test("周期 <= 0 全是 NaN", () => {
+    for (const [emaPeriod, atrPeriod] of [[0, 3], [4, 0], [-1, 3]] as const) {
+      const channel = keltner(CANDLES, emaPeriod, atrPeriod);
+      assertAllNaN(channel.middle);
+      assertAllNaN(channel.upper);
+      assertAllNaN(channel.lower);
+    }
+  });
+});
+
+describe("supertrend", () => {
+  test("参考值：第一根有 ATR 的先当下跌，收盘穿过带子翻转", () => {
+    const series = supertrend(CANDLES, 3, 1);
+    assertSeries(series.supertrend, [
+      null, null, null, 13.5, 13.5, 11.2777777778, 11.3518518519,
+      11.5679012346, 13.2119341564, 13.3079561043, 13.3079561043,
+      13.3079561043, 13.6097647716, 15.2398431811, 15.3265621207,
+      15.3265621207, 15.3265621207, 16.2263887765, 17.3175925177,
+      17.3783950118,
+    ]);
+    assertSeries(series.direction, [
+      null, null, null, -1, -1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+    ]);
+  });
+
+  test("atrPeriod <= 0 全是 NaN", () => {
+    for (const period of [0, -1]) {
+      const series = supertrend(CANDLES, period);
+      assertAllNaN(series.supertrend);
+      assertAllNaN(series.direction);
+    }
+  });
+});
+
+describe("vwap", () => {
+  test("滚动 VWAP 参考值，前 period - 1 根 NaN", () => {
+    assertSeries(rollingVwap(CANDLES, 4), [
+      null, null, null, 10.9710144928, 11.5466666667, 12.3148148148,
+      12.7298850575, 13.4623655914, 14.303030303, 14.719047619,
+      14.9144144144, 14.9743589744, 15.1869918699, 15.8178294574,
+      16.5518518519, 16.914893617, 17.156462585, 17.4411764706,
+      18.0534591195, 18.7818181818,
+    ]);
+  });
+
+  test("锚定 VWAP 参考值，锚点之前 NaN", () => {
+    assertSeries(anchoredVwap(CANDLES, 5), [
+      null, null, null, null, null, 13.6666666667, 13.4946236559,
+      13.7916666667, 14.303030303, 14.5333333333, 14.4952380952,
+      14.5238095238, 14.7927927928, 15.179337232, 15.4444444444,
+      15.5454545455, 15.7344173442, 16.0244200244, 16.3632336656,
+      16.6242424242,
+    ]);
+  });
+
+  test("窗口内成交量全为 0 时是 NaN，有量后恢复", () => {
+    const candles = toCandles([10, 11, 12, 13, 14, 15], [0, 0, 0, 10, 0, 0]);
+    // 有量的只有第 3 根：典型价 (13.5 + 11.5 + 13) / 3
+    const tp = 38 / 3;
+    assertSeries(rollingVwap(candles, 2), [null, null, null, tp, tp, null]);
+    assertSeries(anchoredVwap(candles, 0), [null, null, null, tp, tp, tp]);
+  });
+
+  test("period <= 0 全是 NaN", () => {
+    for (const period of [0, -1]) {
+      assertAllNaN(rollingVwap(CANDLES, period));
+    }
+  });
+});
+
+describe("obv", () => {
+  test("参考值：收涨加量、收跌减量，第一根从 0 开始", () => {
+    assertSeries(obv(CANDLES), [
+      0, 110, 230, 100, 240, 390, 230, 400, 580, 390, 190, 400, 620, 850, 610,
+      360, 620, 890, 1170, 880,
+    ]);
+  });
+
+  test("平盘和零成交量都不变", () => {
+    const candles = toCandles([10, 10, 11, 12], [5, 5, 0, 7]);
+    assertSeries(obv(candles), [0, 0, 0, 7]);
+  });
+});
+
+describe("stochRsi", () => {
+  test("参考值：每层在上一层暖机完之后才开始", () => {
+    const series = stochRsi(CLOSES, 5, 4, 2, 2);
+    assertSeries(series.stochRsi, [
+      null, null, null, null, null, null, null, null, 88.9733840304, 0, 0,
+      30.4016083122, 100, 100, 11.4439786941, 0, 55.7204057037, 100, 100, 0,
+    ]);
+    assertSeries(series.k, [
+      null, null, null, null, null, null, null, null, null, 44.4866920152, 0,
+      15.2008041561, 65.2008041561, 100, 55.721989347, 5.721989347,
+      27.8602028519, 77.8602028519, 100, 50,
+    ]);
+    assertSeries(series.d, [
+      null, null, null, null, null, null, null, null, null, null,
+      22.2433460076, 7.600402078, 40.2008041561, 82.600402078,
+      77.8609946735, 30.721989347, 16.7910960994, 52.8602028519,
+      88.9301014259, 75,
+    ]);
+  });
+
+  test("RSI 窗口一动不动时是 NaN（TradingView 是 na），%K / %D 移过去后恢复", () => {
+    // 前 8 根一直涨，RSI 恒为 100；之后回落，RSI 才有高低
+    const closes = [1, 2, 3, 4, 5, 6, 7, 8, 7, 8, 6, 9, 7];
+    const series = stochRsi(closes, 2, 3, 2, 2);
+    // RSI 从第 2 根开始，stoch 窗口从第 4 根开始满；4 ~ 7 根窗口里都是 100
+    for (let i = 4; i <= 7; i++) {
+      assert.ok(Number.isNaN(series.stochRsi[i]!), `第 ${i} 根应为 NaN`);
+      assert.ok(Number.isNaN(series.k[i]!), `%K 第 ${i} 根应为 NaN`);
+    }
+    assert.ok(series.stochRsi.slice(8).every((v) => !Number.isNaN(v)));
+    assert.ok(series.k.slice(9).every((v) => !Number.isNaN(v)));
+    assert.ok(series.d.slice(10).every((v) => !Number.isNaN(v)));
+  });
+
+  test("任何周期 <= 0 全是 NaN", () => {
+    for (const periods of [[0, 4, 2, 2], [5, 0, 2, 2], [5, 4, 0, 2], [5, 4, 2, -1]] as const) {
+      const series = stochRsi(CLOSES, ...periods);
+      assertAllNaN(series.stochRsi);
+      assertAllNaN(series.k);
+      assertAllNaN(series.d);
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import type { Candle } from "../types/candle.js";
+import { ema } from "./ema.js";
+import { atr } from "./atr.js";
+
+export interface KeltnerChannel {
+  middle: number[]; // EMA(emaPeriod) of close
+  upper: number[];  // middle + multiplier × ATR
+  lower: number[];  // middle - multiplier × ATR
+}
+
+/**
+ * 肯特纳通道
+ * @param candles - K线
+ * @param emaPeriod - 中轨 EMA 周期（默认 20）
+ * @param atrPeriod - ATR 周期（默认 10）
+ * @param multiplier - 几倍 ATR（默认 2）
+ * @returns EMA 和 ATR 都暖机完之前填 NaN；周期 <= 0 时全是 NaN
+ */
+export function keltner(
+  candles: Candle[],
+  emaPeriod = 20,
+  atrPeriod = 10,
+  multiplier = 2
+): KeltnerChannel {
+  const mid = ema(candles.map((c) => c.close), emaPeriod);
+  const atrValues = atr(candles, atrPeriod);
+
+  const middle: number[] = new Array(candles.length).fill(NaN);
+  const upper: number[] = new Array(candles.length).fill(NaN);
+  const lower: number[] = new Array(candles.length).fill(NaN);
+  if (emaPeriod <= 0 || atrPeriod <= 0) return { middle, upper, lower };
+
+  for (let i = emaPeriod - 1; i < candles.length; i++) {
+    const a = atrValues[i]!;
+    if (Number.isNaN(a)) continue;
+    middle[i] = mid[i]!;
+    upper[i] = mid[i]! + multiplier * a;
+    lower[i] = mid[i]! - multiplier * a;
+  }
+
+  return { middle, upper, lower };
+}
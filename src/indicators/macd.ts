@@ -0,0 +1,45 @@
+import { ema } from "./ema.js";
+import { applyAfterWarmup } from "./series.js";
+
+export interface MacdSeries {
+  macd: number[];      // EMA(fast) - EMA(slow)
+  signal: number[];    // EMA(signal) of macd
+  histogram: number[]; // macd - signal
+}
+
+/**
+ * MACD
+ * @param values - 价格序列（一般是收盘价）
+ * @param fastPeriod - 快线周期（默认 12）
+ * @param slowPeriod - 慢线周期（默认 26）
+ * @param signalPeriod - 信号线周期（默认 9）
+ * @returns macd 前 slowPeriod - 1 个点填 NaN；signal / histogram 再晚 signalPeriod - 1 个点；任何周期 <= 0 时全是 NaN
+ */
+export function macd(
+  values: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): MacdSeries {
+  if (fastPeriod <= 0 || slowPeriod <= 0 || signalPeriod <= 0) {
+    const empty = (): number[] => new Array(values.length).fill(NaN);
+    return { macd: empty(), signal: empty(), histogram: empty() };
+  }
+
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+
+  // ema() 从第一根就出值，这里按慢线周期补上暖机段
+  const line = values.map((_, i) =>
+    i >= slowPeriod - 1 ? fast[i]! - slow[i]! : NaN
+  );
+
+  // 信号线只在 MACD 有值以后开始算，再空出 signalPeriod - 1 根暖机
+  const signal = applyAfterWarmup(line, (valid) =>
+    ema(valid, signalPeriod).map((v, k) => (k >= signalPeriod - 1 ? v : NaN))
+  );
+
+  const histogram = line.map((v, i) => v - signal[i]!);
+
+  return { macd: line, signal, histogram };
+}
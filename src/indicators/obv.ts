@@ -0,0 +1,21 @@
+import type { Candle } from "../types/candle.js";
+
+/**
+ * 能量潮 OBV：收涨加当根成交量，收跌减，平盘不变；第一根从 0 开始
+ */
+export function obv(candles: Candle[]): number[] {
+  if (candles.length === 0) return [];
+
+  const result: number[] = [0];
+  for (let i = 1; i < candles.length; i++) {
+    // Safe: i 和 i-1 都在 [0, candles.length) 里
+    const c = candles[i]!;
+    const prevClose = candles[i - 1]!.close;
+    const prevObv = result[i - 1]!;
+
+    if (c.close > prevClose) result.push(prevObv + c.volume);
+    else if (c.close < prevClose) result.push(prevObv - c.volume);
+    else result.push(prevObv);
+  }
+  return result;
+}
@@ -31,4 +31,11 @@ export function rsi(closes: number[], period = 14): number[] {
   }
 
   return result;
-}
\ No newline at end of file
+}
+
+/**
+ * RSI 从第几根开始有值（前 period 根是 NaN）
+ */
+export function rsiWarmupBars(period = 14): number {
+  return period;
+}
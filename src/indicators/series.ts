@@ -0,0 +1,21 @@
+/**
+ * 第一个不是 NaN 的下标（全是 NaN 时返回 values.length）
+ */
+export function firstValidIndex(values: number[]): number {
+  let i = 0;
+  while (i < values.length && Number.isNaN(values[i]!)) i++;
+  return i;
+}
+
+/**
+ * 对"前面一段是 NaN 暖机"的序列再套一层指标（比如 MACD 的 signal、StochRSI 的 %K / %D）：
+ * 只把有值的后半段交给 fn，前面补回同样长度的 NaN，下标和原序列对齐。
+ */
+export function applyAfterWarmup(
+  values: number[],
+  fn: (valid: number[]) => number[]
+): number[] {
+  const start = firstValidIndex(values);
+  const head: number[] = new Array(start).fill(NaN);
+  return head.concat(fn(values.slice(start)));
+}
@@ -0,0 +1,28 @@
+/**
+ * 简单移动平均
+ * @param values - 数值序列
+ * @param period - 周期
+ * @returns SMA序列（前 period - 1 个点不够数据，填 NaN；窗口里有 NaN 的点也是 NaN，窗口移过去就恢复）
+ */
+export function sma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (period <= 0) return result;
+
+  let sum = 0;
+  let nanCount = 0; // 窗口内 NaN 个数（NaN 不进 sum，不然后面全被带成 NaN）
+  for (let i = 0; i < values.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const v = values[i]!;
+    if (Number.isNaN(v)) nanCount++;
+    else sum += v;
+    if (i >= period) {
+      const old = values[i - period]!;
+      if (Number.isNaN(old)) nanCount--;
+      else sum -= old;
+    }
+    if (i >= period - 1 && nanCount === 0) {
+      result[i] = sum / period;
+    }
+  }
+  return result;
+}
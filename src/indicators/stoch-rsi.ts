@@ -0,0 +1,54 @@
+import { rsi } from "./rsi.js";
+import { sma } from "./sma.js";
+import { highest, lowest } from "./donchian.js";
+import { applyAfterWarmup } from "./series.js";
+
+export interface StochRsiSeries {
+  stochRsi: number[]; // 原始 StochRSI（0~100）
+  k: number[];        // SMA(kPeriod) of stochRsi
+  d: number[];        // SMA(dPeriod) of k
+}
+
+/**
+ * 随机 RSI：RSI 在最近 stochPeriod 个 RSI 里的位置，再做 %K / %D 平滑（0~100，和 TradingView 一样）
+ * @param closes - 收盘价
+ * @param rsiPeriod - RSI 周期（默认 14）
+ * @param stochPeriod - 随机指标窗口（默认 14）
+ * @param kPeriod - %K 平滑（默认 3）
+ * @param dPeriod - %D 平滑（默认 3）
+ * @returns 每一层都在上一层暖机完之后才开始，之前填 NaN；任何周期 <= 0 时全是 NaN
+ */
+export function stochRsi(
+  closes: number[],
+  rsiPeriod = 14,
+  stochPeriod = 14,
+  kPeriod = 3,
+  dPeriod = 3
+): StochRsiSeries {
+  const n = closes.length;
+  if (rsiPeriod <= 0 || stochPeriod <= 0 || kPeriod <= 0 || dPeriod <= 0) {
+    return {
+      stochRsi: new Array(n).fill(NaN),
+      k: new Array(n).fill(NaN),
+      d: new Array(n).fill(NaN),
+    };
+  }
+
+  const rsiValues = rsi(closes, rsiPeriod);
+
+  const raw = applyAfterWarmup(rsiValues, (valid) => {
+    const hi = highest(valid, stochPeriod);
+    const lo = lowest(valid, stochPeriod);
+    return valid.map((v, i) => {
+      const range = hi[i]! - lo[i]!;
+      if (Number.isNaN(range)) return NaN;
+      // RSI 窗口内一动不动：没有位置可言，填 NaN（TradingView 是 na），%K / %D 也跟着空这几根
+      return range > 0 ? ((v - lo[i]!) / range) * 100 : NaN;
+    });
+  });
+
+  const k = applyAfterWarmup(raw, (valid) => sma(valid, kPeriod));
+  const d = applyAfterWarmup(k, (valid) => sma(valid, dPeriod));
+
+  return { stochRsi: raw, k, d };
+}
@@ -0,0 +1,104 @@
+// src/indicators/streaming.test.ts
+// 流式指标和批量函数在真实 4H 数据上逐根比对：要求完全相等（不是近似），state 存成 JSON 再接着喂也一样
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { Candle } from "../types/candle.js";
+import { ema, type EmaSeed } from "./ema.js";
+import { atr } from "./atr.js";
+import { rsi } from "./rsi.js";
+import {
+  streamingAtr,
+  streamingEma,
+  streamingRsi,
+  type StreamingIndicator,
+} from "./streaming.js";
+
+const candles: Candle[] = JSON.parse(
+  readFileSync(new URL("../../data/btc-4h.json", import.meta.url), "utf8")
+);
+const closes = candles.map((c) => c.close);
+
+/**
+ * 整段一口气喂完；cut 给了就在 cut 处把 state 过一遍 JSON，用 resume 新建一个接着喂
+ */
+function runStreaming<S>(
+  indicator: StreamingIndicator<S>,
+  resume?: { cut: number; make: (state: S) => StreamingIndicator<S> }
+): number[] {
+  const out: number[] = [];
+  let current = indicator;
+  candles.forEach((c, i) => {
+    if (resume && i === resume.cut) {
+      current = resume.make(JSON.parse(JSON.stringify(current.state)) as S);
+    }
+    out.push(current.update(c));
+  });
+  return out;
+}
+
+/**
+ * 逐根完全相等（NaN 对 NaN 算相等），报错时指出第一根不一致的下标
+ */
+function assertSameSeries(actual: number[], expected: number[]): void {
+  assert.equal(actual.length, expected.length);
+  for (let i = 0; i < expected.length; i++) {
+    const a = actual[i]!;
+    const e = expected[i]!;
+    if (Number.isNaN(e)) {
+      assert.ok(Number.isNaN(a), `第 ${i} 根应为 NaN，实际 ${a}`);
+    } else {
+      assert.equal(a, e, `第 ${i} 根不一致`);
+    }
+  }
+}
+
+describe("流式指标和批量结果逐根一致（data/btc-4h.json）", () => {
+  for (const seed of ["first", "sma"] as EmaSeed[]) {
+    test(`EMA(50 / 200)，seed = ${seed}`, () => {
+      for (const period of [50, 200]) {
+        const batch = ema(closes, period, seed);
+        assertSameSeries(runStreaming(streamingEma(period, undefined, seed)), batch);
+      }
+    });
+
+    test(`EMA(200) state 存成 JSON 再接着喂，seed = ${seed}`, () => {
+      const batch = ema(closes, 200, seed);
+      // 100：暖机期间断开（sma 种子还在累加）；1500：暖机完以后断开
+      for (const cut of [100, 1500]) {
+        const resumed = runStreaming(streamingEma(200, undefined, seed), {
+          cut,
+          make: (state) => streamingEma(200, state, seed),
+        });
+        assertSameSeries(resumed, batch);
+      }
+    });
+  }
+
+  test("ATR(14)，含 JSON 续跑", () => {
+    const batch = atr(candles, 14);
+    assertSameSeries(runStreaming(streamingAtr(14)), batch);
+    for (const cut of [5, 1500]) {
+      assertSameSeries(
+        runStreaming(streamingAtr(14), { cut, make: (state) => streamingAtr(14, state) }),
+        batch
+      );
+    }
+  });
+
+  test("RSI(14)，含 JSON 续跑", () => {
+    const batch = rsi(closes, 14);
+    assertSameSeries(runStreaming(streamingRsi(14)), batch);
+    for (const cut of [5, 1500]) {
+      assertSameSeries(
+        runStreaming(streamingRsi(14), { cut, make: (state) => streamingRsi(14, state) }),
+        batch
+      );
+    }
+  });
+
+  test("状态的种子和当前种子不一致直接报错", () => {
+    const state = streamingEma(50, undefined, "sma").state;
+    assert.throws(() => streamingEma(50, state, "first"), /种子/);
+  });
+});
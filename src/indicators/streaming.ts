@@ -0,0 +1,183 @@
+import type { Candle } from "../types/candle.js";
+import type { EmaSeed } from "./ema.js";
+
+/**
+ * 增量（流式）指标：一根一根喂已收盘K线，和批量函数（ema / atr / rsi）逐根结果完全一致。
+ * state 是纯数据（能直接 JSON.stringify），存下来下次用它接着喂，不用每次从头重算。
+ */
+export interface StreamingIndicator<S> {
+  /** 喂一根已收盘K线，返回这根K线上的指标值（暖机前 NaN） */
+  update(candle: Candle): number;
+  /** 最近一次 update 的值（还没喂过 / 暖机前 NaN） */
+  readonly value: number;
+  /** 当前状态快照（拷贝，改它不影响指标本身） */
+  readonly state: S;
+}
+
+export interface EmaState {
+  period: number;
+  seed?: EmaSeed; // 不写 = "first"（旧状态文件没有这个字段）
+  count: number;  // 已经喂了几根
+  sum?: number;   // seed = "sma" 暖机期间的收盘价累加
+  value: number;  // 有值以后有效（first：count > 0；sma：count >= period）
+}
+
+export interface AtrState {
+  period: number;
+  count: number;
+  prevClose: number; // count > 0 时有效
+  trSum: number;     // 暖机期间的 TR 累加
+  value: number;     // count > period 时有效
+}
+
+export interface RsiState {
+  period: number;
+  count: number;
+  prevClose: number; // count > 0 时有效
+  gain: number;      // 暖机期间的涨幅累加
+  loss: number;      // 暖机期间的跌幅累加
+  avgGain: number;   // count > period 时有效
+  avgLoss: number;
+}
+
+/**
+ * 流式 EMA（和 ema() 一样：seed = "first" 用第一根收盘价做种子，"sma" 用前 period 根的均值）
+ */
+export function streamingEma(
+  period: number,
+  initial?: EmaState,
+  seed: EmaSeed = initial?.seed ?? "first"
+): StreamingIndicator<EmaState> {
+  if (initial && (initial.seed ?? "first") !== seed) {
+    throw new Error(`EMA 状态的种子 (${initial.seed ?? "first"}) 和当前种子 (${seed}) 不一致`);
+  }
+  const s: EmaState = initial
+    ? { ...initial, seed }
+    : { period, seed, count: 0, sum: 0, value: 0 };
+  checkPeriod("EMA", period, s.period);
+  const k = 2 / (period + 1);
+  const ready = () => (seed === "sma" ? s.count >= period : s.count > 0);
+
+  return {
+    update(candle) {
+      if (seed === "sma" && s.count < period) {
+        s.sum = (s.sum ?? 0) + candle.close;
+        if (s.count === period - 1) s.value = s.sum / period;
+      } else if (seed === "first" && s.count === 0) {
+        s.value = candle.close;
+      } else {
+        s.value = candle.close * k + s.value * (1 - k);
+      }
+      s.count++;
+      return ready() ? s.value : NaN;
+    },
+    get value() {
+      return ready() ? s.value : NaN;
+    },
+    get state() {
+      return { ...s };
+    },
+  };
+}
+
+/**
+ * 流式 ATR（和 atr() 一样：前 period 根 NaN，第 period 根是 TR 均值，之后 Wilder 平滑）
+ */
+export function streamingAtr(
+  period: number,
+  initial?: AtrState
+): StreamingIndicator<AtrState> {
+  const s: AtrState = initial
+    ? { ...initial }
+    : { period, count: 0, prevClose: 0, trSum: 0, value: 0 };
+  checkPeriod("ATR", period, s.period);
+
+  const current = () => (s.count > period ? s.value : NaN);
+
+  return {
+    update(candle) {
+      if (s.count > 0) {
+        const tr = Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - s.prevClose),
+          Math.abs(candle.low - s.prevClose)
+        );
+        // 这根的下标 = count（和 atr() 里的 i 对应）
+        if (s.count <= period) {
+          s.trSum += tr;
+          if (s.count === period) s.value = s.trSum / period;
+        } else {
+          s.value = (s.value * (period - 1) + tr) / period;
+        }
+      }
+      s.prevClose = candle.close;
+      s.count++;
+      return current();
+    },
+    get value() {
+      return current();
+    },
+    get state() {
+      return { ...s };
+    },
+  };
+}
+
+/**
+ * 流式 RSI（和 rsi() 一样：前 period 根 NaN，之后 Wilder 平滑）
+ */
+export function streamingRsi(
+  period: number,
+  initial?: RsiState
+): StreamingIndicator<RsiState> {
+  const s: RsiState = initial
+    ? { ...initial }
+    : { period, count: 0, prevClose: 0, gain: 0, loss: 0, avgGain: 0, avgLoss: 0 };
+  checkPeriod("RSI", period, s.period);
+
+  const current = () => {
+    if (s.count <= period) return NaN;
+    const rs = s.avgLoss === 0 ? Infinity : s.avgGain / s.avgLoss;
+    return 100 - 100 / (1 + rs);
+  };
+
+  return {
+    update(candle) {
+      if (s.count > 0) {
+        const diff = candle.close - s.prevClose;
+        // 这根的下标 = count（和 rsi() 里的 i 对应）
+        if (s.count <= period) {
+          if (diff >= 0) s.gain += diff;
+          else s.loss -= diff;
+          if (s.count === period) {
+            s.avgGain = s.gain / period;
+            s.avgLoss = s.loss / period;
+          }
+        } else {
+          const currentGain = diff > 0 ? diff : 0;
+          const currentLoss = diff < 0 ? -diff : 0;
+          s.avgGain = (s.avgGain * (period - 1) + currentGain) / period;
+          s.avgLoss = (s.avgLoss * (period - 1) + currentLoss) / period;
+        }
+      }
+      s.prevClose = candle.close;
+      s.count++;
+      return current();
+    },
+    get value() {
+      return current();
+    },
+    get state() {
+      return { ...s };
+    },
+  };
+}
+
+/**
+ * 存下来的状态是别的周期算的，不能接着用
+ */
+function checkPeriod(name: string, period: number, statePeriod: number) {
+  if (period !== statePeriod) {
+    throw new Error(`${name} 状态的周期 (${statePeriod}) 和当前周期 (${period}) 不一致`);
+  }
+}
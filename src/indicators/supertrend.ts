@@ -0,0 +1,70 @@
+import type { Candle } from "../types/candle.js";
+import { atr } from "./atr.js";
+
+export interface SuperTrendSeries {
+  supertrend: number[]; // 当前生效的那条带（上涨时是下轨，下跌时是上轨）
+  direction: number[];  // 1 = 上涨，-1 = 下跌，暖机前 NaN
+}
+
+/**
+ * SuperTrend：hl2 ± multiplier × ATR，带子只往趋势方向收紧，收盘穿过就翻转
+ * @param candles - K线
+ * @param atrPeriod - ATR 周期（默认 10）
+ * @param multiplier - 几倍 ATR（默认 3）
+ * @returns ATR 暖机完之前（前 atrPeriod 个点）填 NaN；atrPeriod <= 0 时全是 NaN
+ */
+export function supertrend(
+  candles: Candle[],
+  atrPeriod = 10,
+  multiplier = 3
+): SuperTrendSeries {
+  const atrValues = atr(candles, atrPeriod);
+  const supertrendValues: number[] = new Array(candles.length).fill(NaN);
+  const direction: number[] = new Array(candles.length).fill(NaN);
+  if (atrPeriod <= 0) return { supertrend: supertrendValues, direction };
+
+  let prevUpper = NaN;
+  let prevLower = NaN;
+  let prevDirection = -1;
+
+  for (let i = 0; i < candles.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const c = candles[i]!;
+    const a = atrValues[i]!;
+    if (Number.isNaN(a)) continue;
+
+    const hl2 = (c.high + c.low) / 2;
+    const basicUpper = hl2 + multiplier * a;
+    const basicLower = hl2 - multiplier * a;
+    const prevClose = candles[i - 1]?.close ?? c.close;
+
+    // 上轨只降不升（除非上一根收盘已经在上轨上方），下轨同理
+    const upper =
+      Number.isNaN(prevUpper) || basicUpper < prevUpper || prevClose > prevUpper
+        ? basicUpper
+        : prevUpper;
+    const lower =
+      Number.isNaN(prevLower) || basicLower > prevLower || prevClose < prevLower
+        ? basicLower
+        : prevLower;
+
+    let dir = prevDirection;
+    if (Number.isNaN(prevUpper)) {
+      // 第一根有 ATR 的K线先当下跌（和 TradingView ta.supertrend 一样）
+      dir = -1;
+    } else if (prevDirection === -1 && c.close > upper) {
+      dir = 1;
+    } else if (prevDirection === 1 && c.close < lower) {
+      dir = -1;
+    }
+
+    direction[i] = dir;
+    supertrendValues[i] = dir === 1 ? lower : upper;
+
+    prevUpper = upper;
+    prevLower = lower;
+    prevDirection = dir;
+  }
+
+  return { supertrend: supertrendValues, direction };
+}
@@ -0,0 +1,57 @@
+import type { Candle } from "../types/candle.js";
+
+/**
+ * 典型价格 (high + low + close) / 3
+ */
+function typicalPrice(c: Candle): number {
+  return (c.high + c.low + c.close) / 3;
+}
+
+/**
+ * 滚动 VWAP：最近 period 根的 Σ(典型价 × 量) / Σ量
+ * 注意 HTX 的 vol 是 USDT 成交额、Binance 是币数量，权重口径不同，别混着比（见 filters/volume.ts）
+ * @returns 前 period - 1 个点不够数据填 NaN；窗口内总量为 0 时也是 NaN
+ */
+export function rollingVwap(candles: Candle[], period: number): number[] {
+  const result: number[] = new Array(candles.length).fill(NaN);
+  if (period <= 0) return result;
+
+  let pv = 0;
+  let vol = 0;
+  for (let i = 0; i < candles.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const c = candles[i]!;
+    pv += typicalPrice(c) * c.volume;
+    vol += c.volume;
+    if (i >= period) {
+      const old = candles[i - period]!;
+      pv -= typicalPrice(old) * old.volume;
+      vol -= old.volume;
+    }
+    if (i >= period - 1 && vol > 0) {
+      result[i] = pv / vol;
+    }
+  }
+  return result;
+}
+
+/**
+ * 锚定 VWAP：从 anchorIndex 那根开始累计
+ * @returns anchorIndex 之前填 NaN；累计量为 0 时也是 NaN
+ */
+export function anchoredVwap(candles: Candle[], anchorIndex: number): number[] {
+  const result: number[] = new Array(candles.length).fill(NaN);
+
+  let pv = 0;
+  let vol = 0;
+  for (let i = Math.max(anchorIndex, 0); i < candles.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const c = candles[i]!;
+    pv += typicalPrice(c) * c.volume;
+    vol += c.volume;
+    if (vol > 0) {
+      result[i] = pv / vol;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,31 @@
+/**
+ * 线性加权移动平均（最近一根权重 period，最早一根权重 1）
+ * @param values - 数值序列
+ * @param period - 周期
+ * @returns WMA序列（前 period - 1 个点不够数据，填 NaN）
+ */
+export function wma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (period <= 0) return result;
+
+  const weightSum = (period * (period + 1)) / 2;
+  let sum = 0;      // 窗口内简单和
+  let weighted = 0; // 窗口内加权和
+
+  for (let i = 0; i < values.length; i++) {
+    // Safe: i is guaranteed to be in bounds by the loop condition
+    const v = values[i]!;
+    if (i < period) {
+      weighted += v * (i + 1);
+      sum += v;
+    } else {
+      // 窗口右移一格：所有旧值权重 -1（减掉旧的简单和），新值权重 period
+      weighted = weighted - sum + v * period;
+      sum = sum - values[i - period]! + v;
+    }
+    if (i >= period - 1) {
+      result[i] = weighted / weightSum;
+    }
+  }
+  return result;
+}
@@ -2,6 +2,7 @@
 import { promises as fs } from "fs";
 import path from "node:path";
 import type { Regime } from "../strategy/regime.js";
+import type { TradeSide } from "../types/candle.js";
 
 const LOG_FILE = "signal-log.jsonl"; // 会写在你运行 node 的当前目录
 
@@ -11,6 +12,7 @@ export interface SignalLogEntry {
   stopLoss: number;
   takeProfit: number;
   rawSignal: string;
+  side?: TradeSide;      // 这次信号对应的方向（SL / TP 按它算）
   trendOk: boolean;
   regimeOk?: boolean; // 可选：高周期 regime 过滤结果
   ema50: number;
@@ -20,6 +22,11 @@ export interface SignalLogEntry {
   rsiOk?: boolean;
   premiumOverEma50Pct?: number;
   notTooHigh?: boolean;
+  relativeVolume?: number; // 当前成交量 / 均量（配了 volumeFilter 才有）
+  volumeOk?: boolean;
+  volumeSpikeOk?: boolean; // 配了 volumeFilter.spike 才有
+  atrFractalRatio?: number; // ATR(4H) / ATR(1H)（配了 atrFractal 才有）
+  atrFractalOk?: boolean;
 
   // 方便你以后看杠杆风险
   leverage3x: {
@@ -1,16 +1,43 @@
 // src/run-every-4h.ts
 import "dotenv/config";
-import { fetchBtc4hCandles, fetchBtc1dCandles } from "./exchange/htx.js";
-import type { Candle } from "./types/candle.js";
-import { ema } from "./indicators/ema.js";
-import { atr } from "./indicators/atr.js";
-import { detectSignal } from "./strategy/simple-trend.js";
-import { detectSignalV2 } from "./strategy/simple-trend-v2.js";
-import { detectSignalV3 } from "./strategy/simple-trend-v3.js"; // ✅ 新增 V3
-import { detectRegimeFromEma, type Regime } from "./strategy/regime.js";
+import {
+  fetchBtc4hCandles,
+  fetchBtc1dCandles,
+  fetchBtc1hCandles,
+} from "./exchange/htx.js";
+import type { Candle, TradeSide } from "./types/candle.js";
+import { toEmaSeed } from "./indicators/ema.js";
+import {
+  streamingAtr,
+  streamingEma,
+  streamingRsi,
+} from "./indicators/streaming.js";
+import {
+  loadIndicatorState,
+  saveIndicatorState,
+  type LiveIndicatorState,
+} from "./store/indicator-state-store.js";
+import { getStrategy, resolveParams } from "./strategy/registry.js";
+import type { Signal, Strategy, StrategyParams } from "./strategy/types.js";
+import { SIGNAL_TOLERANCE, signalHistoryBars } from "./strategy/history.js";
+import type { Regime } from "./strategy/regime.js";
+import {
+  closedDailyRegimes,
+  createRegimeDetector,
+} from "./strategy/regime-detector.js";
 import { sendDiscordNotification } from "./notify/notify-discord.js";
 import { appendSignalLog } from "./log/signal-log.js";
-import { rsi } from "./indicators/rsi.js"; // ✅ 新增
+import { configForStrategy, type StrategyConfig } from "./backtest-regime.js";
+import {
+  relativeVolumeSeries,
+  resolveVolumeFilter,
+  volumeFilterAt,
+} from "./filters/volume.js";
+import {
+  atrFractalAt,
+  atrFractalSeries,
+  resolveAtrFractal,
+} from "./filters/atr-fractal.js";
 
 // ✅ HTX 永续下单 / TPSL + 仓位查询
 import {
@@ -23,9 +50,26 @@ import {
 import strategy from "./config/strategy.json" with { type: "json" };
 import position from "./config/position.json" with { type: "json" };
 
-const CONFIG = strategy;
+// 顶层参数 + 当前策略在 strategyOverrides 里的那一块
+const CONFIG = configForStrategy(strategy);
 const POSITION = position;
 
+// 允许开多的日线 regime（strategy.json 的 allowedHigherTFRegimes，不写就只允许 BULL）
+const LONG_REGIMES: Regime[] =
+  (CONFIG as StrategyConfig).allowedHigherTFRegimes ?? ["BULL"];
+
+// 允许开空的日线 regime（strategy.json 的 allowedHigherTFRegimesShort，不写就不做空）
+const SHORT_REGIMES: Regime[] =
+  (CONFIG as StrategyConfig).allowedHigherTFRegimesShort ?? [];
+
+// EMA 种子（strategy.json 的 emaSeed，不写是 "first"），和回测保持一致
+const EMA_SEED = toEmaSeed((CONFIG as StrategyConfig).emaSeed ?? "first");
+
+// 日线 regime 判断器（strategy.json 的 regimeDetector，不写就是 EMA50 / EMA200 + 斜率）
+const REGIME_DETECTOR = createRegimeDetector(
+  (CONFIG as StrategyConfig).regimeDetector
+);
+
 // 是否实盘：通过环境变量控制
 // .env:
 //   LIVE_TRADE=true  才会在 HTX 实盘下单
@@ -37,15 +81,170 @@ const TEST_MODE = process.env.TEST_MODE === "true";
 const CONTRACT_CODE = "BTC-USDT";
 const CONTRACT_SIZE_BTC = 0.001;
 
+const FOUR_HOURS = 4 * 60 * 60 * 1000;
+
+// 没有可用的指标状态（第一次跑 / 周期改了 / 断档太久）时整段拉多少根 4H（HTX 单次最多 2000）
+const FULL_FETCH_4H_BARS = 2000;
+
+// 缓存的已收盘 4H K线至少留多少根（成交量均线 / ATR 分形这类短窗口够用）
+const MIN_HISTORY_4H_BARS = 300;
+
+/**
+ * 还得批量算的部分（信号策略的 computeIndicators、成交量过滤、ATR 分形）要多少根 4H：
+ * Strategy 接口只有批量的 computeIndicators，所以信号策略的指标每次在缓存的最近这些K线上重算，
+ * 长度按 signalHistoryBars 取，保证和回测全历史算出来的相对差 < SIGNAL_TOLERANCE
+ * （流式的 EMA / ATR / RSI 不受影响，还是接着全历史的状态算）
+ */
+function liveHistoryBars(strategy: Strategy, params: StrategyParams): number {
+  const bars = Math.max(signalHistoryBars(strategy, params), MIN_HISTORY_4H_BARS);
+  if (bars > FULL_FETCH_4H_BARS) {
+    console.warn(
+      `⚠️ ${strategy.name} 的指标要 ${bars} 根 4H 才能和全历史一致（< ${SIGNAL_TOLERANCE}），` +
+        `整段重拉最多 ${FULL_FETCH_4H_BARS} 根，信号可能和回测有细微差别。`
+    );
+  }
+  return bars;
+}
+
+interface Live4hPeriods {
+  emaFast: number;
+  emaSlow: number;
+  atr: number;
+  rsi: number;
+}
+
+/**
+ * 读上次存的 4H 指标状态；周期 / EMA 种子对不上就当没有（从头算）
+ */
+function loadLiveIndicatorState(periods: Live4hPeriods): LiveIndicatorState | null {
+  const saved = loadIndicatorState();
+  if (
+    saved &&
+    (saved.emaFast.period !== periods.emaFast ||
+      saved.emaSlow.period !== periods.emaSlow ||
+      (saved.emaFast.seed ?? "first") !== EMA_SEED ||
+      (saved.emaSlow.seed ?? "first") !== EMA_SEED ||
+      saved.atr.period !== periods.atr ||
+      saved.rsi.period !== periods.rsi)
+  ) {
+    console.log("指标周期 / EMA 种子和上次存的状态不一致，从头重算 4H 指标。");
+    return null;
+  }
+  return saved;
+}
+
+/**
+ * 拉 4H K线：
+ * - 有上次的状态和缓存K线：只拉 lastCloseTime 之后的（多拉一根 lastCloseTime 那根核对接得上），
+ *   拼到缓存后面，返回的最后一根是当前这根
+ * - 没有 / 接不上 / 断档比缓存还长：整段拉 FULL_FETCH_4H_BARS 根，resumed = false（指标从头算）
+ */
+async function fetchLive4hCandles(
+  saved: LiveIndicatorState | null,
+  historyBars: number
+): Promise<{ candles: Candle[]; resumed: boolean }> {
+  if (saved?.candles && saved.candles.length > 0) {
+    // 上次之后收盘的根数 + 当前这根 + 用来核对的 lastCloseTime 那根
+    const size = Math.ceil((Date.now() - saved.lastCloseTime) / FOUR_HOURS) + 2;
+    if (size <= historyBars) {
+      const fetched = await fetchBtc4hCandles(size);
+      const idx = fetched.findIndex((c) => c.closeTime === saved.lastCloseTime);
+      if (idx >= 0) {
+        console.log(`4H 只拉了上次之后的 ${fetched.length - idx - 1} 根（含当前这根）。`);
+        return { candles: [...saved.candles, ...fetched.slice(idx + 1)], resumed: true };
+      }
+    }
+    console.log("上次的指标状态接不上这次拉到的K线（断档太久？），整段重拉、从头重算 4H 指标。");
+  }
+  return { candles: await fetchBtc4hCandles(FULL_FETCH_4H_BARS), resumed: false };
+}
+
+/**
+ * 4H EMA / ATR / RSI（流式）：
+ * - 接着上次存的状态算，只喂 lastCloseTime 之后新收盘的K线；没有状态就用拉到的全部K线从头算
+ * - 最后一根（当前这根）只在状态的拷贝上算、不写回，等它下次定型了再正式喂进去
+ * - 存状态时顺带存最近 historyBars 根已收盘K线，下次只拉新的
+ */
+function computeLive4hIndicators(
+  candles4h: Candle[],
+  periods: Live4hPeriods,
+  saved: LiveIndicatorState | null,
+  historyBars: number
+) {
+  const committed = candles4h.slice(0, -1);
+  const current = candles4h[candles4h.length - 1]!;
+
+  let start = 0;
+  if (saved) {
+    start = committed.findIndex((c) => c.closeTime === saved.lastCloseTime) + 1;
+  }
+
+  const emaFast = streamingEma(periods.emaFast, saved?.emaFast, EMA_SEED);
+  const emaSlow = streamingEma(periods.emaSlow, saved?.emaSlow, EMA_SEED);
+  const atr4h = streamingAtr(periods.atr, saved?.atr);
+  const rsi4h = streamingRsi(periods.rsi, saved?.rsi);
+
+  const fresh = committed.slice(start);
+  for (const c of fresh) {
+    emaFast.update(c);
+    emaSlow.update(c);
+    atr4h.update(c);
+    rsi4h.update(c);
+  }
+  console.log(
+    saved
+      ? `4H 指标接着上次的状态算，新喂 ${fresh.length} 根已收盘K线。`
+      : `4H 指标从头算，喂了 ${fresh.length} 根已收盘K线。`
+  );
+
+  const lastCommitted = committed[committed.length - 1];
+  if (lastCommitted) {
+    saveIndicatorState({
+      lastCloseTime: lastCommitted.closeTime,
+      emaFast: emaFast.state,
+      emaSlow: emaSlow.state,
+      atr: atr4h.state,
+      rsi: rsi4h.state,
+      candles: committed.slice(-historyBars),
+    });
+  }
+
+  return {
+    emaFast: streamingEma(periods.emaFast, emaFast.state, EMA_SEED).update(current),
+    emaSlow: streamingEma(periods.emaSlow, emaSlow.state, EMA_SEED).update(current),
+    emaSlowPrev: emaSlow.value,
+    atr: streamingAtr(periods.atr, atr4h.state).update(current),
+    rsi: streamingRsi(periods.rsi, rsi4h.state).update(current),
+  };
+}
+
 async function runOnce() {
   console.log("正在从 HTX 获取BTCUSDT 4小时 & 日线 K 线...");
   console.log(`LIVE_TRADE = ${LIVE_TRADE ? "✅ 实盘" : "❌ 仅信号"}`);
   console.log(`TEST_MODE = ${TEST_MODE ? "✅ 测试模式(强制信号)" : "❌ 正常模式"}`);
 
-  const [candles4h, candles1d] = await Promise.all([
-    fetchBtc4hCandles(3000),
+  const emaFastPeriod = CONFIG.emaFast ?? 50;
+  const emaSlowPeriod = CONFIG.emaSlow ?? 200;
+  const atrPeriod = CONFIG.atrPeriod ?? 14;
+  const rsiPeriod = CONFIG.rsiPeriod ?? 14;
+  const periods: Live4hPeriods = {
+    emaFast: emaFastPeriod,
+    emaSlow: emaSlowPeriod,
+    atr: atrPeriod,
+    rsi: rsiPeriod,
+  };
+
+  // strategy.json 指定的信号策略（批量指标要的历史长度看它的暖机）
+  const signalStrategy = getStrategy(CONFIG.strategy);
+  const signalParams = resolveParams(signalStrategy, CONFIG);
+  const historyBars = liveHistoryBars(signalStrategy, signalParams);
+
+  const saved = loadLiveIndicatorState(periods);
+  const [fetched4h, candles1d] = await Promise.all([
+    fetchLive4hCandles(saved, historyBars),
     fetchBtc1dCandles(500),
   ]);
+  const candles4h = fetched4h.candles;
 
   console.log(`4H K 线数量: ${candles4h.length}`);
   console.log(`1D K 线数量: ${candles1d.length}`);
@@ -60,35 +259,30 @@ async function runOnce() {
   }
 
   // =============== 4H 部分 ===============
-  const closes4h = candles4h.map((c) => c.close);
-  const emaFastPeriod = CONFIG.emaFast ?? 50;
-  const emaSlowPeriod = CONFIG.emaSlow ?? 200;
-  const atrPeriod = CONFIG.atrPeriod ?? 14;
-  const rsiPeriod = CONFIG.rsiPeriod ?? 14;
-  const ema50_4h = ema(closes4h, emaFastPeriod);
-  const ema200_4h = ema(closes4h, emaSlowPeriod);
-  const atr14_4h = atr(candles4h, atrPeriod);
-  const rsiArr4h = rsi(closes4h, rsiPeriod);
+  const live4h = computeLive4hIndicators(
+    candles4h,
+    periods,
+    fetched4h.resumed ? saved : null,
+    historyBars
+  );
 
   const i = candles4h.length - 1;
   const candle4h = candles4h[i] as Candle;
   const price4h = candle4h.close;
-  const prevPrice4h = closes4h[i - 1]!;
-  const e50_4h = ema50_4h[i]!;
-  const prevE50_4h = ema50_4h[i - 1]!;
-  const e200_4h = ema200_4h[i]!;
-  const e200Prev_4h = ema200_4h[i - 1]!;
-  const atrValue4h = atr14_4h[i];
-  const rsiNow = rsiArr4h[i];
+  const e50_4h = live4h.emaFast;
+  const e200_4h = live4h.emaSlow;
+  const e200Prev_4h = live4h.emaSlowPrev;
+  const atrValue4h = live4h.atr;
+  const rsiNow = live4h.rsi;
   const premiumOverEma50 =
     e50_4h > 0 ? (price4h - e50_4h) / e50_4h : 0;
 
-  if (atrValue4h === undefined) {
+  if (Number.isNaN(atrValue4h)) {
     console.log("ATR 数据不足，跳过本次。");
     return;
   }
 
-  if (rsiNow === undefined) {
+  if (Number.isNaN(rsiNow)) {
     console.log("RSI 数据不足，跳过本次。");
     return;
   }
@@ -143,66 +337,144 @@ async function runOnce() {
     ? isUpTrend4h && strongSlope4h && enoughVol4h
     : true;
 
-  // =============== 日线 Regime 部分 ===============
-  const closes1d = candles1d.map((c) => c.close);
-  const emaFast1d = ema(closes1d, 50);
-  const emaSlow1d = ema(closes1d, 200);
+  // === 4H 空头镜像过滤（策略给 SHORT 时用） ===
+  const isDownTrend4h = price4h < e200_4h && e50_4h < e200_4h;
+  const weakSlope4h = ema200Slope4h < 0;
+  const shortRsiOk = 100 - rsiNow >= minRsi && 100 - rsiNow <= maxRsi;
+  const notTooLow = -premiumOverEma50 <= maxPremium;
+  const shortTrendOk4h = CONFIG.useTrendFilter
+    ? isDownTrend4h && weakSlope4h && enoughVol4h
+    : true;
+
+  if (SHORT_REGIMES.length > 0) {
+    console.log("\n=== 4H 空头过滤（镜像） ===");
+    console.log("空头结构 (price < EMA200 && EMA50 < EMA200):", isDownTrend4h);
+    console.log("200EMA 向下 (slope < 0):", weakSlope4h);
+    console.log(`RSI 过滤 (100 - RSI 在 ${minRsi} ~ ${maxRsi}):`, shortRsiOk);
+    console.log(
+      `不追空过滤 (price 相对 EMA${emaFastPeriod} 折价 <= ${(maxPremium * 100).toFixed(1)}%):`,
+      notTooLow
+    );
+  }
 
-  const j = candles1d.length - 1;
-  const lastDay = candles1d[j]!;
-  const price1d = lastDay.close;
-  const eFast1d = emaFast1d[j];
-  const eSlow1d = emaSlow1d[j];
-  const prevESlow1d = emaSlow1d[j - 1];
+  // === 成交量确认（和回测同一套 filters/volume.ts；strategy.json 不写 volumeFilter 就不过滤） ===
+  const volumeFilterRaw = (CONFIG as StrategyConfig).volumeFilter;
+  const volumeCfg = volumeFilterRaw
+    ? resolveVolumeFilter(volumeFilterRaw)
+    : undefined;
+  const volumeResult = volumeCfg
+    ? volumeFilterAt(relativeVolumeSeries(candles4h, volumeCfg), i, volumeCfg)
+    : undefined;
+  let volumeOk = volumeResult?.ok ?? true;
+
+  if (volumeCfg && volumeResult) {
+    console.log("\n=== 成交量过滤 ===");
+    console.log(
+      `相对成交量 (volume / ${volumeCfg.baseline.toUpperCase()}${volumeCfg.period}):`,
+      volumeResult.relativeVolume.toFixed(2),
+      `(>= ${volumeCfg.minRelativeVolume})`
+    );
+    if (volumeCfg.spike) {
+      console.log(
+        `放量 (最近 ${volumeCfg.spike.lookbackBars} 根内 >= ${volumeCfg.spike.multiple}x):`,
+        volumeResult.spikeOk
+      );
+    }
+    console.log("成交量过滤通过?:", volumeOk);
+  }
+
+  // === ATR 分形过滤（4H vs 1H，和回测同一套 filters/atr-fractal.ts；不写 atrFractal 就不过滤） ===
+  const atrFractalRaw = (CONFIG as StrategyConfig).atrFractal;
+  const fractalCfg = atrFractalRaw ? resolveAtrFractal(atrFractalRaw) : undefined;
+  let fractalRatio = NaN;
+  let fractalOk = true;
+
+  if (fractalCfg) {
+    const candles1h = await fetchBtc1hCandles(500);
+    const fractal = atrFractalAt(
+      atrFractalSeries(candles4h, candles1h, fractalCfg),
+      i,
+      fractalCfg
+    );
+    fractalRatio = fractal.ratio;
+    fractalOk = fractal.ok;
+
+    console.log("\n=== ATR 分形过滤（4H vs 1H） ===");
+    console.log(`1H K 线数量: ${candles1h.length}`);
+    console.log(
+      `ATR(4H) / ATR(1H): ${fractalRatio.toFixed(2)} (>= ${fractalCfg.multiplier})`
+    );
+    console.log("ATR 分形过滤通过?:", fractalOk);
+  }
+
+  // =============== 日线 Regime 部分 ===============
+  // 判断器和回测一样看 strategy.json 的 regimeDetector（默认 EMA50 / EMA200 + 斜率）
+  // 和回测引擎一样只用这根 4H 收盘时已经收盘的日线（去掉还在走的当天，见 closedDailyRegimes）
+  const dailyRegimePoints = closedDailyRegimes(
+    candles1d,
+    candle4h.closeTime,
+    REGIME_DETECTOR
+  );
+  const lastDailyPoint = dailyRegimePoints[dailyRegimePoints.length - 1];
 
   let dailyRegime: Regime | undefined = undefined;
-  let slopeSlow1d = 0;
   let regimeOk = false;
+  let shortRegimeOk = false;
 
-  if (
-    eFast1d === undefined ||
-    eSlow1d === undefined ||
-    prevESlow1d === undefined
-  ) {
+  if (!lastDailyPoint) {
     console.log("\n=== 日线 Regime 过滤 ===");
-    console.log("日线 EMA 数据不足，无法判断 Regime，默认视为不通过。");
+    console.log(
+      `日线 K 线不够 ${REGIME_DETECTOR.description} 暖机（${REGIME_DETECTOR.warmupBars} 根），无法判断 Regime，默认视为不通过。`
+    );
   } else {
-    const res = detectRegimeFromEma(price1d, eFast1d, eSlow1d, prevESlow1d);
-    dailyRegime = res.regime;
-    slopeSlow1d = res.slopeSlow;
-    regimeOk = dailyRegime === "BULL";
+    dailyRegime = lastDailyPoint.regime;
+    regimeOk = LONG_REGIMES.includes(dailyRegime);
+    shortRegimeOk = SHORT_REGIMES.includes(dailyRegime);
 
     console.log("\n=== 日线 Regime 过滤 ===");
-    console.log("最近日线收盘时间:", new Date(lastDay.closeTime).toISOString());
-    console.log("日线收盘价:", price1d.toFixed(2));
-    console.log("日线 EMA50:", eFast1d.toFixed(2));
-    console.log("日线 EMA200:", eSlow1d.toFixed(2));
-    console.log("日线 EMA200 斜率:", slopeSlow1d.toFixed(4));
+    console.log("Regime 判断器:", REGIME_DETECTOR.description);
+    console.log(
+      "最近日线收盘时间:",
+      new Date(lastDailyPoint.time).toISOString()
+    );
+    for (const [key, value] of Object.entries(lastDailyPoint.metrics)) {
+      console.log(`日线 ${key}:`, value.toFixed(4));
+    }
     console.log("日线 Regime:", dailyRegime);
-    console.log("Regime 过滤通过?(仅允许 BULL):", regimeOk);
+    console.log(
+      `Regime 过滤通过?(允许 ${LONG_REGIMES.join(", ")}):`,
+      regimeOk
+    );
+    if (SHORT_REGIMES.length > 0) {
+      console.log(
+        `空单 Regime 过滤通过?(允许 ${SHORT_REGIMES.join(", ")}):`,
+        shortRegimeOk
+      );
+    }
   }
 
-  // =============== 检查是否已有 BTC 多仓（防止重复开单） ===============
+  // =============== 检查是否已有 BTC 仓位（多 / 空，防止重复开单） ===============
   let inPosition = false;
-  let openLongVolume = 0;
+  let openSide: TradeSide | undefined = undefined;
+  let openVolume = 0;
 
   try {
     const posResp = await htxPerpGetPositions(CONTRACT_CODE);
     const positions = posResp.data ?? [];
 
-    const longPos = positions.find(
+    const openPos = positions.find(
       (p) =>
         p.contract_code === CONTRACT_CODE &&
-        p.direction === "buy" &&
         (
           (p.avail_position ?? 0) > 0 ||
           (p.available ?? 0) > 0
         )
     );
 
-    if (longPos) {
+    if (openPos) {
       inPosition = true;
-      openLongVolume = Number(longPos.avail_position ?? longPos.volume ?? 0);
+      openSide = openPos.direction === "buy" ? "long" : "short";
+      openVolume = Number(openPos.avail_position ?? openPos.volume ?? 0);
     }
   } catch (err) {
     console.error(
@@ -212,37 +484,36 @@ async function runOnce() {
     inPosition = false;
   }
 
-  console.log("当前是否已有多仓 inPosition:", inPosition);
+  const openSideLabel = openSide === "short" ? "空仓" : "多仓";
+  console.log("当前是否已有仓位 inPosition:", inPosition);
   if (inPosition) {
-    console.log(`已存在 BTC-USDT 多仓, 总张数=${openLongVolume}`);
+    console.log(`已存在 BTC-USDT ${openSideLabel}, 总张数=${openVolume}`);
   }
 
-  // =============== 信号判断（使用 V1 / V2 / V3 + 是否在仓） ===============
-  let rawSignal: "LONG" | "CLOSE_LONG" | "HOLD";
+  // =============== 信号判断（strategy.json 指定的策略 + 是否在仓） ===============
+  // 信号策略的指标是批量算的，不管这次是续上的还是整段重拉的，都只在最近 historyBars 根已收盘 + 当前这根上算
+  // （两种情况信号一致，见 liveHistoryBars）
+  const signalCandles = candles4h.slice(-(historyBars + 1));
+  const signalIndicators = signalStrategy.computeIndicators(
+    signalCandles,
+    signalParams,
+    { emaSeed: EMA_SEED }
+  );
 
-  if (CONFIG.useV3Signal) {
-    // ✅ V3：突破 + 下一根 K 线宽松确认
-    rawSignal = detectSignalV3(candles4h, i, ema50_4h, ema200_4h, inPosition);
-  } else if (CONFIG.useV2Signal) {
-    // V2：回踩确认再突破
-    rawSignal = detectSignalV2(candles4h, i, ema50_4h, ema200_4h, inPosition);
-  } else {
-    // V1：简单突破
-    rawSignal = detectSignal(
-      price4h,
-      prevPrice4h,
-      e50_4h,
-      prevE50_4h,
-      inPosition
-    );
-  }
+  const signalCtx = {
+    candles: signalCandles,
+    i: signalCandles.length - 1,
+    inPosition,
+    indicators: signalIndicators,
+    params: signalParams,
+    // 日线 regime 序列（和回测一样给按 regime 切换的策略用）
+    higherTFRegimes: dailyRegimePoints.map((d) => d.regime),
+  };
+  let rawSignal: Signal = signalStrategy.decide(signalCtx);
 
   console.log("\n=== 信号判断 ===");
-  console.log("当前是否已有多仓 inPosition:", inPosition);
-  console.log(
-    "signalVersion:",
-    CONFIG.useV3Signal ? "V3" : CONFIG.useV2Signal ? "V2" : "V1"
-  );
+  console.log("当前是否已有仓位 inPosition:", inPosition);
+  console.log("signalStrategy:", signalStrategy.name);
   console.log("原始信号 rawSignal:", rawSignal);
   console.log("4H trendOk:", trendOk4h);
   console.log("日线 regimeOk:", regimeOk);
@@ -250,21 +521,41 @@ async function runOnce() {
   // =============== TEST_MODE：强制信号 & 过滤通过 ===============
   if (TEST_MODE) {
     console.log(
-      "\n[TEST_MODE] 启用：强制 rawSignal = LONG，trendOk4h = true，regimeOk = true，rsiOk = true，notTooHigh = true，方便端到端测试。"
+      "\n[TEST_MODE] 启用：强制 rawSignal = LONG，trendOk4h = true，regimeOk = true，rsiOk = true，notTooHigh = true，volumeOk = true，fractalOk = true，方便端到端测试。"
     );
     rawSignal = "LONG";
     trendOk4h = true;
     regimeOk = true;
     rsiOk = true;
     notTooHigh = true;
+    volumeOk = true;
+    fractalOk = true;
   }
 
-  // === 预先计算 SL / TP ===
-  const entryPrice = price4h;
-  const stopLoss = entryPrice * (1 - CONFIG.stopLossPct);
-  const takeProfit = entryPrice * (1 + CONFIG.takeProfitPct);
+  // === 按信号方向选过滤条件（LONG 走多头过滤，SHORT 走空头镜像过滤） ===
+  const side: TradeSide = rawSignal === "SHORT" ? "short" : "long";
+  const sideLabel = side === "long" ? "多" : "空";
+  const sideTrendOk = side === "long" ? trendOk4h : shortTrendOk4h;
+  const sideRegimeOk = side === "long" ? regimeOk : shortRegimeOk;
+  const sideRsiOk = side === "long" ? rsiOk : shortRsiOk;
+  const sideNotChasing = side === "long" ? notTooHigh : notTooLow;
 
-  const slPct = -CONFIG.stopLossPct * 100;
+  // === 预先计算 SL / TP（空单镜像；策略自己定了止损价就用策略的） ===
+  const entryPrice = price4h;
+  const strategyStop = TEST_MODE
+    ? undefined // 强制信号时策略的止损不一定对得上方向
+    : signalStrategy.stopPrice?.(signalCtx);
+  const stopLoss =
+    strategyStop ??
+    (side === "long"
+      ? entryPrice * (1 - CONFIG.stopLossPct)
+      : entryPrice * (1 + CONFIG.stopLossPct));
+  const takeProfit =
+    side === "long"
+      ? entryPrice * (1 + CONFIG.takeProfitPct)
+      : entryPrice * (1 - CONFIG.takeProfitPct);
+
+  const slPct = -(Math.abs(stopLoss - entryPrice) / entryPrice) * 100;
   const tpPct = CONFIG.takeProfitPct * 100;
 
   const lev3 = {
@@ -292,15 +583,28 @@ async function runOnce() {
     stopLoss,
     takeProfit,
     rawSignal,
-    trendOk: trendOk4h,
-    regimeOk,
+    side,
+    trendOk: sideTrendOk,
+    regimeOk: sideRegimeOk,
     ema50: e50_4h,
     ema200: e200_4h,
     atrPct: atrPct4h * 100,
     rsi: rsiNow,
-    rsiOk,
+    rsiOk: sideRsiOk,
     premiumOverEma50Pct: premiumOverEma50 * 100,
-    notTooHigh,
+    notTooHigh: sideNotChasing,
+    ...(volumeResult
+      ? {
+          relativeVolume: volumeResult.relativeVolume,
+          volumeOk,
+          ...(volumeResult.spikeOk !== undefined
+            ? { volumeSpikeOk: volumeResult.spikeOk }
+            : {}),
+        }
+      : {}),
+    ...(fractalCfg
+      ? { atrFractalRatio: fractalRatio, atrFractalOk: fractalOk }
+      : {}),
     leverage3x: lev3,
     leverage5x: lev5,
     positionSuggestion: {
@@ -319,26 +623,46 @@ async function runOnce() {
 
   await appendSignalLog(logEntry);
 
-  // =============== 如果已经有 BTC 多仓：不再加仓，直接退出 ===============
+  // =============== 如果已经有 BTC 仓位：不再加仓，直接退出 ===============
   if (!TEST_MODE && inPosition) {
     console.log(
-      `\n>>> 检测到账户已有 BTC 多仓(${openLongVolume} 张)，本轮不再开新仓。` +
+      `\n>>> 检测到账户已有 BTC ${openSideLabel}(${openVolume} 张)，本轮不再开新仓。` +
         "（本次状态已写入 signal-log.jsonl）"
     );
+    // 实盘只靠挂好的 TPSL 出场；开了 exitOnSignal 的策略回测会按信号平，这里只提示
+    const closeSignal: Signal = openSide === "short" ? "CLOSE_SHORT" : "CLOSE_LONG";
+    if (signalStrategy.exitOnSignal && rawSignal === closeSignal) {
+      console.log(
+        `>>> ⚠️ 策略给了 ${closeSignal}（回测会按收盘价平仓），实盘不会自动平仓，需要手动处理。`
+      );
+    }
     return;
   }
 
-  // 如果没有有效多头信号：只写 log，不推送，不下单
-  if (!(rawSignal === "LONG" && trendOk4h && regimeOk && rsiOk && notTooHigh)) {
+  // 如果没有有效入场信号：只写 log，不推送，不下单
+  const entrySignal = rawSignal === "LONG" || rawSignal === "SHORT";
+  if (
+    !(
+      entrySignal &&
+      sideTrendOk &&
+      sideRegimeOk &&
+      sideRsiOk &&
+      sideNotChasing &&
+      volumeOk &&
+      fractalOk
+    )
+  ) {
     console.log(
-      "\n>>> 建议：❌ 观望（要么没突破，要么 4H 趋势 / 日线 Regime / RSI / 不追高 过滤未通过）"
+      "\n>>> 建议：❌ 观望（要么没信号，要么 4H 趋势 / 日线 Regime / RSI / 不追高(追空) / 成交量 / ATR 分形 过滤未通过）"
     );
     console.log("（本次状态已写入 signal-log.jsonl）");
     return;
   }
 
-  // =============== 有有效多头信号：提示 + Discord +（可选）下单 ===============
-  console.log("\n>>> 检测到 ✅ 多头入场信号！（4H + 日线BULL 或 TEST_MODE）");
+  // =============== 有有效入场信号：提示 + Discord +（可选）下单 ===============
+  console.log(
+    `\n>>> 检测到 ✅ ${sideLabel}头入场信号！（4H + 日线 ${dailyRegime} 或 TEST_MODE）`
+  );
   console.log("入场价:", entryPrice.toFixed(2));
   console.log(
     `止损价: ${stopLoss.toFixed(2)} (${slPct.toFixed(2)}%)  ` +
@@ -374,12 +698,13 @@ async function runOnce() {
 
   // 先发一条“信号 + 计划”的 Discord
   const title = TEST_MODE
-    ? "【TEST_MODE】BTC 4H 多头信号 (含日线BULL过滤)"
-    : "BTC 4H 多头信号 (含日线BULL过滤)";
+    ? `【TEST_MODE】BTC 4H ${sideLabel}头信号 (含日线${dailyRegime}过滤)`
+    : `BTC 4H ${sideLabel}头信号 (含日线${dailyRegime}过滤)`;
 
   const text = [
     `价格: ${entryPrice.toFixed(2)}`,
     `SL: ${stopLoss.toFixed(2)} (${slPct.toFixed(2)}%)`,
+    `方向: ${sideLabel}`,
     `TP: ${takeProfit.toFixed(2)} (+${tpPct.toFixed(2)}%)`,
     `3x: SL ${lev3.slPctOnEquity.toFixed(1)}%, TP +${lev3.tpPctOnEquity.toFixed(
       1
@@ -405,8 +730,8 @@ async function runOnce() {
     `LIVE_TRADE: ${LIVE_TRADE ? "✅ 实盘模式" : "❌ 仅信号，不下单"}`,
     `TEST_MODE: ${TEST_MODE ? "✅ 强制 LONG 测试模式" : "❌ 正常模式"}`,
     inPosition
-      ? `当前已有 BTC 多仓: ${openLongVolume} 张`
-      : "当前无 BTC 多仓（允许开仓）",
+      ? `当前已有 BTC ${openSideLabel}: ${openVolume} 张`
+      : "当前无 BTC 仓位（允许开仓）",
   ].join("\n");
 
   await sendDiscordNotification({ title, text });
@@ -419,28 +744,28 @@ async function runOnce() {
     return;
   }
 
-  // =============== 实盘逻辑：HTX 永续开多 + TPSL ===============
-  console.log("\n=== 实盘模式开启：准备在 HTX 永续开多 BTC ===");
+  // =============== 实盘逻辑：HTX 永续开仓 + TPSL ===============
+  console.log(`\n=== 实盘模式开启：准备在 HTX 永续开${sideLabel} BTC ===`);
 
   try {
     // 1) 查余额（主要是日志 & sanity check）
     const balance = await htxPerpGetBalance("USDT");
     console.log("当前永续统一账户余额(USDT):", balance);
 
-    // 2) 开多（对手价，相当于吃盘口）
+    // 2) 开仓（对手价，相当于吃盘口）：开多 buy，开空 sell
     console.log(
-      `\n[HTX] 下单: 多单 ${CONTRACT_CODE}, volume=${volume}, leverage=${leverage}x ...`
+      `\n[HTX] 下单: ${sideLabel}单 ${CONTRACT_CODE}, volume=${volume}, leverage=${leverage}x ...`
     );
     const openResp = await htxPerpPlaceOrder({
       contract_code: CONTRACT_CODE,
       volume,
-      direction: "buy",
+      direction: side === "long" ? "buy" : "sell",
       offset: "open",
       lever_rate: leverage,
       order_price_type: "opponent",
     });
 
-    console.log("开多返回:", openResp);
+    console.log(`开${sideLabel}返回:`, openResp);
 
     // 3) 挂 TPSL（用 simple 版本，自动按 tick 处理价格）
     console.log(
@@ -450,7 +775,7 @@ async function runOnce() {
     );
     const tpslResp = await htxPerpPlaceTpslOrderSimple({
       contract_code: CONTRACT_CODE,
-      direction: "sell", // 多单平仓用 sell
+      direction: side === "long" ? "sell" : "buy", // 平仓方向：多单平仓 sell，空单平仓 buy
       volume,
       tp_trigger_price: takeProfit,
       sl_trigger_price: stopLoss,
@@ -459,8 +784,8 @@ async function runOnce() {
     console.log("TPSL 返回:", tpslResp);
 
     const liveTitle = TEST_MODE
-      ? "✅【TEST_MODE+LIVE】HTX 永续已实盘开多 BTC"
-      : "✅ HTX 永续已实盘开多 BTC";
+      ? `✅【TEST_MODE+LIVE】HTX 永续已实盘开${sideLabel} BTC`
+      : `✅ HTX 永续已实盘开${sideLabel} BTC`;
 
     const liveText = [
       `合约: ${CONTRACT_CODE}`,
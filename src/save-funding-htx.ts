@@ -0,0 +1,39 @@
+// src/save-funding-htx.ts
+import "dotenv/config";
+import { htxPerpFetchFundingHistory } from "./exchange/htx-perp.js";
+import {
+  DEFAULT_FUNDING_FILE,
+  saveFundingRates,
+} from "./store/funding-store.js";
+
+const CONTRACT_CODE = "BTC-USDT";
+
+async function main() {
+  console.log(`从 HTX 拉 ${CONTRACT_CODE} 历史资金费率并保存为本地样本...`);
+
+  const rates = await htxPerpFetchFundingHistory(CONTRACT_CODE);
+  console.log(`资金费率条数: ${rates.length}`);
+
+  if (rates.length === 0) {
+    console.log("没有拿到任何资金费率，未写入文件。");
+    return;
+  }
+
+  const first = rates[0]!;
+  const last = rates[rates.length - 1]!;
+  console.log(
+    `时间范围: ${new Date(first.fundingTime).toISOString()} ~ ${new Date(
+      last.fundingTime
+    ).toISOString()}`
+  );
+
+  saveFundingRates(rates, DEFAULT_FUNDING_FILE);
+
+  console.log("✅ 已写入:");
+  console.log(`  - ${DEFAULT_FUNDING_FILE}`);
+}
+
+main().catch((err) => {
+  console.error("保存资金费率出错:", err);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+// src/store/funding-store.ts
+import fs from "node:fs";
+import path from "node:path";
+import type { FundingRate } from "../types/funding.js";
+
+/**
+ * 默认的本地资金费率文件（save-funding-htx 写到这里）
+ */
+export const DEFAULT_FUNDING_FILE = "./data/htx-funding-btc-usdt.json";
+
+function parseCsv(raw: string, file: string): FundingRate[] {
+  const lines = raw.trim().split(/\r?\n/);
+  const header = (lines.shift() ?? "").split(",").map((h) => h.trim());
+  const timeCol = header.indexOf("fundingTime");
+  const rateCol = header.indexOf("rate");
+
+  if (timeCol < 0 || rateCol < 0) {
+    throw new Error(`资金费率 CSV 缺少 fundingTime / rate 列: ${file}`);
+  }
+
+  return lines
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const cols = line.split(",");
+      return {
+        fundingTime: Number(cols[timeCol]),
+        rate: Number(cols[rateCol]),
+      };
+    });
+}
+
+/**
+ * 从本地 JSON / CSV 读取资金费率序列，返回按时间升序的数组。
+ * - JSON：[{ fundingTime, rate }, ...]
+ * - CSV ：表头至少包含 fundingTime,rate
+ */
+export function loadFundingRates(relPath: string = DEFAULT_FUNDING_FILE): FundingRate[] {
+  const full = path.resolve(relPath);
+  const raw = fs.readFileSync(full, "utf8");
+
+  const rates =
+    path.extname(full).toLowerCase() === ".csv"
+      ? parseCsv(raw, full)
+      : (JSON.parse(raw) as FundingRate[]);
+
+  for (const r of rates) {
+    if (!Number.isFinite(r.fundingTime) || !Number.isFinite(r.rate)) {
+      throw new Error(`资金费率数据不合法: ${JSON.stringify(r)} (${full})`);
+    }
+  }
+
+  return [...rates].sort((a, b) => a.fundingTime - b.fundingTime);
+}
+
+/**
+ * 保存资金费率序列（按扩展名决定 JSON / CSV）
+ */
+export function saveFundingRates(
+  rates: FundingRate[],
+  relPath: string = DEFAULT_FUNDING_FILE
+): void {
+  const full = path.resolve(relPath);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+
+  const content =
+    path.extname(full).toLowerCase() === ".csv"
+      ? ["fundingTime,rate", ...rates.map((r) => `${r.fundingTime},${r.rate}`)].join("\n")
+      : JSON.stringify(rates, null, 2);
+
+  fs.writeFileSync(full, content, "utf8");
+}
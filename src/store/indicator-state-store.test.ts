@@ -0,0 +1,28 @@
+// src/store/indicator-state-store.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { loadIndicatorState } from "./indicator-state-store.js";
+
+describe("loadIndicatorState", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indicator-state-"));
+
+  test("文件不存在返回 null", () => {
+    assert.equal(loadIndicatorState(path.join(dir, "missing.json")), null);
+  });
+
+  test("写到一半的 JSON 返回 null，不抛错", () => {
+    const file = path.join(dir, "half.json");
+    fs.writeFileSync(file, '{"lastCloseTime": 1700000000000, "emaFast": {', "utf8");
+    assert.equal(loadIndicatorState(file), null);
+  });
+
+  test("缺 lastCloseTime 返回 null", () => {
+    const file = path.join(dir, "no-time.json");
+    fs.writeFileSync(file, "{}", "utf8");
+    assert.equal(loadIndicatorState(file), null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
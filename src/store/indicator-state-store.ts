@@ -0,0 +1,67 @@
+// src/store/indicator-state-store.ts
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  AtrState,
+  EmaState,
+  RsiState,
+} from "../indicators/streaming.js";
+import type { Candle } from "../types/candle.js";
+
+/**
+ * 实盘 4H 指标状态默认存这里（logs/ 不进 git）
+ */
+export const DEFAULT_INDICATOR_STATE_FILE = "./logs/live-indicator-state.json";
+
+/**
+ * 实盘脚本每次跑完存的 4H 指标状态：
+ * 下次只拉、只喂 lastCloseTime 之后的新K线，不用重拉重算全部历史
+ */
+export interface LiveIndicatorState {
+  lastCloseTime: number; // 已经喂进状态的最后一根K线的 closeTime
+  emaFast: EmaState;
+  emaSlow: EmaState;
+  atr: AtrState;
+  rsi: RsiState;
+  /**
+   * 最近一段已收盘 4H K线（旧 → 新，最后一根就是 lastCloseTime 那根），
+   * 给还得批量算的部分用（信号策略的指标 / 成交量 / ATR 分形）；旧状态文件没有，会整段重拉一次
+   */
+  candles?: Candle[];
+}
+
+/**
+ * 读实盘指标状态；文件不存在返回 null（第一次跑 / 被删了，从头算）。
+ * 文件坏了（写到一半被打断 / 手改坏了）也返回 null，打一行日志，从头算一遍会重新写好
+ */
+export function loadIndicatorState(
+  relPath: string = DEFAULT_INDICATOR_STATE_FILE
+): LiveIndicatorState | null {
+  const full = path.resolve(relPath);
+  if (!fs.existsSync(full)) return null;
+
+  let state: LiveIndicatorState;
+  try {
+    state = JSON.parse(fs.readFileSync(full, "utf8")) as LiveIndicatorState;
+  } catch (err) {
+    console.warn(`指标状态文件读不了，当作没有、从头算: ${full}`, err);
+    return null;
+  }
+  if (!Number.isFinite(state?.lastCloseTime)) {
+    console.warn(`指标状态文件不合法（缺 lastCloseTime），当作没有、从头算: ${full}`);
+    return null;
+  }
+  return state;
+}
+
+/**
+ * 保存实盘指标状态
+ */
+export function saveIndicatorState(
+  state: LiveIndicatorState,
+  relPath: string = DEFAULT_INDICATOR_STATE_FILE
+): void {
+  const full = path.resolve(relPath);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, JSON.stringify(state, null, 2), "utf8");
+}
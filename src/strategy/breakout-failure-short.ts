@@ -0,0 +1,168 @@
+// src/strategy/breakout-failure-short.ts
+import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { detectSignalV2 } from "./simple-trend-v2.js";
+import { detectSignalV3Confirmed } from "./simple-trend-v3.js";
+import {
+  numParam,
+  type Signal,
+  type Strategy,
+  type StrategyParams,
+} from "./types.js";
+
+export interface BreakoutFailureParams {
+  breakoutVersion: number;    // 2 = V2 回踩再突破，3 = V3 确认突破（无未来函数版）
+  lookback: number;           // V2：向前找回踩的 K 线数
+  retracePct: number;         // V2：回踩幅度
+  failureWindowBars: number;  // 突破后多少根K线内收回去算失败
+  failedLongStopPct: number;  // 那笔多单的止损（碰到也算失败）
+  shortStopBufferPct: number; // 空单止损放在失败高点上方多少
+}
+
+/**
+ * 一次已经失败的多头突破
+ */
+export interface FailedBreakout {
+  breakoutIndex: number; // 多头信号K线
+  breakoutLevel: number; // 被突破的价位（V2 = EMA 快线，V3 = 突破K线的前高）
+  failedHigh: number;    // 突破到失败这段时间的最高价
+}
+
+/**
+ * 第 j 根是不是多头突破信号，是的话返回被突破的价位
+ */
+function breakoutLevelAt(
+  candles: Candle[],
+  j: number,
+  emaFast: number[],
+  emaSlow: number[],
+  params: BreakoutFailureParams
+): number | undefined {
+  if (params.breakoutVersion === 2) {
+    const signal = detectSignalV2(
+      candles,
+      j,
+      emaFast,
+      emaSlow,
+      false,
+      params.lookback,
+      params.retracePct
+    );
+    return signal === "LONG" ? emaFast[j] : undefined;
+  }
+
+  if (j < 2) return undefined;
+  const signal = detectSignalV3Confirmed(candles, j, emaFast, emaSlow, false);
+  // V3 确认信号：j - 1 是突破K线，突破的是 j - 2 的高点
+  return signal === "LONG" ? candles[j - 2]!.high : undefined;
+}
+
+/**
+ * 找「刚好在第 i 根失败」的多头突破：
+ * - 只看最近 failureWindowBars 根里最近的一次突破
+ * - 失败 = 收盘跌回突破价位下方，或者最低价碰到那笔多单的止损
+ * - 中间已经失败过的不算（信号只在第一次失败时给一次）
+ */
+export function findFailedBreakout(
+  candles: Candle[],
+  i: number,
+  emaFast: number[],
+  emaSlow: number[],
+  params: BreakoutFailureParams
+): FailedBreakout | null {
+  const from = Math.max(1, i - params.failureWindowBars);
+
+  for (let j = i - 1; j >= from; j--) {
+    const level = breakoutLevelAt(candles, j, emaFast, emaSlow, params);
+    if (level === undefined) continue;
+
+    const longStop = candles[j]!.close * (1 - params.failedLongStopPct);
+    let failedHigh = candles[j]!.high;
+
+    for (let k = j + 1; k <= i; k++) {
+      const c = candles[k]!;
+      failedHigh = Math.max(failedHigh, c.high);
+
+      const failed = c.close < level || c.low <= longStop;
+      if (failed) {
+        return k === i
+          ? { breakoutIndex: j, breakoutLevel: level, failedHigh }
+          : null;
+      }
+    }
+
+    // 最近一次突破还没失败
+    return null;
+  }
+
+  return null;
+}
+
+function signalParams(params: StrategyParams): BreakoutFailureParams {
+  return {
+    breakoutVersion: numParam(params, "breakoutVersion"),
+    lookback: numParam(params, "lookback"),
+    retracePct: numParam(params, "retracePct"),
+    failureWindowBars: numParam(params, "failureWindowBars"),
+    failedLongStopPct: numParam(params, "failedLongStopPct"),
+    shortStopBufferPct: numParam(params, "shortStopBufferPct"),
+  };
+}
+
+/**
+ * 突破失败反手空单（第二代策略）：
+ * V2 / V3 的多头突破在 N 根K线内收回突破价位下方（或打到多单止损），
+ * 在失败那根收盘反手开空，止损放在失败高点上方（见 stopPrice），止盈走引擎的 takeProfitPct。
+ *
+ * 只给 SHORT 信号，引擎要配 allowedHigherTFRegimesShort 才会真的开空。
+ */
+export const breakoutFailureShortStrategy: Strategy = {
+  name: "breakout-failure-short",
+  description: "突破失败反手空：V2/V3 多头突破 N 根内跌回突破位，止损放失败高点上方",
+  paramSchema: {
+    emaFast: { type: "number", default: 50, min: 2, description: "快 EMA 周期" },
+    emaSlow: { type: "number", default: 200, min: 2, description: "慢 EMA 周期" },
+    breakoutVersion: { type: "number", default: 3, min: 2, max: 3, description: "识别哪种多头突破（2 = V2，3 = V3 确认版）" },
+    lookback: { type: "number", default: 10, min: 1, description: "V2：向前找回踩的 K 线数" },
+    retracePct: { type: "number", default: 0.003, min: 0, description: "V2：回踩幅度（0.003 = 0.3%）" },
+    failureWindowBars: { type: "number", default: 3, min: 1, description: "突破后多少根K线内跌回算失败" },
+    failedLongStopPct: { type: "number", default: 0.006, min: 0, description: "被反手的那笔多单的止损（碰到也算失败）" },
+    shortStopBufferPct: { type: "number", default: 0.002, min: 0, description: "空单止损在失败高点上方多少（0.002 = 0.2%）" },
+  },
+  warmupBars(params) {
+    return (
+      Math.max(numParam(params, "emaFast"), numParam(params, "emaSlow")) +
+      numParam(params, "failureWindowBars") +
+      1
+    );
+  },
+  computeIndicators(candles, params, options) {
+    const closes = candles.map((c) => c.close);
+    return {
+      emaFast: ema(closes, numParam(params, "emaFast"), options?.emaSeed),
+      emaSlow: ema(closes, numParam(params, "emaSlow"), options?.emaSeed),
+    };
+  },
+  decide({ candles, i, inPosition, indicators, params }): Signal {
+    if (inPosition) return "HOLD";
+    const failure = findFailedBreakout(
+      candles,
+      i,
+      indicators.emaFast!,
+      indicators.emaSlow!,
+      signalParams(params)
+    );
+    return failure ? "SHORT" : "HOLD";
+  },
+  stopPrice({ candles, i, indicators, params }) {
+    const p = signalParams(params);
+    const failure = findFailedBreakout(
+      candles,
+      i,
+      indicators.emaFast!,
+      indicators.emaSlow!,
+      p
+    );
+    return failure ? failure.failedHigh * (1 + p.shortStopBufferPct) : undefined;
+  },
+};
@@ -0,0 +1,57 @@
+// src/strategy/history.test.ts
+// 实盘只在最近 signalHistoryBars 根上批量算信号策略的指标：在真实 4H 数据上和全历史算的逐个比对
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { Candle } from "../types/candle.js";
+import type { EmaSeed } from "../indicators/ema.js";
+import { getStrategy, listStrategies, resolveParams } from "./registry.js";
+import { SIGNAL_TOLERANCE, signalHistoryBars } from "./history.js";
+
+const candles: Candle[] = JSON.parse(
+  readFileSync(new URL("../../data/btc-4h.json", import.meta.url), "utf8")
+);
+
+const SEEDS: EmaSeed[] = ["first", "sma"];
+
+describe("signalHistoryBars", () => {
+  for (const name of listStrategies()) {
+    for (const emaSeed of SEEDS) {
+      test(`${name}（${emaSeed} 种子）：最近 N 根算的指标和信号与全历史一致`, () => {
+        const strategy = getStrategy(name);
+        const params = resolveParams(strategy, {});
+        const bars = signalHistoryBars(strategy, params);
+        assert.ok(bars < candles.length, `${name} 要 ${bars} 根，测试数据不够`);
+
+        const full = strategy.computeIndicators(candles, params, { emaSeed });
+        for (let end = bars; end <= candles.length; end += 10) {
+          const window = candles.slice(end - bars, end);
+          const partial = strategy.computeIndicators(window, params, { emaSeed });
+          for (const [key, series] of Object.entries(full)) {
+            const expected = series[end - 1]!;
+            const actual = partial[key]![bars - 1]!;
+            const diff = Math.abs(actual - expected) / Math.max(Math.abs(expected), 1e-12);
+            assert.ok(
+              diff < SIGNAL_TOLERANCE,
+              `${key} 在第 ${end - 1} 根差 ${diff}（${actual} vs ${expected}）`
+            );
+          }
+          for (const inPosition of [false, true]) {
+            assert.equal(
+              strategy.decide({ candles: window, i: bars - 1, inPosition, indicators: partial, params }),
+              strategy.decide({ candles, i: end - 1, inPosition, indicators: full, params }),
+              `第 ${end - 1} 根信号不一致`
+            );
+          }
+        }
+      });
+    }
+  }
+
+  test("Wilder 平滑的 ATR 按 2p − 1 算，比只看 EMA 周期长", () => {
+    const strategy = getStrategy("mean-revert");
+    const params = resolveParams(strategy, { emaPeriod: 20, atrPeriod: 14 });
+    assert.equal(strategy.smoothingPeriod!(params), 27);
+    assert.ok(signalHistoryBars(strategy, params) > strategy.warmupBars(params) + 150);
+  });
+});
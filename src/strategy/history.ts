@@ -0,0 +1,32 @@
+// src/strategy/history.ts
+import { emaConvergenceBars } from "../indicators/ema.js";
+import type { Strategy, StrategyParams } from "./types.js";
+
+/**
+ * 批量指标和全历史算的最多差多少（相对值）：实盘信号策略的指标按这个精度算历史长度
+ */
+export const SIGNAL_TOLERANCE = 1e-6;
+
+/**
+ * 种子（第一个值）和全历史在同一根上的值最多差几倍当前值：
+ * EMA 的种子是某一根的收盘价 / 前 period 根均价，ATR / RSI 是前 period 根的均值，
+ * 离当前值差出 10 倍在 BTC 4H 上不会出现，按 10 倍留余量
+ */
+const SEED_GAP_BOUND = 10;
+
+/**
+ * 只在最近多少根K线上批量算 strategy 的指标，最后一根和拿全历史算的相对差 < tolerance：
+ * 暖机根数之后，种子的影响每根衰减 (1 − 2/(p+1))（p = 最慢的平滑周期，见 Strategy.smoothingPeriod），
+ * 要衰减到 tolerance / SEED_GAP_BOUND 以下
+ */
+export function signalHistoryBars(
+  strategy: Strategy,
+  params: StrategyParams,
+  tolerance: number = SIGNAL_TOLERANCE
+): number {
+  const period = strategy.smoothingPeriod?.(params) ?? strategy.warmupBars(params);
+  return (
+    strategy.warmupBars(params) +
+    emaConvergenceBars(period, tolerance / SEED_GAP_BOUND)
+  );
+}
@@ -1,5 +1,8 @@
 // src/strategy/mean-revert.ts
 import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { atr } from "../indicators/atr.js";
+import { numParam, type Strategy } from "./types.js";
 
 export type MRSignal = "LONG" | "CLOSE_LONG" | "HOLD";
 
@@ -48,3 +51,45 @@ export function detectMeanRevertSignal(
     return "HOLD";
   }
 }
+
+/**
+ * 注册到策略 registry 的均值回归包装
+ */
+export const meanRevertStrategy: Strategy = {
+  name: "mean-revert",
+  description: "均值回归：跌破 EMA - k*ATR 开多，回到 EMA 附近平多",
+  exitOnSignal: true, // 回到均值就走，是这个策略本身的出场规则
+  paramSchema: {
+    emaPeriod: { type: "number", default: 20, min: 2, description: "均线周期" },
+    atrPeriod: { type: "number", default: 14, min: 1, description: "ATR 周期" },
+    bandKEnter: { type: "number", default: 2.0, min: 0, description: "进场带宽倍数" },
+    bandKExit: { type: "number", default: 0.5, min: 0, description: "出场带宽倍数" },
+  },
+  warmupBars(params) {
+    return Math.max(numParam(params, "emaPeriod"), numParam(params, "atrPeriod") + 1);
+  },
+  smoothingPeriod(params) {
+    // ATR 是 Wilder 平滑，比同周期的 EMA 收敛慢，折成 2p − 1
+    return Math.max(numParam(params, "emaPeriod"), 2 * numParam(params, "atrPeriod") - 1);
+  },
+  computeIndicators(candles, params, options) {
+    const closes = candles.map((c) => c.close);
+    return {
+      ema: ema(closes, numParam(params, "emaPeriod"), options?.emaSeed),
+      atr: atr(candles, numParam(params, "atrPeriod")),
+    };
+  },
+  decide({ candles, i, inPosition, indicators, params }) {
+    return detectMeanRevertSignal(
+      candles,
+      i,
+      indicators.ema!,
+      indicators.atr!,
+      inPosition,
+      {
+        bandKEnter: numParam(params, "bandKEnter"),
+        bandKExit: numParam(params, "bandKExit"),
+      }
+    );
+  },
+};
@@ -0,0 +1,49 @@
+// src/strategy/regime-detector.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Candle } from "../types/candle.js";
+import { closedDailyRegimes, computeDailyRegimes } from "./regime-detector.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * 日线：收盘价缓慢上涨带一点波动，closeTime = openTime + 1 天 - 1
+ */
+function dailyCandles(days: number): Candle[] {
+  return Array.from({ length: days }, (_, i) => {
+    const close = 100 + i + 5 * Math.sin(i / 7);
+    return {
+      openTime: i * DAY,
+      closeTime: (i + 1) * DAY - 1,
+      open: close - 1,
+      high: close + 2,
+      low: close - 2,
+      close,
+      volume: 100,
+    };
+  });
+}
+
+describe("截止某根 4H 收盘时已收盘的日线 regime", () => {
+  test("还在走的当天不参与计算，和只给已收盘日线的结果一样", () => {
+    const candles = dailyCandles(260);
+    const forming = candles[candles.length - 1]!;
+    // 当天第 3 根 4H 收盘：当天日线还没收
+    const asOf = forming.openTime + 3 * 4 * HOUR - 1;
+
+    const points = closedDailyRegimes(candles, asOf);
+
+    assert.ok(points.length > 0);
+    assert.ok(points.every((p) => p.time <= asOf));
+    assert.equal(points[points.length - 1]!.time, candles[candles.length - 2]!.closeTime);
+    assert.deepEqual(points, computeDailyRegimes(candles.slice(0, -1)));
+  });
+
+  test("当天收盘那一刻就算进去", () => {
+    const candles = dailyCandles(260);
+    const last = candles[candles.length - 1]!;
+    const points = closedDailyRegimes(candles, last.closeTime);
+    assert.equal(points[points.length - 1]!.time, last.closeTime);
+  });
+});
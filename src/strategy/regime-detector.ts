@@ -0,0 +1,324 @@
+// src/strategy/regime-detector.ts
+import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { adx } from "../indicators/adx.js";
+import { donchian } from "../indicators/donchian.js";
+import { detectRegimeFromEma, type Regime } from "./regime.js";
+
+/**
+ * 某根K线上的 regime 判断结果：
+ * metrics 是判断时用到的中间值（EMA / ADX / 波动率分位...），打日志和报表用
+ */
+export interface RegimePoint {
+  time: number; // K线 closeTime
+  regime: Regime;
+  metrics: Record<string, number>;
+}
+
+/**
+ * Regime 判断器：给一段K线（通常是日线），从暖机完的那根开始每根给一个 regime
+ */
+export interface RegimeDetector {
+  type: RegimeDetectorType;
+  description: string;
+  warmupBars: number; // 第一个输出点的下标
+  detect(candles: Candle[]): RegimePoint[];
+}
+
+export type RegimeDetectorType = "ema" | "adx" | "volatility" | "donchian";
+
+/**
+ * strategy.json 里 regimeDetector 的写法，只写 type 就用默认参数
+ */
+export type RegimeDetectorConfig =
+  | {
+      type: "ema";
+      fastPeriod?: number;    // 默认 50
+      slowPeriod?: number;    // 默认 200
+      slopeLookback?: number; // 慢 EMA 斜率回看几根，默认 1
+    }
+  | {
+      type: "adx";
+      period?: number;         // 默认 14
+      trendThreshold?: number; // ADX 到这个值才算有趋势，默认 25
+    }
+  | {
+      type: "volatility";
+      volPeriod?: number;        // 已实现波动率（对数收益标准差）窗口，默认 20
+      percentileWindow?: number; // 算分位用的历史波动率个数，默认 250
+      calmPercentile?: number;   // 分位 <= 这个且窗口收益 > 0 → BULL，默认 0.5
+      stressPercentile?: number; // 分位 >= 这个且窗口收益 < 0 → BEAR，默认 0.8
+    }
+  | {
+      type: "donchian";
+      period?: number; // 通道长度，默认 20
+    };
+
+/**
+ * 从 strategy.json 读进来时 type 只是 string，参数都是数字；createRegimeDetector 里再按 type 校验
+ */
+export interface RegimeDetectorJson {
+  type: string;
+  [param: string]: string | number;
+}
+
+/**
+ * 默认：和以前写死的一样，EMA50 / EMA200 + EMA200 单根斜率
+ */
+export const DEFAULT_REGIME_DETECTOR: RegimeDetectorConfig = { type: "ema" };
+
+/**
+ * EMA 快慢线 + 慢线斜率（原来的 detectRegimeFromEma，周期和斜率回看可调）
+ */
+function emaDetector(
+  cfg: Extract<RegimeDetectorConfig, { type: "ema" }>
+): RegimeDetector {
+  const fastPeriod = cfg.fastPeriod ?? 50;
+  const slowPeriod = cfg.slowPeriod ?? 200;
+  const slopeLookback = cfg.slopeLookback ?? 1;
+  if (slopeLookback < 1) {
+    throw new Error(`EMA regime 的 slopeLookback 必须 >= 1: ${slopeLookback}`);
+  }
+  const warmupBars = Math.max(slowPeriod, slopeLookback);
+
+  return {
+    type: "ema",
+    description: `EMA${fastPeriod} / EMA${slowPeriod}，斜率回看 ${slopeLookback} 根`,
+    warmupBars,
+    detect(candles) {
+      const closes = candles.map((c) => c.close);
+      const emaFast = ema(closes, fastPeriod);
+      const emaSlow = ema(closes, slowPeriod);
+
+      const points: RegimePoint[] = [];
+      for (let i = warmupBars; i < candles.length; i++) {
+        const price = closes[i]!;
+        const eFast = emaFast[i]!;
+        const eSlow = emaSlow[i]!;
+        const { regime, slopeSlow } = detectRegimeFromEma(
+          price,
+          eFast,
+          eSlow,
+          emaSlow[i - slopeLookback]!
+        );
+        points.push({
+          time: candles[i]!.closeTime,
+          regime,
+          metrics: { price, emaFast: eFast, emaSlow: eSlow, slopeSlow },
+        });
+      }
+      return points;
+    },
+  };
+}
+
+/**
+ * ADX 趋势强度：ADX >= 阈值才算趋势，方向看 +DI / -DI；否则 RANGE
+ */
+function adxDetector(
+  cfg: Extract<RegimeDetectorConfig, { type: "adx" }>
+): RegimeDetector {
+  const period = cfg.period ?? 14;
+  const trendThreshold = cfg.trendThreshold ?? 25;
+  const warmupBars = 2 * period - 1;
+
+  return {
+    type: "adx",
+    description: `ADX${period} >= ${trendThreshold} 算趋势，方向看 ±DI`,
+    warmupBars,
+    detect(candles) {
+      const series = adx(candles, period);
+
+      const points: RegimePoint[] = [];
+      for (let i = warmupBars; i < candles.length; i++) {
+        const strength = series.adx[i]!;
+        const plusDi = series.plusDi[i]!;
+        const minusDi = series.minusDi[i]!;
+
+        let regime: Regime = "RANGE";
+        if (strength >= trendThreshold && plusDi > minusDi) {
+          regime = "BULL";
+        } else if (strength >= trendThreshold && minusDi > plusDi) {
+          regime = "BEAR";
+        }
+
+        points.push({
+          time: candles[i]!.closeTime,
+          regime,
+          metrics: { adx: strength, plusDi, minusDi },
+        });
+      }
+      return points;
+    },
+  };
+}
+
+/**
+ * 已实现波动率分位：
+ * - 波动率处在历史低位（<= calmPercentile）且窗口内在涨 → BULL（慢牛）
+ * - 波动率处在历史高位（>= stressPercentile）且窗口内在跌 → BEAR（恐慌下跌）
+ * - 其它 → RANGE
+ */
+function volatilityDetector(
+  cfg: Extract<RegimeDetectorConfig, { type: "volatility" }>
+): RegimeDetector {
+  const volPeriod = cfg.volPeriod ?? 20;
+  const percentileWindow = cfg.percentileWindow ?? 250;
+  const calmPercentile = cfg.calmPercentile ?? 0.5;
+  const stressPercentile = cfg.stressPercentile ?? 0.8;
+  if (volPeriod < 2) {
+    throw new Error(`波动率 regime 的 volPeriod 必须 >= 2: ${volPeriod}`);
+  }
+  const warmupBars = volPeriod + percentileWindow - 1;
+
+  return {
+    type: "volatility",
+    description:
+      `${volPeriod} 根已实现波动率在最近 ${percentileWindow} 个里的分位：` +
+      `<= ${calmPercentile} 且上涨 = BULL，>= ${stressPercentile} 且下跌 = BEAR`,
+    warmupBars,
+    detect(candles) {
+      const closes = candles.map((c) => c.close);
+
+      // vols[i]：截止第 i 根的 volPeriod 个对数收益的标准差（前 volPeriod 根 NaN）
+      const vols: number[] = new Array(candles.length).fill(NaN);
+      for (let i = volPeriod; i < candles.length; i++) {
+        const rets: number[] = [];
+        for (let k = i - volPeriod + 1; k <= i; k++) {
+          rets.push(Math.log(closes[k]! / closes[k - 1]!));
+        }
+        const mean = rets.reduce((a, b) => a + b, 0) / rets.length;
+        const variance =
+          rets.reduce((a, b) => a + (b - mean) ** 2, 0) / (rets.length - 1);
+        vols[i] = Math.sqrt(variance);
+      }
+
+      const points: RegimePoint[] = [];
+      for (let i = warmupBars; i < candles.length; i++) {
+        const vol = vols[i]!;
+        const history = vols.slice(i - percentileWindow + 1, i + 1);
+        const percentile =
+          history.filter((v) => v <= vol).length / history.length;
+        const windowReturn = closes[i]! / closes[i - volPeriod]! - 1;
+
+        let regime: Regime = "RANGE";
+        if (percentile <= calmPercentile && windowReturn > 0) {
+          regime = "BULL";
+        } else if (percentile >= stressPercentile && windowReturn < 0) {
+          regime = "BEAR";
+        }
+
+        points.push({
+          time: candles[i]!.closeTime,
+          regime,
+          metrics: { vol, percentile, windowReturn },
+        });
+      }
+      return points;
+    },
+  };
+}
+
+/**
+ * Donchian / 高低点结构：最近 period 根的通道和再往前 period 根比
+ * - 高点抬高 + 低点抬高 → BULL
+ * - 高点降低 + 低点降低 → BEAR
+ * - 其它（扩张 / 收敛） → RANGE
+ */
+function donchianDetector(
+  cfg: Extract<RegimeDetectorConfig, { type: "donchian" }>
+): RegimeDetector {
+  const period = cfg.period ?? 20;
+  if (period < 1) {
+    throw new Error(`Donchian regime 的 period 必须 >= 1: ${period}`);
+  }
+  const warmupBars = 2 * period - 1;
+
+  return {
+    type: "donchian",
+    description: `Donchian${period}：最近 ${period} 根 vs 前 ${period} 根的高低点`,
+    warmupBars,
+    detect(candles) {
+      const { upper, lower } = donchian(candles, period);
+
+      const points: RegimePoint[] = [];
+      for (let i = warmupBars; i < candles.length; i++) {
+        const recent = { upper: upper[i]!, lower: lower[i]! };
+        const prior = { upper: upper[i - period]!, lower: lower[i - period]! };
+
+        let regime: Regime = "RANGE";
+        if (recent.upper > prior.upper && recent.lower > prior.lower) {
+          regime = "BULL";
+        } else if (recent.upper < prior.upper && recent.lower < prior.lower) {
+          regime = "BEAR";
+        }
+
+        points.push({
+          time: candles[i]!.closeTime,
+          regime,
+          metrics: {
+            upper: recent.upper,
+            lower: recent.lower,
+            priorUpper: prior.upper,
+            priorLower: prior.lower,
+          },
+        });
+      }
+      return points;
+    },
+  };
+}
+
+/**
+ * 按配置造一个 regime 判断器（不传 = 原来的 EMA50 / EMA200）
+ */
+export function createRegimeDetector(
+  config: RegimeDetectorConfig | RegimeDetectorJson = DEFAULT_REGIME_DETECTOR
+): RegimeDetector {
+  const cfg = config as RegimeDetectorConfig;
+  switch (cfg.type) {
+    case "ema":
+      return emaDetector(cfg);
+    case "adx":
+      return adxDetector(cfg);
+    case "volatility":
+      return volatilityDetector(cfg);
+    case "donchian":
+      return donchianDetector(cfg);
+    default:
+      throw new Error(
+        `未知的 regime 判断器: ${(cfg as { type: string }).type}（可用: ema, adx, volatility, donchian）`
+      );
+  }
+}
+
+/**
+ * 计算日线 K 线的 Regime 序列
+ * @param candles1d 日线 K 线数组
+ * @param detector 用哪个 regime 判断器（默认 EMA50 / EMA200）
+ * @returns 从暖机完那根开始，每根日线的时间（closeTime）和 regime；K线不够暖机时返回空数组
+ */
+export function computeDailyRegimes(
+  candles1d: Candle[],
+  detector: RegimeDetector = createRegimeDetector()
+): RegimePoint[] {
+  if (candles1d.length <= detector.warmupBars) {
+    return [];
+  }
+  return detector.detect(candles1d);
+}
+
+/**
+ * 截止 asOf 已经收盘的日线的 Regime 序列：还在走的当天（closeTime > asOf）不参与计算。
+ * 实盘拿 4H 收盘时间当 asOf，和回测引擎看到的日线一致
+ */
+export function closedDailyRegimes(
+  candles1d: Candle[],
+  asOf: number,
+  detector: RegimeDetector = createRegimeDetector()
+): RegimePoint[] {
+  return computeDailyRegimes(
+    candles1d.filter((c) => c.closeTime <= asOf),
+    detector
+  );
+}
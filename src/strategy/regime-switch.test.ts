@@ -0,0 +1,34 @@
+// src/strategy/regime-switch.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getStrategy, resolveParams } from "./registry.js";
+
+describe("regime-switch 子策略参数命名空间", () => {
+  const strategy = getStrategy("regime-switch");
+
+  test("子策略参数都带 bull. / range. / bear. 前缀，不和引擎层配置同名", () => {
+    for (const key of Object.keys(strategy.paramSchema)) {
+      if (key === "hysteresisDays" || key === "shortInBear") continue;
+      assert.match(key, /^(bull|range|bear)\./);
+    }
+  });
+
+  test("顶层同名配置盖不到子策略参数", () => {
+    // strategy.json 的 regime-switch 里 useTrendFilter: false 是给引擎的，弱 RSI 的 EMA200 保护还在
+    const params = resolveParams(strategy, {
+      useTrendFilter: false,
+      minAtrPct: 0.5,
+      emaSlow: 500,
+    });
+    assert.equal(params["range.useTrendFilter"], true);
+    assert.equal(params["range.minAtrPct"], 0.003);
+    assert.equal(params["bull.emaSlow"], 200);
+    assert.equal(strategy.warmupBars(params), strategy.warmupBars(resolveParams(strategy)));
+  });
+
+  test("带前缀的参数只进对应的子策略", () => {
+    const params = resolveParams(strategy, { "bull.emaSlow": 500 });
+    assert.equal(params["bear.emaSlow"], 200);
+    assert.ok(strategy.warmupBars(params) >= 500);
+  });
+});
@@ -0,0 +1,245 @@
+// src/strategy/regime-switch.ts
+import type { Regime } from "./regime.js";
+import { trendV3ConfirmedStrategy } from "./simple-trend-v3.js";
+import { weakRsiStrategy } from "./weak-rsi.js";
+import { breakoutFailureShortStrategy } from "./breakout-failure-short.js";
+import {
+  boolParam,
+  numParam,
+  type ParamSpec,
+  type Strategy,
+  type StrategyContext,
+  type StrategyIndicators,
+  type StrategyParams,
+} from "./types.js";
+
+/**
+ * 每个 regime 交给哪个子策略：
+ * - BULL  : 趋势（V3 确认版）
+ * - RANGE : 弱 RSI 均值回归
+ * - BEAR  : 突破失败反手空（shortInBear = false 时空仓）
+ */
+const DELEGATES: Record<Regime, Strategy> = {
+  BULL: trendV3ConfirmedStrategy,
+  RANGE: weakRsiStrategy,
+  BEAR: breakoutFailureShortStrategy,
+};
+
+const REGIMES = Object.keys(DELEGATES) as Regime[];
+
+/**
+ * 每个子策略的参数命名空间：配置里写 "bull.emaFast" / "range.rsiBuy" / "bear.failureWindowBars"。
+ * 子策略之间、子策略和引擎层配置（useTrendFilter / minAtrPct 这类同名字段）互不覆盖
+ */
+const NAMESPACES: Record<Regime, string> = {
+  BULL: "bull",
+  RANGE: "range",
+  BEAR: "bear",
+};
+
+function namespacedSchema(): Record<string, ParamSpec> {
+  const schema: Record<string, ParamSpec> = {};
+  for (const regime of REGIMES) {
+    for (const [key, spec] of Object.entries(DELEGATES[regime].paramSchema)) {
+      schema[`${NAMESPACES[regime]}.${key}`] = spec;
+    }
+  }
+  return schema;
+}
+
+/**
+ * 从 "ns.key" 里取回某个子策略自己的参数（去掉前缀）
+ */
+function delegateParams(params: StrategyParams, regime: Regime): StrategyParams {
+  const prefix = `${NAMESPACES[regime]}.`;
+  const own: StrategyParams = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (key.startsWith(prefix)) own[key.slice(prefix.length)] = value;
+  }
+  return own;
+}
+
+/**
+ * 滞后状态机：当前生效的 regime + 正在累计的候选
+ */
+interface HysteresisState {
+  active: Regime | undefined;
+  candidate: Regime | undefined;
+  run: number;
+  seen: number; // 已经喂进来几天
+}
+
+function initialHysteresis(): HysteresisState {
+  return { active: undefined, candidate: undefined, run: 0, seen: 0 };
+}
+
+/**
+ * 喂进一天的 regime
+ */
+function stepHysteresis(
+  state: HysteresisState,
+  regime: Regime,
+  hysteresisDays: number
+): void {
+  state.seen++;
+  if (state.active === undefined) {
+    state.active = regime;
+    return;
+  }
+  if (regime === state.active) {
+    state.candidate = undefined;
+    state.run = 0;
+    return;
+  }
+  if (regime === state.candidate) {
+    state.run++;
+  } else {
+    state.candidate = regime;
+    state.run = 1;
+  }
+  if (state.run >= hysteresisDays) {
+    state.active = regime;
+    state.candidate = undefined;
+    state.run = 0;
+  }
+}
+
+/**
+ * 带滞后的 regime：新 regime 要连续出现 hysteresisDays 天才切过去，
+ * 避免日线在边界上来回抖、策略跟着来回切。
+ * @param history 截止当前已收盘的日线 regime（旧 → 新）
+ */
+export function hysteresisRegime(
+  history: readonly Regime[],
+  hysteresisDays: number
+): Regime | undefined {
+  const state = initialHysteresis();
+  for (const regime of history) stepHysteresis(state, regime, hysteresisDays);
+  return state.active;
+}
+
+/**
+ * 按 history 数组 + hysteresisDays 缓存状态：引擎每根K线传的是同一个只往后追加的数组，
+ * 每次只补喂新收盘的那几天，不用每根K线从头重放（数组变短了就当成新序列重算）
+ */
+const hysteresisCache = new WeakMap<
+  readonly Regime[],
+  Map<number, HysteresisState>
+>();
+
+function cachedHysteresisRegime(
+  history: readonly Regime[],
+  hysteresisDays: number
+): Regime | undefined {
+  let byDays = hysteresisCache.get(history);
+  if (!byDays) {
+    byDays = new Map();
+    hysteresisCache.set(history, byDays);
+  }
+
+  let state = byDays.get(hysteresisDays);
+  if (!state || state.seen > history.length) {
+    state = initialHysteresis();
+    byDays.set(hysteresisDays, state);
+  }
+  for (let k = state.seen; k < history.length; k++) {
+    stepHysteresis(state, history[k]!, hysteresisDays);
+  }
+  return state.active;
+}
+
+/**
+ * 取出某个子策略自己的指标（computeIndicators 里按 "REGIME:key" 存的）
+ */
+function delegateIndicators(
+  indicators: StrategyIndicators,
+  regime: Regime
+): StrategyIndicators {
+  const prefix = `${regime}:`;
+  const own: StrategyIndicators = {};
+  for (const [key, values] of Object.entries(indicators)) {
+    if (key.startsWith(prefix)) own[key.slice(prefix.length)] = values;
+  }
+  return own;
+}
+
+/**
+ * 当前该用哪个子策略 + 给它的上下文；没有日线 regime / BEAR 不做空时返回 null。
+ * 持仓中也按当前 regime 路由：还在 RANGE 就由弱 RSI 给回归均值的平仓信号，切走了就按新子策略的规则（SL / TP 照常由引擎管）
+ */
+function route(
+  ctx: StrategyContext
+): { delegate: Strategy; ctx: StrategyContext } | null {
+  const regime = cachedHysteresisRegime(
+    ctx.higherTFRegimes ?? [],
+    numParam(ctx.params, "hysteresisDays")
+  );
+  if (!regime) return null;
+  if (regime === "BEAR" && !boolParam(ctx.params, "shortInBear")) return null;
+
+  return {
+    delegate: DELEGATES[regime],
+    ctx: {
+      ...ctx,
+      indicators: delegateIndicators(ctx.indicators, regime),
+      params: delegateParams(ctx.params, regime),
+    },
+  };
+}
+
+/**
+ * Regime 切换元策略：按日线 regime（带滞后）把决策交给不同子策略。
+ * 子策略参数按 regime 分命名空间（bull.* / range.* / bear.*，见 NAMESPACES），再加 hysteresisDays / shortInBear。
+ *
+ * 需要引擎 / 实盘传 higherTFRegimes；引擎层的 regime 白名单要放开
+ * （allowedHigherTFRegimes / allowedHigherTFRegimesShort），路由全交给这里。
+ */
+export const regimeSwitchStrategy: Strategy = {
+  name: "regime-switch",
+  description: "Regime 切换：BULL 趋势、RANGE 弱 RSI、BEAR 空仓或反手空，regime 持续 N 天才切换",
+  paramSchema: {
+    ...namespacedSchema(),
+    hysteresisDays: { type: "number", default: 3, min: 1, description: "新 regime 连续多少天才切换" },
+    shortInBear: { type: "boolean", default: false, description: "BEAR 时是否用突破失败反手空（否则空仓）" },
+  },
+  warmupBars(params) {
+    return Math.max(
+      ...REGIMES.map((r) => DELEGATES[r].warmupBars(delegateParams(params, r)))
+    );
+  },
+  smoothingPeriod(params) {
+    return Math.max(
+      ...REGIMES.map((r) => {
+        const delegate = DELEGATES[r];
+        const own = delegateParams(params, r);
+        return delegate.smoothingPeriod?.(own) ?? delegate.warmupBars(own);
+      })
+    );
+  },
+  computeIndicators(candles, params, options) {
+    const indicators: StrategyIndicators = {};
+    for (const regime of REGIMES) {
+      const own = DELEGATES[regime].computeIndicators(
+        candles,
+        delegateParams(params, regime),
+        options
+      );
+      for (const [key, values] of Object.entries(own)) {
+        indicators[`${regime}:${key}`] = values;
+      }
+    }
+    return indicators;
+  },
+  // 持仓时只有当前子策略自己开了 exitOnSignal（RANGE 的弱 RSI）才给平仓信号，见 decide
+  exitOnSignal: true,
+  decide(ctx) {
+    const routed = route(ctx);
+    if (!routed) return "HOLD";
+    if (ctx.inPosition && !routed.delegate.exitOnSignal) return "HOLD";
+    return routed.delegate.decide(routed.ctx);
+  },
+  stopPrice(ctx) {
+    const routed = route(ctx);
+    return routed?.delegate.stopPrice?.(routed.ctx);
+  },
+};
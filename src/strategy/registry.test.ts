@@ -0,0 +1,25 @@
+// src/strategy/registry.test.ts
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getStrategy, resolveParams } from "./registry.js";
+
+describe("resolveParams", () => {
+  const strategy = getStrategy("trend-v3-confirmed");
+
+  test("没写的参数用 schema 默认值，写了的用配置值", () => {
+    const params = resolveParams(strategy, { emaSlow: 300 });
+    assert.equal(params.emaSlow, 300);
+    assert.equal(params.emaFast, strategy.paramSchema.emaFast!.default);
+  });
+
+  test("类型不对直接报错，不退回默认值", () => {
+    assert.throws(
+      () => resolveParams(strategy, { emaSlow: "300" }),
+      /emaSlow="300" 类型不对/
+    );
+  });
+
+  test("超出范围报错", () => {
+    assert.throws(() => resolveParams(strategy, { emaSlow: -1 }), /超出范围/);
+  });
+});
@@ -0,0 +1,94 @@
+// src/strategy/registry.ts
+import type { Strategy, StrategyParams } from "./types.js";
+import { trendV1Strategy } from "./simple-trend.js";
+import { trendV2Strategy } from "./simple-trend-v2.js";
+import {
+  trendV3ConfirmedStrategy,
+  trendV3Strategy,
+} from "./simple-trend-v3.js";
+import { meanRevertStrategy } from "./mean-revert.js";
+import { weakRsiStrategy } from "./weak-rsi.js";
+import { breakoutFailureShortStrategy } from "./breakout-failure-short.js";
+import { regimeSwitchStrategy } from "./regime-switch.js";
+
+/**
+ * 默认策略（strategy.json 没写 "strategy" 时用）
+ */
+export const DEFAULT_STRATEGY_NAME = "trend-v1";
+
+const registry = new Map<string, Strategy>();
+
+/**
+ * 注册一个策略；同名会报错，防止悄悄覆盖
+ */
+export function registerStrategy(strategy: Strategy): void {
+  if (registry.has(strategy.name)) {
+    throw new Error(`策略已注册: ${strategy.name}`);
+  }
+  registry.set(strategy.name, strategy);
+}
+
+/**
+ * 按名字取策略，找不到直接报错（不要静默回退到别的策略）
+ */
+export function getStrategy(name: string = DEFAULT_STRATEGY_NAME): Strategy {
+  const strategy = registry.get(name);
+  if (!strategy) {
+    throw new Error(
+      `未知策略: ${name}，可选: ${listStrategies().join(", ")}`
+    );
+  }
+  return strategy;
+}
+
+export function listStrategies(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * 按 paramSchema 从任意配置对象（比如 strategy.json）里挑出策略参数：
+ * - 配置里有 -> 用配置值（类型不对直接报错，比如 "emaSlow": "300"，不要悄悄退回默认值）
+ * - 没有 -> 用 schema 默认值
+ * 数值超出 [min, max] 直接报错。
+ */
+export function resolveParams(
+  strategy: Strategy,
+  source: Record<string, unknown> = {}
+): StrategyParams {
+  const params: StrategyParams = {};
+
+  for (const [key, spec] of Object.entries(strategy.paramSchema)) {
+    const raw = source[key];
+    if (raw !== undefined && typeof raw !== spec.type) {
+      throw new Error(
+        `策略 ${strategy.name} 参数 ${key}=${JSON.stringify(raw)} 类型不对，应为 ${spec.type}`
+      );
+    }
+    const value = raw === undefined ? spec.default : (raw as number | boolean);
+
+    if (typeof value === "number") {
+      if (
+        (spec.min !== undefined && value < spec.min) ||
+        (spec.max !== undefined && value > spec.max)
+      ) {
+        throw new Error(
+          `策略 ${strategy.name} 参数 ${key}=${value} 超出范围 [${spec.min ?? "-∞"}, ${spec.max ?? "+∞"}]`
+        );
+      }
+    }
+
+    params[key] = value;
+  }
+
+  return params;
+}
+
+// === 内置策略 ===
+registerStrategy(trendV1Strategy);
+registerStrategy(trendV2Strategy);
+registerStrategy(trendV3Strategy);
+registerStrategy(trendV3ConfirmedStrategy);
+registerStrategy(meanRevertStrategy);
+registerStrategy(weakRsiStrategy);
+registerStrategy(breakoutFailureShortStrategy);
+registerStrategy(regimeSwitchStrategy);
@@ -1,4 +1,6 @@
 import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { numParam, type Strategy } from "./types.js";
 
 export type Signal = "LONG" | "CLOSE_LONG" | "HOLD";
 
@@ -59,4 +61,40 @@ export function detectSignalV2(
   }
 
   return "HOLD";
-}
\ No newline at end of file
+}
+
+/**
+ * 注册到策略 registry 的 V2 包装
+ */
+export const trendV2Strategy: Strategy = {
+  name: "trend-v2",
+  description: "V2：回踩 EMA 快线后再向上突破开多",
+  paramSchema: {
+    emaFast: { type: "number", default: 50, min: 2, description: "快 EMA 周期" },
+    emaSlow: { type: "number", default: 200, min: 2, description: "慢 EMA 周期" },
+    lookback: { type: "number", default: 10, min: 1, description: "向前找回踩的 K 线数" },
+    retracePct: { type: "number", default: 0.003, min: 0, description: "回踩幅度（0.003 = 0.3%）" },
+  },
+  warmupBars(params) {
+    return Math.max(numParam(params, "emaFast"), numParam(params, "emaSlow"));
+  },
+  computeIndicators(candles, params, options) {
+    const closes = candles.map((c) => c.close);
+    return {
+      emaFast: ema(closes, numParam(params, "emaFast"), options?.emaSeed),
+      emaSlow: ema(closes, numParam(params, "emaSlow"), options?.emaSeed),
+    };
+  },
+  decide({ candles, i, inPosition, indicators, params }) {
+    if (i < 1) return "HOLD";
+    return detectSignalV2(
+      candles,
+      i,
+      indicators.emaFast!,
+      indicators.emaSlow!,
+      inPosition,
+      numParam(params, "lookback"),
+      numParam(params, "retracePct")
+    );
+  },
+};
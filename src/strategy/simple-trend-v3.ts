@@ -1,6 +1,8 @@
 // src/strategy/simple-trend-v3.ts
 
 import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { numParam, type Strategy } from "./types.js";
 
 /**
  * V3: 4H 趋势策略 - 突破宽松确认版
@@ -9,6 +11,9 @@ import type { Candle } from "../types/candle.js";
  *   1) 当前K线突破：收盘 > EMA50 且 收盘 > 前高
  *   2) 下一根K线确认：下一根K线收盘 > 当前K线收盘
  *
+ * ⚠️ 会读取 candles[i + 1]（未来函数），回测结果偏乐观，实盘永远等不到下一根。
+ *    无未来函数版本见 detectSignalV3Confirmed。
+ *
  * 返回:
  *   "LONG" / "HOLD" / "CLOSE_LONG"
  */
@@ -59,4 +64,98 @@ export function detectSignalV3(
   }
 
   return "HOLD";
-}
\ No newline at end of file
+}
+
+/**
+ * V3 无未来函数版本：前一根突破、当前这根确认
+ *
+ * 信号逻辑：
+ *   1) 前一根K线（i - 1）突破：收盘 > EMA50 且 收盘 > EMA200 且 收盘 > 它的前高
+ *   2) 当前K线（i）确认：当前收盘 > 突破K线收盘
+ *
+ * 在第 i 根收盘时给出 LONG，下一根K线才入场，只用到 [0, i] 的数据。
+ */
+export function detectSignalV3Confirmed(
+  candles: Candle[],
+  i: number,
+  ema50: number[],
+  ema200: number[],
+  inPosition: boolean
+): "LONG" | "CLOSE_LONG" | "HOLD" {
+  if (inPosition) return "HOLD";
+
+  const c0 = candles[i];
+  const cBreak = candles[i - 1];
+  const cPrev = candles[i - 2];
+
+  if (!c0 || !cBreak || !cPrev) return "HOLD";
+
+  const e50 = ema50[i - 1];
+  const e200 = ema200[i - 1];
+
+  if (!e50 || !e200) return "HOLD";
+
+  // ========= Step 1: 前一根K线突破 =========
+  const breakPrice = cBreak.close;
+  const isBreakout =
+    breakPrice > e50 &&
+    breakPrice > e200 &&
+    breakPrice > cPrev.high;
+
+  if (!isBreakout) return "HOLD";
+
+  // ========= Step 2: 当前K线收盘更高即确认 =========
+  return c0.close > breakPrice ? "LONG" : "HOLD";
+}
+
+/**
+ * 注册到策略 registry 的 V3 包装
+ */
+export const trendV3Strategy: Strategy = {
+  name: "trend-v3",
+  description: "V3：收盘突破 EMA + 前高，下一根收盘更高确认",
+  paramSchema: {
+    emaFast: { type: "number", default: 50, min: 2, description: "快 EMA 周期" },
+    emaSlow: { type: "number", default: 200, min: 2, description: "慢 EMA 周期" },
+  },
+  warmupBars(params) {
+    return Math.max(numParam(params, "emaFast"), numParam(params, "emaSlow"));
+  },
+  computeIndicators(candles, params, options) {
+    const closes = candles.map((c) => c.close);
+    return {
+      emaFast: ema(closes, numParam(params, "emaFast"), options?.emaSeed),
+      emaSlow: ema(closes, numParam(params, "emaSlow"), options?.emaSeed),
+    };
+  },
+  decide({ candles, i, inPosition, indicators }) {
+    return detectSignalV3(
+      candles,
+      i,
+      indicators.emaFast!,
+      indicators.emaSlow!,
+      inPosition
+    );
+  },
+};
+
+/**
+ * 注册到策略 registry 的 V3 无未来函数版本
+ */
+export const trendV3ConfirmedStrategy: Strategy = {
+  ...trendV3Strategy,
+  name: "trend-v3-confirmed",
+  description: "V3（无未来函数）：前一根突破 EMA + 前高，当前收盘更高确认，下一根入场",
+  warmupBars(params) {
+    return Math.max(numParam(params, "emaFast"), numParam(params, "emaSlow")) + 1;
+  },
+  decide({ candles, i, inPosition, indicators }) {
+    return detectSignalV3Confirmed(
+      candles,
+      i,
+      indicators.emaFast!,
+      indicators.emaSlow!,
+      inPosition
+    );
+  },
+};
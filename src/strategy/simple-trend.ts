@@ -1,3 +1,6 @@
+import { ema } from "../indicators/ema.js";
+import { numParam, type Strategy } from "./types.js";
+
 /**
  * 趋势策略信号
  */
@@ -33,4 +36,36 @@ export function detectSignal(
   }
 
   return "HOLD";
-}
\ No newline at end of file
+}
+/**
+ * 注册到策略 registry 的 V1 包装
+ */
+export const trendV1Strategy: Strategy = {
+  name: "trend-v1",
+  description: "V1：收盘价上穿 EMA 快线开多",
+  paramSchema: {
+    emaFast: { type: "number", default: 50, min: 2, description: "快 EMA 周期" },
+    emaSlow: { type: "number", default: 200, min: 2, description: "慢 EMA 周期" },
+  },
+  warmupBars(params) {
+    return Math.max(numParam(params, "emaFast"), numParam(params, "emaSlow"));
+  },
+  computeIndicators(candles, params, options) {
+    const closes = candles.map((c) => c.close);
+    return {
+      emaFast: ema(closes, numParam(params, "emaFast"), options?.emaSeed),
+      emaSlow: ema(closes, numParam(params, "emaSlow"), options?.emaSeed),
+    };
+  },
+  decide({ candles, i, inPosition, indicators }) {
+    const emaFast = indicators.emaFast!;
+    if (i < 1) return "HOLD";
+    return detectSignal(
+      candles[i]!.close,
+      candles[i - 1]!.close,
+      emaFast[i]!,
+      emaFast[i - 1]!,
+      inPosition
+    );
+  },
+};
@@ -0,0 +1,116 @@
+// src/strategy/types.ts
+import type { Candle } from "../types/candle.js";
+import type { Regime } from "./regime.js";
+import type { EmaSeed } from "../indicators/ema.js";
+
+/**
+ * 所有策略统一的信号类型（SHORT / CLOSE_SHORT 给做空策略用）
+ */
+export type Signal = "LONG" | "SHORT" | "CLOSE_LONG" | "CLOSE_SHORT" | "HOLD";
+
+/**
+ * 策略参数：统一用扁平的 number / boolean，方便直接从 strategy.json 读
+ */
+export type StrategyParams = Record<string, number | boolean>;
+
+/**
+ * 策略预先算好的指标序列（key -> 与 candles 等长的数组）
+ */
+export type StrategyIndicators = Record<string, number[]>;
+
+/**
+ * 引擎层统一决定的指标算法选项（不属于某个策略的参数）
+ */
+export interface IndicatorOptions {
+  emaSeed?: EmaSeed; // EMA 种子取法，默认 "first"（见 indicators/ema.ts）
+}
+
+/**
+ * 单个参数的说明（用于校验 / 扫参 / 打印）
+ */
+export interface ParamSpec {
+  type: "number" | "boolean";
+  default: number | boolean;
+  min?: number;
+  max?: number;
+  description: string;
+}
+
+/**
+ * 策略在第 i 根 K 线上做决策时能看到的全部信息
+ */
+export interface StrategyContext {
+  candles: Candle[];
+  i: number;
+  inPosition: boolean;
+  indicators: StrategyIndicators;
+  params: StrategyParams;
+  /**
+   * 可选：截止当前已收盘的高周期（日线）regime 序列（旧 → 新），
+   * 引擎 / 实盘有日线数据时才传，按 regime 切换的策略用。
+   * 引擎每根K线传同一个数组、新收盘的日线往后追加（不会改前面的值），策略可以按数组缓存增量状态
+   */
+  higherTFRegimes?: readonly Regime[];
+}
+
+/**
+ * 统一的策略契约：
+ * - warmupBars：需要多少根 K 线暖机
+ * - smoothingPeriod：可选，指标里最慢的指数平滑（实盘按它算批量指标要多少历史）
+ * - computeIndicators：一次性预计算指标
+ * - decide：在第 i 根 K 线上给出开/平仓信号
+ * - paramSchema：参数定义（默认值 + 范围）
+ * - stopPrice：可选，策略自己定止损价（不实现就按引擎的 stopLossPct）
+ *
+ * 回测引擎、扫参脚本、实盘 runner 都只通过这个接口调用策略。
+ */
+export interface Strategy {
+  name: string;
+  description: string;
+  paramSchema: Record<string, ParamSpec>;
+  warmupBars(params: StrategyParams): number;
+  /**
+   * 指标里最慢的指数平滑折成 EMA 周期（Wilder 平滑的 ATR / RSI 周期 p 算 2p − 1）。
+   * 实盘只在最近一段K线上批量算指标，要多长才和全历史算的一样看它（见 strategy/history.ts）；
+   * 不写 = warmupBars（指标全是周期不超过暖机根数的 EMA 时就对）
+   */
+  smoothingPeriod?(params: StrategyParams): number;
+  computeIndicators(
+    candles: Candle[],
+    params: StrategyParams,
+    options?: IndicatorOptions
+  ): StrategyIndicators;
+  decide(ctx: StrategyContext): Signal;
+  /**
+   * 在 decide 给出开仓信号的同一根K线上调用，返回这笔仓位的止损价；
+   * 返回 undefined 时退回 stopLossPct
+   */
+  stopPrice?(ctx: StrategyContext): number | undefined;
+  /**
+   * 持仓时引擎是否按 decide 给的 CLOSE_LONG / CLOSE_SHORT 平仓（出场原因 SIGNAL）。
+   * 不写 = 不按信号平，只看止损 / 止盈 / 强平（和实盘一致：实盘持仓时不会自动按信号平仓）
+   */
+  exitOnSignal?: boolean;
+}
+
+/**
+ * 从已解析的参数里取 number（resolveParams 保证存在）
+ */
+export function numParam(params: StrategyParams, key: string): number {
+  const v = params[key];
+  if (typeof v !== "number") {
+    throw new Error(`策略参数 ${key} 不是数字: ${String(v)}`);
+  }
+  return v;
+}
+
+/**
+ * 从已解析的参数里取 boolean
+ */
+export function boolParam(params: StrategyParams, key: string): boolean {
+  const v = params[key];
+  if (typeof v !== "boolean") {
+    throw new Error(`策略参数 ${key} 不是布尔值: ${String(v)}`);
+  }
+  return v;
+}
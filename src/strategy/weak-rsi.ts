@@ -0,0 +1,126 @@
+// src/strategy/weak-rsi.ts
+import type { Candle } from "../types/candle.js";
+import { ema } from "../indicators/ema.js";
+import { atr } from "../indicators/atr.js";
+import { rsi } from "../indicators/rsi.js";
+import { boolParam, numParam, type Signal, type Strategy } from "./types.js";
+
+export interface WeakRsiSignalParams {
+  minAtrPct: number;       // ATR / price 下限
+  maxAtrPct: number;       // ATR / price 上限
+  rsiBuy: number;          // RSI 低于此值认为超跌
+  rsiSell: number;         // RSI 回到此值以上认为回归均值
+  useTrendFilter: boolean; // 是否要求 price、EMA50 在 EMA200 上方
+  maxEma200Slope: number;  // EMA200 斜率绝对值上限（弱趋势/横盘）
+}
+
+/**
+ * 弱趋势 / 震荡 RSI 均值回归信号（只做多）：
+ * - 不在仓位：震荡 regime + RSI 超跌 + 价格在 EMA50 附近/下方 -> LONG
+ * - 在仓位：RSI 回到 rsiSell 以上 -> CLOSE_LONG
+ *
+ * SL / TP 由引擎处理，这里不管。
+ */
+export function detectWeakRsiSignal(
+  candles: Candle[],
+  i: number,
+  ema50: number[],
+  ema200: number[],
+  atr14: number[],
+  rsi14: number[],
+  inPosition: boolean,
+  params: WeakRsiSignalParams
+): Signal {
+  const c = candles[i];
+  const e50 = ema50[i];
+  const e200 = ema200[i];
+  const e200Prev = ema200[i - 1];
+  const r = rsi14[i];
+  const a = atr14[i];
+
+  if (
+    !c ||
+    e50 === undefined ||
+    e200 === undefined ||
+    e200Prev === undefined ||
+    r === undefined ||
+    a === undefined ||
+    Number.isNaN(r) ||
+    Number.isNaN(a)
+  ) {
+    return "HOLD";
+  }
+
+  if (inPosition) {
+    return r >= params.rsiSell ? "CLOSE_LONG" : "HOLD";
+  }
+
+  const price = c.close;
+
+  // === “弱趋势 / 震荡 + 上方结构”过滤 ===
+  let regimeOk = true;
+  if (params.useTrendFilter) {
+    // 1. 大结构仍然在 EMA200 上方（不要抄刀底）
+    const above200 = price > e200 && e50 > e200;
+    // 2. EMA200 不要有很强的上/下趋势
+    const slopeOk = Math.abs(e200 - e200Prev) <= params.maxEma200Slope;
+    // 3. 波动率在 [minAtrPct, maxAtrPct] 之间
+    const atrPct = a / price;
+    const volOk = atrPct >= params.minAtrPct && atrPct <= params.maxAtrPct;
+
+    regimeOk = above200 && slopeOk && volOk;
+  }
+
+  if (regimeOk && r <= params.rsiBuy && price <= e50) {
+    return "LONG";
+  }
+  return "HOLD";
+}
+
+/**
+ * 注册到策略 registry 的弱趋势 RSI 包装
+ */
+export const weakRsiStrategy: Strategy = {
+  name: "weak-rsi",
+  description: "弱趋势 / 震荡 RSI 均值回归：RSI 超跌开多，回到均值平多",
+  exitOnSignal: true, // RSI 回到 rsiSell 就平，是这个策略本身的出场规则
+  paramSchema: {
+    minAtrPct: { type: "number", default: 0.003, min: 0, description: "ATR/price 下限" },
+    maxAtrPct: { type: "number", default: 0.01, min: 0, description: "ATR/price 上限" },
+    rsiBuy: { type: "number", default: 35, min: 0, max: 100, description: "RSI 超跌阈值" },
+    rsiSell: { type: "number", default: 50, min: 0, max: 100, description: "RSI 回归阈值" },
+    useTrendFilter: { type: "boolean", default: true, description: "是否要求在 EMA200 上方" },
+    maxEma200Slope: { type: "number", default: 10, min: 0, description: "EMA200 斜率绝对值上限" },
+  },
+  warmupBars() {
+    return 200;
+  },
+  computeIndicators(candles, _params, options) {
+    const closes = candles.map((c) => c.close);
+    return {
+      ema50: ema(closes, 50, options?.emaSeed),
+      ema200: ema(closes, 200, options?.emaSeed),
+      atr14: atr(candles, 14),
+      rsi14: rsi(closes, 14),
+    };
+  },
+  decide({ candles, i, inPosition, indicators, params }) {
+    return detectWeakRsiSignal(
+      candles,
+      i,
+      indicators.ema50!,
+      indicators.ema200!,
+      indicators.atr14!,
+      indicators.rsi14!,
+      inPosition,
+      {
+        minAtrPct: numParam(params, "minAtrPct"),
+        maxAtrPct: numParam(params, "maxAtrPct"),
+        rsiBuy: numParam(params, "rsiBuy"),
+        rsiSell: numParam(params, "rsiSell"),
+        useTrendFilter: boolParam(params, "useTrendFilter"),
+        maxEma200Slope: numParam(params, "maxEma200Slope"),
+      }
+    );
+  },
+};
@@ -0,0 +1,159 @@
+// src/sweep-breakout-failure.ts
+import "dotenv/config";
+import fs from "node:fs";
+import type { Candle } from "./types/candle.js";
+import {
+  configForStrategy,
+  runBacktestWithConfig,
+  type StrategyConfig,
+} from "./backtest-regime.js";
+import type { BacktestResult } from "./backtest/engine.js";
+import {
+  computeMetrics,
+  scoreMetrics,
+  type PerformanceMetrics,
+  type ScoreTarget,
+} from "./backtest/metrics.js";
+import strategy from "./config/strategy.json" with { type: "json" };
+
+const STRATEGY_NAME = "breakout-failure-short";
+
+interface SweepItem {
+  cfg: StrategyConfig & Record<string, unknown>;
+  stats: BacktestResult;
+  metrics: PerformanceMetrics;
+  score: number;
+}
+
+// 打分目标：和 sweep-v3 一样「年化 - 最大回撤」
+const SCORE_TARGET: ScoreTarget = (m) =>
+  m.annualizedReturnPct - m.maxDrawdownPct;
+
+function loadCandlesFromFile(path: string): Candle[] {
+  const raw = fs.readFileSync(path, "utf8");
+  const data = JSON.parse(raw);
+  return data as Candle[];
+}
+
+async function main() {
+  console.log(
+    "===== 突破失败反手空 参数扫街（strategyOverrides + 本地 data/ JSON）开始 ====="
+  );
+
+  const candles4h = loadCandlesFromFile("./data/btc-4h.json");
+  const candles1d = loadCandlesFromFile("./data/btc-1d.json");
+
+  console.log(`本地 4H K 线数量: ${candles4h.length}`);
+  console.log(`本地 1D K 线数量: ${candles1d.length}`);
+
+  if (candles4h.length < 200 || candles1d.length < 200) {
+    console.log("K线长度不足，无法回测。");
+    return;
+  }
+
+  // 基础参数：strategy.json 顶层 + strategyOverrides["breakout-failure-short"]
+  const base = configForStrategy(strategy, STRATEGY_NAME);
+
+  // ===== 参数搜索空间 =====
+  const breakoutVersionList = [2, 3];
+  const failureWindowList = [2, 3, 5];
+  const stopBufferList = [0.001, 0.002, 0.004]; // 失败高点上方 0.1% / 0.2% / 0.4%
+  const takeProfitList = [0.02, 0.03, 0.04];
+
+  const totalCombos =
+    breakoutVersionList.length *
+    failureWindowList.length *
+    stopBufferList.length *
+    takeProfitList.length;
+  console.log(`本次总共要测试的参数组合数: ${totalCombos}`);
+
+  const results: SweepItem[] = [];
+  let idx = 0;
+
+  for (const breakoutVersion of breakoutVersionList) {
+    for (const failureWindowBars of failureWindowList) {
+      for (const shortStopBufferPct of stopBufferList) {
+        for (const takeProfitPct of takeProfitList) {
+          idx++;
+          const cfg = {
+            ...base,
+            breakoutVersion,
+            failureWindowBars,
+            shortStopBufferPct,
+            takeProfitPct,
+          } as StrategyConfig & Record<string, unknown>;
+
+          const ret = runBacktestWithConfig(candles4h, candles1d, cfg);
+          if (!ret || !ret.result) {
+            console.log(`[${idx}/${totalCombos}] 回测失败(可能是数据问题)，跳过。`);
+            continue;
+          }
+
+          const stats = ret.result;
+          if (stats.totalTrades < 8) {
+            console.log(
+              `[${idx}/${totalCombos}] 交易笔数太少 (${stats.totalTrades})，先丢弃。`
+            );
+            continue;
+          }
+
+          const metrics = computeMetrics(stats, candles4h);
+          const score = scoreMetrics(metrics, SCORE_TARGET);
+          results.push({ cfg, stats, metrics, score });
+
+          console.log(
+            `[${idx}/${totalCombos}] V${breakoutVersion} N=${failureWindowBars} ` +
+              `buffer=${(shortStopBufferPct * 100).toFixed(1)}% TP=${(
+                takeProfitPct * 100
+              ).toFixed(1)}% -> 年化: ${metrics.annualizedReturnPct.toFixed(
+                2
+              )}%, MaxDD: ${stats.maxDrawdownPct.toFixed(
+                2
+              )}%, Score=${score.toFixed(2)}, Trades=${stats.totalTrades}`
+          );
+        }
+      }
+    }
+  }
+
+  if (results.length === 0) {
+    console.log("\n⚠️ 所有组合都被过滤掉了，没有可用结果。");
+    return;
+  }
+
+  results.sort((a, b) => b.score - a.score);
+
+  const TOP_N = 10;
+  console.log(`\n===== 参数扫街完成，TOP ${TOP_N} 组合 =====`);
+
+  results.slice(0, TOP_N).forEach((item, i) => {
+    const { cfg, stats, metrics, score } = item;
+    console.log(`\n#${i + 1}  Score=${score.toFixed(2)}`);
+    console.log(
+      `配置: V${cfg.breakoutVersion}, 失败窗口=${cfg.failureWindowBars} 根, ` +
+        `止损缓冲=${((cfg.shortStopBufferPct as number) * 100).toFixed(1)}%, ` +
+        `TP=${(cfg.takeProfitPct! * 100).toFixed(2)}%`
+    );
+    console.log(
+      `结果: 年化=${metrics.annualizedReturnPct.toFixed(
+        2
+      )}%, MaxDD=${stats.maxDrawdownPct.toFixed(
+        2
+      )}%, 总收益=${stats.totalReturnPct.toFixed(
+        2
+      )}%, 笔数=${stats.totalTrades}, 胜率=${stats.winRate.toFixed(2)}%, ` +
+        `Sharpe=${metrics.sharpe?.toFixed(2) ?? "-"}, PF=${
+          metrics.profitFactor?.toFixed(2) ?? "-"
+        }, 平均R=${metrics.expectancyR?.toFixed(2) ?? "-"}`
+    );
+  });
+
+  console.log(
+    `\n✅ sweep-breakout-failure 结束。可以从前几名里挑一个写回 strategy.json 的 strategyOverrides["${STRATEGY_NAME}"]。`
+  );
+}
+
+main().catch((err) => {
+  console.error("sweep-breakout-failure 运行出错:", err);
+  process.exit(1);
+});
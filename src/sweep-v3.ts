@@ -2,19 +2,41 @@
 import "dotenv/config";
 import fs from "node:fs";
 import type { Candle } from "./types/candle.js";
+import type { StrategyConfig } from "./backtest-regime.js";
+import type {
+  PerformanceMetrics,
+  ScoreTarget,
+} from "./backtest/metrics.js";
+import { metricObjective } from "./backtest/param-search.js";
 import {
-  runBacktestWithConfig,
-  type StrategyConfig,
-} from "./backtest-regime.js";
-import type { BacktestResult } from "./backtest/engine.js";
+  workerCountFromEnv,
+  progressLogger,
+  runParallelSearch,
+  type ParallelSearchOptions,
+} from "./backtest/parallel-search.js";
+import { V3_SWEEP_SPACE } from "./backtest/search-space.js";
 import strategy from "./config/strategy.json" with { type: "json" };
 
 interface SweepItem {
   cfg: StrategyConfig;
-  stats: BacktestResult;
+  metrics: PerformanceMetrics;
   score: number;
 }
 
+// 打分目标：可以直接换成 "sharpe" / "calmar" / "profitFactor" 等（见 backtest/metrics.ts）
+const SCORE_TARGET: ScoreTarget = (m) =>
+  m.annualizedReturnPct - m.maxDrawdownPct; // 年化 - 最大回撤
+const MIN_TRADES = 8;
+
+// 搜索方法：默认网格跑全部组合；换成 { method: "tpe", trials: 60 } / "random" / "lhs" 只跑一部分
+const SEARCH: ParallelSearchOptions<PerformanceMetrics> = { method: "grid" };
+
+// 并行：SWEEP_WORKERS 指定 worker 数（0 = 主线程跑，默认 CPU 核数 - 1）
+const WORKERS = workerCountFromEnv("SWEEP_WORKERS");
+// 每跑完一组追加到结果文件；Ctrl+C 中断后 SWEEP_RESUME=true 接着跑（已跑过的组合不再跑）
+const RESULTS_FILE = "./logs/sweep-v3-results.jsonl";
+const RESUME = process.env.SWEEP_RESUME === "true";
+
 function loadCandlesFromFile(path: string): Candle[] {
   const raw = fs.readFileSync(path, "utf8");
   const data = JSON.parse(raw);
@@ -49,93 +71,58 @@ async function main() {
     ).toFixed(1)}%`
   );
 
-  // ===== 参数搜索空间（以后可以再调细） =====
-  const stopLossList = [0.006, 0.008, 0.01]; // 0.6% / 0.8% / 1%
-  const takeProfitList = [0.04, 0.05, 0.06]; // 4% / 5% / 6%
-  const minAtrPctList = [0.007, 0.0075, 0.008, 0.009]; // ATR / price
-  const maxRsiList = [65, 70, 75];
-  const minRsiList = [25, 30, 35];
-
-  const results: SweepItem[] = [];
-
-  let totalCombos = 0;
-  for (const sl of stopLossList) {
-    for (const tp of takeProfitList) {
-      for (const atrPct of minAtrPctList) {
-        for (const maxRsi of maxRsiList) {
-          for (const minRsi of minRsiList) {
-            if (minRsi >= maxRsi) continue;
-            totalCombos++;
-          }
-        }
-      }
-    }
-  }
-  console.log(`本次总共要测试的参数组合数: ${totalCombos}`);
-
-  let idx = 0;
-
-  for (const stopLossPct of stopLossList) {
-    for (const takeProfitPct of takeProfitList) {
-      for (const minAtrPct of minAtrPctList) {
-        for (const maxRsiForEntry of maxRsiList) {
-          for (const minRsiForEntry of minRsiList) {
-            if (minRsiForEntry >= maxRsiForEntry) continue;
-
-            idx++;
-            const cfg: StrategyConfig = {
-              useTrendFilter: true,
-              useV2Signal: false,
-              useV3Signal: true, // ✅ 固定用 V3 宽松确认
-              stopLossPct,
-              takeProfitPct,
-              minAtrPct,
-              maxRsiForEntry,
-              minRsiForEntry,
-              rsiPeriod: baseRsiPeriod, // ✅ 固定 RSI 周期
-              maxPremiumOverEma50: baseMaxPremiumOverEma50, // ✅ 固定不追高溢价
-            };
-
-            console.log(
-              `\n[${idx}/${totalCombos}] 回测组合:`,
-              JSON.stringify(cfg)
-            );
-
-            const ret = runBacktestWithConfig(candles4h, candles1d, cfg);
-            if (!ret || !ret.result) {
-              console.log("  -> 回测失败(可能是数据问题)，跳过。");
-              continue;
-            }
-
-            const stats = ret.result;
-
-            // 简单打分：年化 - 最大回撤
-            const score = stats.annualizedReturnPct - stats.maxDrawdownPct;
-
-            if (stats.totalTrades < 8) {
-              console.log(
-                `  -> 交易笔数太少 (${stats.totalTrades})，先丢弃。`
-              );
-              continue;
-            }
-
-            results.push({ cfg, stats, score });
-
-            console.log(
-              `  -> 年化: ${stats.annualizedReturnPct.toFixed(
-                2
-              )}%, MaxDD: ${stats.maxDrawdownPct.toFixed(
-                2
-              )}%, Score=${score.toFixed(2)}, Trades=${
-                stats.totalTrades
-              }, WinRate=${stats.winRate.toFixed(1)}%`
-            );
-          }
-        }
-      }
+  // ===== 参数搜索空间（见 backtest/search-space.ts，walk-forward 也用这套） =====
+  const baseCfg: StrategyConfig = {
+    strategy: "trend-v3-confirmed", // ✅ 固定用 V3 宽松确认（无未来函数版）
+    useTrendFilter: true,
+    rsiPeriod: baseRsiPeriod, // ✅ 固定 RSI 周期
+    maxPremiumOverEma50: baseMaxPremiumOverEma50, // ✅ 固定不追高溢价
+  };
+
+  console.log(
+    `搜索方法: ${SEARCH.method}，worker: ${WORKERS || "主线程"}${RESUME ? "，续跑" : ""}`
+  );
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.log("\n收到 Ctrl+C，停止扫参（已跑完的组合都在结果文件里）...");
+    controller.abort();
+  });
+
+  const { trials, cancelled } = await runParallelSearch(
+    V3_SWEEP_SPACE,
+    { "4h": candles4h, "1d": candles1d },
+    { kind: "config", cfg: baseCfg, candles4h: "4h", candles1d: "1d" },
+    metricObjective(SCORE_TARGET, [{ metric: "totalTrades", min: MIN_TRADES }]),
+    {
+      ...SEARCH,
+      workers: WORKERS,
+      resultsFile: RESULTS_FILE,
+      resume: RESUME,
+      signal: controller.signal,
+      onProgress: progressLogger("sweep-v3"),
     }
+  );
+
+  if (cancelled) {
+    console.log(
+      `\n⏹ 已取消：完成 ${trials.length} 组，结果在 ${RESULTS_FILE}，用 SWEEP_RESUME=true 重新运行即可接着跑。`
+    );
+    return;
   }
 
+  const failed = trials.filter((t) => !t.result).length;
+  const tooFew = trials.filter((t) => t.result && !t.feasible).length;
+  console.log(
+    `\n共 ${trials.length} 组：回测失败 ${failed} 组，交易笔数 < ${MIN_TRADES} 丢弃 ${tooFew} 组。`
+  );
+
+  const results: SweepItem[] = trials.flatMap((t) =>
+    t.feasible && t.result
+      ? [{ cfg: { ...baseCfg, ...t.params }, metrics: t.result, score: t.score }]
+      : []
+  );
+
   if (results.length === 0) {
     console.log("\n⚠️ 所有组合都被过滤掉了，没有可用结果。");
     return;
@@ -147,7 +134,7 @@ async function main() {
   console.log(`\n===== 参数扫街完成，TOP ${TOP_N} 组合 =====`);
 
   results.slice(0, TOP_N).forEach((item, i) => {
-    const { cfg, stats, score } = item;
+    const { cfg, metrics, score } = item;
     console.log(`\n#${i + 1}  Score=${score.toFixed(2)}`);
     console.log(
       `配置: SL=${(cfg.stopLossPct! * 100).toFixed(2)}%, ` +
@@ -158,13 +145,16 @@ async function main() {
         `MaxPremiumOverEma50=${(cfg.maxPremiumOverEma50! * 100).toFixed(1)}%`
     );
     console.log(
-      `结果: 年化=${stats.annualizedReturnPct.toFixed(
+      `结果: 年化=${metrics.annualizedReturnPct.toFixed(
         2
-      )}%, MaxDD=${stats.maxDrawdownPct.toFixed(
+      )}%, MaxDD=${metrics.maxDrawdownPct.toFixed(
         2
-      )}%, 总收益=${stats.totalReturnPct.toFixed(
+      )}%, 总收益=${metrics.totalReturnPct.toFixed(
         2
-      )}%, 笔数=${stats.totalTrades}, 胜率=${stats.winRate.toFixed(2)}%`
+      )}%, 笔数=${metrics.totalTrades}, 胜率=${metrics.winRate.toFixed(2)}%, ` +
+        `Sharpe=${metrics.sharpe?.toFixed(2) ?? "-"}, Calmar=${
+          metrics.calmar?.toFixed(2) ?? "-"
+        }, PF=${metrics.profitFactor?.toFixed(2) ?? "-"}`
     );
   });
 
@@ -11,14 +11,36 @@ export interface Candle {
   closeTime: number;
 }
 
+/**
+ * 持仓方向
+ */
+export type TradeSide = "long" | "short";
+
 /**
  * 一笔交易的记录
  */
 export interface Trade {
+  side: TradeSide;
   entryTime: number;
   exitTime: number;
   entryPrice: number;
   exitPrice: number;
-  pnlPct: number;
-  exitReason?: "SL" | "TP" | "EMA" | "MEAN";
+  pnlPct: number;        // 净收益（扣完手续费和滑点）
+  grossPnlPct?: number;  // 毛收益（只看价格变动）
+  feePct?: number;       // 手续费（双边合计）
+  slippagePct?: number;  // 滑点（双边合计）
+  fundingPct?: number;   // 持仓期间累计资金费（收到为正，支付为负）
+  riskPct?: number;      // 入场时止损距离（%），1R = riskPct，用来算 R 倍数
+  exitReason?: "SL" | "TP" | "EMA" | "MEAN" | "LIQ" | "SIGNAL"; // SIGNAL = 策略给出的 CLOSE_LONG / CLOSE_SHORT
+
+  // 持仓期间波动（annotateExcursions 填）
+  maePct?: number;        // 最大不利波动（%，相对入场价，>= 0）
+  mfePct?: number;        // 最大有利波动（%，相对入场价，>= 0）
+  barsHeld?: number;      // 持仓K线数
+  barsToMfe?: number;     // 第几根持仓K线到达 MFE
+
+  // 杠杆模拟时才有
+  leverage?: number;
+  liquidationPrice?: number;
+  pnlUSDT?: number;       // 这笔交易对账户权益的影响（USDT）
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+/**
+ * 永续合约的一次资金费结算
+ */
+export interface FundingRate {
+  fundingTime: number; // 结算时间（毫秒时间戳）
+  rate: number;        // 资金费率（0.0001 = 0.01%），正数表示多头付给空头
+}